@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "MenuItem" ADD COLUMN     "stationId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "bumpedAt" TIMESTAMP(3),
+ADD COLUMN     "bumpedById" INTEGER,
+ADD COLUMN     "stationId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "KitchenStation" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "displayOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "branchId" INTEGER NOT NULL,
+
+    CONSTRAINT "KitchenStation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KitchenStation_name_branchId_key" ON "KitchenStation"("name", "branchId");
+
+-- AddForeignKey
+ALTER TABLE "MenuItem" ADD CONSTRAINT "MenuItem_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "KitchenStation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "KitchenStation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_bumpedById_fkey" FOREIGN KEY ("bumpedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KitchenStation" ADD CONSTRAINT "KitchenStation_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "notes" TEXT;
+
+-- CreateTable
+CREATE TABLE "ModifierGroup" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "isRequired" BOOLEAN NOT NULL DEFAULT false,
+    "minSelections" INTEGER NOT NULL DEFAULT 0,
+    "maxSelections" INTEGER NOT NULL DEFAULT 1,
+    "displayOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "menuItemId" INTEGER NOT NULL,
+
+    CONSTRAINT "ModifierGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ModifierOption" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "priceDelta" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "groupId" INTEGER NOT NULL,
+
+    CONSTRAINT "ModifierOption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderItemModifier" (
+    "id" SERIAL NOT NULL,
+    "groupName" TEXT NOT NULL,
+    "optionName" TEXT NOT NULL,
+    "priceDelta" DOUBLE PRECISION NOT NULL,
+    "orderItemId" INTEGER NOT NULL,
+    "optionId" INTEGER,
+
+    CONSTRAINT "OrderItemModifier_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "ModifierGroup" ADD CONSTRAINT "ModifierGroup_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "MenuItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ModifierOption" ADD CONSTRAINT "ModifierOption_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "ModifierGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItemModifier" ADD CONSTRAINT "OrderItemModifier_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItemModifier" ADD CONSTRAINT "OrderItemModifier_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "ModifierOption"("id") ON DELETE SET NULL ON UPDATE CASCADE;
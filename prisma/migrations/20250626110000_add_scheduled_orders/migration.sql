@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "closeTime" TEXT NOT NULL DEFAULT '22:00',
+ADD COLUMN     "maxScheduleDaysAhead" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "openTime" TEXT NOT NULL DEFAULT '11:00',
+ADD COLUMN     "scheduleLeadMinutes" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "slotCapacity" INTEGER NOT NULL DEFAULT 15,
+ADD COLUMN     "slotIntervalMinutes" INTEGER NOT NULL DEFAULT 15;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "scheduledFor" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Order_branchId_scheduledFor_idx" ON "Order"("branchId", "scheduledFor");
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "FulfillmentType" AS ENUM ('DINE_IN', 'TAKEAWAY', 'DELIVERY');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "fulfillmentType" "FulfillmentType" NOT NULL DEFAULT 'TAKEAWAY',
+ADD COLUMN     "tableNumber" TEXT;
+
+-- Backfill: existing orders with a delivery address were deliveries
+UPDATE "Order" SET "fulfillmentType" = 'DELIVERY' WHERE "deliveryAddress" IS NOT NULL;
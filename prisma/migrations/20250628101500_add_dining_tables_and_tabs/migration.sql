@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "TableStatus" AS ENUM ('FREE', 'SEATED', 'DIRTY');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "tabClosedAt" TIMESTAMP(3),
+ADD COLUMN     "tableId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "round" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "DiningTable" (
+    "id" SERIAL NOT NULL,
+    "number" TEXT NOT NULL,
+    "seats" INTEGER NOT NULL,
+    "section" TEXT,
+    "status" "TableStatus" NOT NULL DEFAULT 'FREE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "branchId" INTEGER NOT NULL,
+
+    CONSTRAINT "DiningTable_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Order_tableId_tabClosedAt_idx" ON "Order"("tableId", "tabClosedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiningTable_number_branchId_key" ON "DiningTable"("number", "branchId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "DiningTable"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiningTable" ADD CONSTRAINT "DiningTable_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('BOOKED', 'SEATED', 'NO_SHOW', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "reservationDaysAhead" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "reservationDurationMinutes" INTEGER NOT NULL DEFAULT 90,
+ADD COLUMN     "reservationSlotMinutes" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateTable
+CREATE TABLE "Reservation" (
+    "id" SERIAL NOT NULL,
+    "partySize" INTEGER NOT NULL,
+    "reservedFor" TIMESTAMP(3) NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "contactName" TEXT NOT NULL,
+    "contactPhone" TEXT NOT NULL,
+    "contactEmail" TEXT,
+    "notes" TEXT,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'BOOKED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "branchId" INTEGER NOT NULL,
+    "tableId" INTEGER,
+    "customerId" INTEGER,
+
+    CONSTRAINT "Reservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Reservation_branchId_reservedFor_idx" ON "Reservation"("branchId", "reservedFor");
+
+-- CreateIndex
+CREATE INDEX "Reservation_customerId_idx" ON "Reservation"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "DiningTable"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- DropIndex
+DROP INDEX "Payment_orderId_key";
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "paidAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "paymentId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Payment_orderId_idx" ON "Payment"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: orders with a completed full payment are paid
+UPDATE "Order" o SET "paidAt" = p."createdAt"
+FROM "Payment" p
+WHERE p."orderId" = o."id" AND p."status" = 'COMPLETED' AND p."amount" >= o."totalAmount" - 0.01;
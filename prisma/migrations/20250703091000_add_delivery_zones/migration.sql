@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "DeliveryZoneType" AS ENUM ('RADIUS', 'POLYGON');
+
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "deliveryLatitude" DOUBLE PRECISION,
+ADD COLUMN     "deliveryLongitude" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "DeliveryZone" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "DeliveryZoneType" NOT NULL,
+    "radiusKm" DOUBLE PRECISION,
+    "polygon" JSONB,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "branchId" INTEGER NOT NULL,
+
+    CONSTRAINT "DeliveryZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PostcodeCentroid" (
+    "postcode" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "city" TEXT,
+
+    CONSTRAINT "PostcodeCentroid_pkey" PRIMARY KEY ("postcode")
+);
+
+-- CreateIndex
+CREATE INDEX "DeliveryZone_branchId_idx" ON "DeliveryZone"("branchId");
+
+-- AddForeignKey
+ALTER TABLE "DeliveryZone" ADD CONSTRAINT "DeliveryZone_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'DRIVER';
+
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'OUT_FOR_DELIVERY';
+
+-- CreateTable
+CREATE TABLE "DeliveryAssignment" (
+    "id" SERIAL NOT NULL,
+    "autoAssigned" BOOLEAN NOT NULL DEFAULT false,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "pickedUpAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "driverId" INTEGER NOT NULL,
+    "assignedById" INTEGER,
+
+    CONSTRAINT "DeliveryAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DriverLocationPing" (
+    "id" SERIAL NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "driverId" INTEGER NOT NULL,
+
+    CONSTRAINT "DriverLocationPing_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeliveryAssignment_orderId_key" ON "DeliveryAssignment"("orderId");
+
+-- CreateIndex
+CREATE INDEX "DeliveryAssignment_driverId_deliveredAt_idx" ON "DeliveryAssignment"("driverId", "deliveredAt");
+
+-- CreateIndex
+CREATE INDEX "DriverLocationPing_driverId_recordedAt_idx" ON "DriverLocationPing"("driverId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "DeliveryAssignment" ADD CONSTRAINT "DeliveryAssignment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeliveryAssignment" ADD CONSTRAINT "DeliveryAssignment_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeliveryAssignment" ADD CONSTRAINT "DeliveryAssignment_assignedById_fkey" FOREIGN KEY ("assignedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DriverLocationPing" ADD CONSTRAINT "DriverLocationPing_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "StockMovementReason" AS ENUM ('ORDER', 'ORDER_CANCELLED');
+
+-- AlterTable
+ALTER TABLE "InventoryItem" ALTER COLUMN "quantity" SET DATA TYPE DOUBLE PRECISION,
+ALTER COLUMN "minThreshold" SET DATA TYPE DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "MenuItemIngredient" (
+    "quantity" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "menuItemId" INTEGER NOT NULL,
+    "inventoryItemId" INTEGER NOT NULL,
+
+    CONSTRAINT "MenuItemIngredient_pkey" PRIMARY KEY ("menuItemId","inventoryItemId")
+);
+
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" SERIAL NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "reason" "StockMovementReason" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "inventoryItemId" INTEGER NOT NULL,
+    "orderId" INTEGER,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MenuItemIngredient_inventoryItemId_idx" ON "MenuItemIngredient"("inventoryItemId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_orderId_idx" ON "StockMovement"("orderId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_inventoryItemId_createdAt_idx" ON "StockMovement"("inventoryItemId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "MenuItemIngredient" ADD CONSTRAINT "MenuItemIngredient_menuItemId_fkey" FOREIGN KEY ("menuItemId") REFERENCES "MenuItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MenuItemIngredient" ADD CONSTRAINT "MenuItemIngredient_inventoryItemId_fkey" FOREIGN KEY ("inventoryItemId") REFERENCES "InventoryItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_inventoryItemId_fkey" FOREIGN KEY ("inventoryItemId") REFERENCES "InventoryItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Keep existing ingredient links; portion quantities are set per menu item before stock is deducted
+INSERT INTO "MenuItemIngredient" ("menuItemId", "inventoryItemId", "quantity")
+SELECT "B", "A", 0 FROM "_InventoryItemToMenuItem";
+
+-- DropTable
+DROP TABLE "_InventoryItemToMenuItem";
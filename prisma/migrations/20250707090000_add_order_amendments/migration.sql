@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "RefundReason" ADD VALUE 'ORDER_AMENDED';
+
+-- AlterEnum
+ALTER TYPE "StockMovementReason" ADD VALUE 'ORDER_AMENDED';
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Order_branchId_createdAt_idx" ON "Order"("branchId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Order_customerId_createdAt_idx" ON "Order"("customerId", "createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "kitchenCapacity" INTEGER NOT NULL DEFAULT 3;
+
+-- AlterTable
+ALTER TABLE "MenuItem" ADD COLUMN     "prepTimeMinutes" INTEGER NOT NULL DEFAULT 10;
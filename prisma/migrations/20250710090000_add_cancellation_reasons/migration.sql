@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "CancellationReason" AS ENUM ('CUSTOMER_REQUEST', 'OUT_OF_STOCK', 'DUPLICATE', 'PAYMENT_ISSUE', 'KITCHEN_DELAY', 'DELIVERY_UNAVAILABLE', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "customerCancelWindowMinutes" INTEGER NOT NULL DEFAULT 5;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "cancellationReason" "CancellationReason",
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Order_cancelledAt_idx" ON "Order"("cancelledAt");
+
+-- Existing cancellations had no reason code; date them from their last status event
+UPDATE "Order" o
+SET "cancellationReason" = 'OTHER',
+    "cancelledAt" = COALESCE(
+        (SELECT MAX(e."createdAt") FROM "OrderStatusEvent" e WHERE e."orderId" = o."id" AND e."toStatus" = 'CANCELLED'),
+        o."updatedAt"
+    )
+WHERE o."status" = 'CANCELLED';
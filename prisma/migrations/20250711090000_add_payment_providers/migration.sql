@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "paymentProvider" TEXT NOT NULL DEFAULT 'mock';
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "providerPaymentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "providerRefundId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_provider_providerPaymentId_key" ON "Payment"("provider", "providerPaymentId");
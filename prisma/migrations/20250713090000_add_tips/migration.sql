@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "TipPoolMethod" AS ENUM ('EQUAL', 'HOURS_WORKED', 'ROLE_WEIGHTED');
+
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN     "tipPoolMethod" "TipPoolMethod" NOT NULL DEFAULT 'HOURS_WORKED',
+ADD COLUMN     "tipPresets" INTEGER[] DEFAULT ARRAY[10, 15, 20]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "tipAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "tipAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "StaffShift" (
+    "id" SERIAL NOT NULL,
+    "clockedInAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "clockedOutAt" TIMESTAMP(3),
+    "userId" INTEGER NOT NULL,
+    "branchId" INTEGER NOT NULL,
+
+    CONSTRAINT "StaffShift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TipPoolRoleWeight" (
+    "role" "Role" NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "branchId" INTEGER NOT NULL,
+
+    CONSTRAINT "TipPoolRoleWeight_pkey" PRIMARY KEY ("branchId","role")
+);
+
+-- CreateIndex
+CREATE INDEX "StaffShift_branchId_clockedInAt_idx" ON "StaffShift"("branchId", "clockedInAt");
+
+-- CreateIndex
+CREATE INDEX "StaffShift_userId_clockedOutAt_idx" ON "StaffShift"("userId", "clockedOutAt");
+
+-- AddForeignKey
+ALTER TABLE "StaffShift" ADD CONSTRAINT "StaffShift_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StaffShift" ADD CONSTRAINT "StaffShift_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TipPoolRoleWeight" ADD CONSTRAINT "TipPoolRoleWeight_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
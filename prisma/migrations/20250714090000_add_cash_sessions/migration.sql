@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "CashSessionStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "CashMovementType" AS ENUM ('PAY_IN', 'PAY_OUT');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "cashSessionId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "cashSessionId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "cashSessionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "CashSession" (
+    "id" SERIAL NOT NULL,
+    "terminal" TEXT,
+    "status" "CashSessionStatus" NOT NULL DEFAULT 'OPEN',
+    "openingFloat" DOUBLE PRECISION NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "countedDenominations" JSONB,
+    "countedCash" DOUBLE PRECISION,
+    "expectedCash" DOUBLE PRECISION,
+    "variance" DOUBLE PRECISION,
+    "closingNote" TEXT,
+    "branchId" INTEGER NOT NULL,
+    "cashierId" INTEGER NOT NULL,
+    "closedById" INTEGER,
+
+    CONSTRAINT "CashSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CashMovement" (
+    "id" SERIAL NOT NULL,
+    "type" "CashMovementType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sessionId" INTEGER NOT NULL,
+    "recordedById" INTEGER,
+
+    CONSTRAINT "CashMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CashSession_branchId_openedAt_idx" ON "CashSession"("branchId", "openedAt");
+
+-- CreateIndex
+CREATE INDEX "CashSession_cashierId_status_idx" ON "CashSession"("cashierId", "status");
+
+-- CreateIndex
+CREATE INDEX "CashMovement_sessionId_idx" ON "CashMovement"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_cashSessionId_fkey" FOREIGN KEY ("cashSessionId") REFERENCES "CashSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_cashSessionId_fkey" FOREIGN KEY ("cashSessionId") REFERENCES "CashSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_cashSessionId_fkey" FOREIGN KEY ("cashSessionId") REFERENCES "CashSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashSession" ADD CONSTRAINT "CashSession_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashSession" ADD CONSTRAINT "CashSession_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashSession" ADD CONSTRAINT "CashSession_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashMovement" ADD CONSTRAINT "CashMovement_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "CashSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashMovement" ADD CONSTRAINT "CashMovement_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "StockMovementReason" ADD VALUE 'WASTE';
@@ -1,5 +1,10 @@
 import { Response } from 'express';
 import prisma from '../utils/prisma';
+import { recordOrderStatusEvent } from '../utils/orderHistory';
+import { publishOrderEvent } from '../utils/orderEvents';
+import { cancellationReasonError, parseCancellationReason, settleCancellation } from '../utils/cancellation';
+import { settleProviderRefunds } from '../utils/paymentGateway';
+import { ISSUED_REFUND_STATUSES } from '../utils/refunds';
 
 // System-Wide Statistics
 export const getSystemStatistics = async (_req: any, res: Response): Promise<void> => {
@@ -194,7 +199,7 @@ export const getRestaurantStatus = async (_req: any, res: Response): Promise<voi
             orders: {
               where: {
                 status: {
-                  in: ['PENDING', 'PREPARING', 'READY']
+                  in: ['PENDING', 'PREPARING', 'READY', 'OUT_FOR_DELIVERY']
                 }
               }
             }
@@ -309,7 +314,7 @@ export const getLiveOrderActivity = async (_req: any, res: Response): Promise<vo
             }
           }
         },
-        payment: {
+        payments: {
           select: {
             id: true,
             amount: true,
@@ -334,23 +339,66 @@ export const getFinancialData = async (_req: any, res: Response): Promise<void>
     const days = Number(period);
     const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
-    // Daily revenue for the period (PostgreSQL syntax)
+    // Daily revenue for the period (PostgreSQL syntax); collected payments include later refunded ones
     const dailyRevenueRaw = await prisma.$queryRawUnsafe<any[]>(
-      `SELECT DATE("createdAt") as date, SUM("amount") as revenue, COUNT(DISTINCT "orderId") as orders FROM "Payment" WHERE "status" = 'COMPLETED' AND "createdAt" >= $1 GROUP BY DATE("createdAt") ORDER BY date DESC`,
+      `SELECT DATE("createdAt") as date, SUM("amount") as revenue, COUNT(DISTINCT "orderId") as orders FROM "Payment" WHERE "status" IN ('COMPLETED', 'REFUNDED') AND "createdAt" >= $1 GROUP BY DATE("createdAt") ORDER BY date DESC`,
       startDate
     );
-    // Convert BigInt to Number if needed
-    const dailyRevenue = dailyRevenueRaw.map((row: any) => ({
-      ...row,
-      revenue: row.revenue ? Number(row.revenue) : 0,
-      orders: row.orders ? Number(row.orders) : 0
-    }));
+    // Refunds count as negative revenue on the day they were issued
+    const dailyRefundsRaw = await prisma.$queryRawUnsafe<any[]>(
+      `SELECT DATE("createdAt") as date, SUM("amount") as refunds FROM "Refund" WHERE "status" IN ('PENDING', 'COMPLETED') AND "createdAt" >= $1 GROUP BY DATE("createdAt")`,
+      startDate
+    );
+    // Convert BigInt to Number if needed and merge both by day
+    const dailyTotals = new Map<string, { date: Date; grossRevenue: number; refunds: number; orders: number }>();
+    const dayTotals = (date: Date) => {
+      const key = new Date(date).toISOString();
+      if (!dailyTotals.has(key)) {
+        dailyTotals.set(key, { date, grossRevenue: 0, refunds: 0, orders: 0 });
+      }
+      return dailyTotals.get(key)!;
+    };
+    dailyRevenueRaw.forEach((row: any) => {
+      const totals = dayTotals(row.date);
+      totals.grossRevenue = row.revenue ? Number(row.revenue) : 0;
+      totals.orders = row.orders ? Number(row.orders) : 0;
+    });
+    dailyRefundsRaw.forEach((row: any) => {
+      dayTotals(row.date).refunds = row.refunds ? Number(row.refunds) : 0;
+    });
+    const dailyRevenue = Array.from(dailyTotals.values())
+      .map(totals => ({ ...totals, revenue: totals.grossRevenue - totals.refunds }))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+    // Refunds issued in the period, with the branch of the refunded order
+    const periodRefunds = await prisma.refund.findMany({
+      where: {
+        status: { in: ISSUED_REFUND_STATUSES },
+        createdAt: {
+          gte: startDate
+        }
+      },
+      select: {
+        amount: true,
+        method: true,
+        order: {
+          select: {
+            branch: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        }
+      }
+    });
 
     // Revenue by branch (already using Prisma, no raw SQL)
     const branchRevenue = await prisma.payment.groupBy({
       by: ['orderId'],
       where: {
-        status: 'COMPLETED',
+        status: { in: ['COMPLETED', 'REFUNDED'] },
         createdAt: {
           gte: startDate
         }
@@ -399,11 +447,24 @@ export const getFinancialData = async (_req: any, res: Response): Promise<void>
       return acc;
     }, [] as Array<{ branchId: number; branchName: string; revenue: number }>);
 
+    // Subtract refunds per branch (negative revenue)
+    const branchRevenueNet = periodRefunds.reduce((acc, refund) => {
+      const branch = refund.order.branch;
+      let existing = acc.find(item => item.branchId === branch.id);
+      if (!existing) {
+        existing = { branchId: branch.id, branchName: branch.name, revenue: 0, refunds: 0 };
+        acc.push(existing);
+      }
+      existing.refunds += refund.amount;
+      existing.revenue -= refund.amount;
+      return acc;
+    }, branchRevenueAggregated.map(item => ({ ...item, refunds: 0 })));
+
     // Payment method distribution
     const paymentMethods = await prisma.payment.groupBy({
       by: ['method'],
       where: {
-        status: 'COMPLETED',
+        status: { in: ['COMPLETED', 'REFUNDED'] },
         createdAt: {
           gte: startDate
         }
@@ -413,13 +474,19 @@ export const getFinancialData = async (_req: any, res: Response): Promise<void>
         amount: true
       }
     });
-    // Convert BigInt in paymentMethods
-    const paymentMethodsFixed = paymentMethods.map(pm => ({
-      ...pm,
-      _sum: {
-        amount: pm._sum.amount ? Number(pm._sum.amount) : 0
-      }
-    }));
+    // Convert BigInt in paymentMethods; amounts are net of refunds paid out with the same method
+    const paymentMethodsFixed = paymentMethods.map(pm => {
+      const refunded = periodRefunds
+        .filter(refund => refund.method === pm.method)
+        .reduce((sum, refund) => sum + refund.amount, 0);
+      return {
+        ...pm,
+        refunded,
+        _sum: {
+          amount: (pm._sum.amount ? Number(pm._sum.amount) : 0) - refunded
+        }
+      };
+    });
 
     // Top selling items
     const topItems = await prisma.orderItem.groupBy({
@@ -463,8 +530,12 @@ export const getFinancialData = async (_req: any, res: Response): Promise<void>
 
     res.json({
       dailyRevenue,
-      branchRevenue: branchRevenueAggregated,
+      branchRevenue: branchRevenueNet,
       paymentMethods: paymentMethodsFixed,
+      refunds: {
+        count: periodRefunds.length,
+        total: periodRefunds.reduce((sum, refund) => sum + refund.amount, 0)
+      },
       topItems: topItemsWithNames
     });
   } catch (error) {
@@ -491,7 +562,7 @@ export const getSystemHealth = async (_req: any, res: Response): Promise<void> =
       prisma.order.count({
         where: {
           status: {
-            in: ['PENDING', 'PREPARING', 'READY']
+            in: ['PENDING', 'PREPARING', 'READY', 'OUT_FOR_DELIVERY']
           }
         }
       }),
@@ -823,10 +894,35 @@ export const performQuickAction = async (_req: any, res: Response): Promise<void
           res.status(400).json({ message: 'Order ID is required' });
           return;
         }
-        const order = await prisma.order.update({
-          where: { id: data.orderId },
-          data: { status: 'CANCELLED' }
+        const cancellationReason = parseCancellationReason(data.cancellationReason);
+        if (!cancellationReason) {
+          res.status(400).json({ message: cancellationReasonError });
+          return;
+        }
+        const existingOrder = await prisma.order.findUnique({
+          where: { id: data.orderId }
+        });
+        if (!existingOrder) {
+          res.status(404).json({ message: 'Order not found' });
+          return;
+        }
+        if (existingOrder.status === 'CANCELLED') {
+          res.status(400).json({ message: 'Order is already cancelled' });
+          return;
+        }
+        const { order, voidedPayments } = await prisma.$transaction(async (tx) => {
+          const cancellation = await settleCancellation(
+            tx, existingOrder.id, existingOrder.status, _req.user?.id ?? null, cancellationReason, data.reason
+          );
+          await recordOrderStatusEvent(tx, existingOrder.id, existingOrder.status, 'CANCELLED', _req.user, data.reason);
+          const updated = await tx.order.update({
+            where: { id: data.orderId },
+            data: { status: 'CANCELLED', ...cancellation.data }
+          });
+          return { order: updated, voidedPayments: cancellation.voidedPayments };
         });
+        await settleProviderRefunds(order.id, voidedPayments);
+        publishOrderEvent('order.cancelled', order, existingOrder.status);
         res.json({ message: 'Order cancelled successfully', order });
         break;
 
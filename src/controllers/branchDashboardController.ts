@@ -3,7 +3,17 @@
 // Includes sales data, order analytics, staff metrics, and inventory management
 
 import { Request, Response } from 'express';
+import { FulfillmentType, Prisma } from '@prisma/client';
 import prisma from '../utils/prisma'; // Database connection using Prisma ORM
+import { ISSUED_REFUND_STATUSES } from '../utils/refunds';
+
+// Refunds that reduce gross sales: only those of delivered orders, which are the
+// orders counted in gross. Amendment refunds already lowered the order total.
+const salesRefundFilter = (branchId: number): Prisma.RefundWhereInput => ({
+  order: { branchId, status: 'DELIVERED' },
+  status: { in: ISSUED_REFUND_STATUSES },
+  reason: { not: 'ORDER_AMENDED' }
+});
 
 /**
  * GET BRANCH DASHBOARD DATA
@@ -59,7 +69,7 @@ export const getBranchDashboard = async (req: Request, res: Response): Promise<v
       where: {
         branchId: user.branchId,
         status: {
-          in: ['PENDING', 'PREPARING', 'READY'] // Active order statuses
+          in: ['PENDING', 'PREPARING', 'READY', 'OUT_FOR_DELIVERY'] // Active order statuses
         }
       },
       select: {
@@ -84,7 +94,7 @@ export const getBranchDashboard = async (req: Request, res: Response): Promise<v
       where: {
         branchId: user.branchId,
         role: {
-          in: ['CHEF', 'CASHIER']
+          in: ['CHEF', 'CASHIER', 'DRIVER']
         }
       },
       select: {
@@ -329,7 +339,7 @@ export const getDailySales = async (req: Request, res: Response): Promise<void>
     const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
     const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
 
-    const [todaySales, yesterdaySales] = await Promise.all([
+    const [todaySales, yesterdaySales, todayRefunds, yesterdayRefunds] = await Promise.all([
       prisma.order.aggregate({
         where: {
           branchId: user.branchId,
@@ -347,17 +357,36 @@ export const getDailySales = async (req: Request, res: Response): Promise<void>
         },
         _sum: { totalAmount: true },
         _count: { id: true }
+      }),
+      // Refunds issued on the day count as negative sales
+      prisma.refund.aggregate({
+        where: {
+          ...salesRefundFilter(user.branchId),
+          createdAt: { gte: startOfDay, lt: endOfDay }
+        },
+        _sum: { amount: true }
+      }),
+      prisma.refund.aggregate({
+        where: {
+          ...salesRefundFilter(user.branchId),
+          createdAt: { gte: yesterday, lt: startOfDay }
+        },
+        _sum: { amount: true }
       })
     ]);
 
-    const todayTotal = todaySales._sum.totalAmount || 0;
-    const yesterdayTotal = yesterdaySales._sum.totalAmount || 0;
+    const todayGross = todaySales._sum.totalAmount || 0;
+    const todayRefunded = todayRefunds._sum.amount || 0;
+    const todayTotal = todayGross - todayRefunded;
+    const yesterdayTotal = (yesterdaySales._sum.totalAmount || 0) - (yesterdayRefunds._sum.amount || 0);
     const percentChange = yesterdayTotal > 0 ? ((todayTotal - yesterdayTotal) / yesterdayTotal) * 100 : 0;
 
     res.json({
       totalSales: todayTotal,
+      grossSales: todayGross,
+      totalRefunds: todayRefunded,
       totalOrders: todaySales._count.id || 0,
-      avgOrderValue: todaySales._count.id > 0 ? todayTotal / todaySales._count.id : 0,
+      avgOrderValue: todaySales._count.id > 0 ? todayGross / todaySales._count.id : 0,
       percentChange: Math.round(percentChange * 100) / 100
     });
   } catch (error) {
@@ -383,7 +412,7 @@ export const getActiveOrders = async (req: Request, res: Response): Promise<void
     const activeOrders = await prisma.order.findMany({
       where: {
         branchId: user.branchId,
-        status: { in: ['PENDING', 'PREPARING', 'READY'] }
+        status: { in: ['PENDING', 'PREPARING', 'READY', 'OUT_FOR_DELIVERY'] }
       },
       select: {
         id: true,
@@ -439,7 +468,7 @@ export const getStaffOnShift = async (req: Request, res: Response): Promise<void
     const staff = await prisma.user.findMany({
       where: {
         branchId: user.branchId,
-        role: { in: ['CHEF', 'CASHIER'] }
+        role: { in: ['CHEF', 'CASHIER', 'DRIVER'] }
       },
       select: {
         id: true,
@@ -615,7 +644,7 @@ export const getBranchMetricsSimple = async (req: Request, res: Response): Promi
       prisma.user.count({
         where: {
           branchId: user.branchId,
-          role: { in: ['CHEF', 'CASHIER'] }
+          role: { in: ['CHEF', 'CASHIER', 'DRIVER'] }
         }
       }),      prisma.inventoryItem.count({
         where: {
@@ -683,7 +712,40 @@ export const getSalesReport = async (req: Request, res: Response): Promise<void>
       },
       _sum: { totalAmount: true },
       _count: { id: true }
-    });    // Get top selling items
+    });
+
+    // Refunds issued in the period count as negative revenue
+    const refundData = await prisma.refund.aggregate({
+      where: {
+        ...salesRefundFilter(user.branchId),
+        createdAt: { gte: startDate, lte: endDate }
+      },
+      _sum: { amount: true },
+      _count: { id: true }
+    });
+
+    // Break sales down by fulfillment type (dine-in, takeaway, delivery)
+    const fulfillmentSales = await prisma.order.groupBy({
+      by: ['fulfillmentType'],
+      where: {
+        branchId: user.branchId,
+        createdAt: { gte: startDate, lte: endDate },
+        status: { in: ['DELIVERED'] }
+      },
+      _sum: { totalAmount: true },
+      _count: { id: true }
+    });
+
+    const salesByFulfillmentType = Object.values(FulfillmentType).reduce((acc, type) => {
+      const row = fulfillmentSales.find(entry => entry.fulfillmentType === type);
+      acc[type] = {
+        orders: row?._count.id || 0,
+        revenue: row?._sum.totalAmount || 0
+      };
+      return acc;
+    }, {} as Record<FulfillmentType, { orders: number; revenue: number }>);
+
+    // Get top selling items
     const topItems = await prisma.orderItem.groupBy({
       by: ['menuItemId'],
       where: {
@@ -721,26 +783,45 @@ export const getSalesReport = async (req: Request, res: Response): Promise<void>
       const hourEnd = new Date();
       hourEnd.setHours(i + 4, 0, 0, 0);
 
-      const hourlyStats = await prisma.order.aggregate({
-        where: {
-          branchId: user.branchId,
-          createdAt: { gte: hourStart, lt: hourEnd },
-          status: { in: ['DELIVERED'] }
-        },
-        _count: { id: true },
-        _sum: { totalAmount: true }
-      });
+      const [hourlyStats, hourlyRefunds] = await Promise.all([
+        prisma.order.aggregate({
+          where: {
+            branchId: user.branchId,
+            createdAt: { gte: hourStart, lt: hourEnd },
+            status: { in: ['DELIVERED'] }
+          },
+          _count: { id: true },
+          _sum: { totalAmount: true }
+        }),
+        prisma.refund.aggregate({
+          where: {
+            ...salesRefundFilter(user.branchId),
+            createdAt: { gte: hourStart, lt: hourEnd }
+          },
+          _sum: { amount: true }
+        })
+      ]);
 
       hourlyData.push({
         hour: `${i.toString().padStart(2, '0')}:00`,
         orders: hourlyStats._count.id || 0,
-        revenue: hourlyStats._sum.totalAmount || 0
+        revenue: (hourlyStats._sum.totalAmount || 0) - (hourlyRefunds._sum.amount || 0),
+        refunds: hourlyRefunds._sum.amount || 0
       });
-    }    res.json({
+    }
+
+    const grossSales = salesData._sum.totalAmount || 0;
+    const totalRefunds = refundData._sum.amount || 0;
+
+    res.json({
       period,
-      totalSales: salesData._sum.totalAmount || 0,
+      totalSales: grossSales - totalRefunds,
+      grossSales,
+      totalRefunds,
+      refundCount: refundData._count.id || 0,
       totalOrders: salesData._count.id || 0,
       averageOrderValue: salesData._count.id > 0 ? (salesData._sum.totalAmount || 0) / salesData._count.id : 0,
+      salesByFulfillmentType,
       topItems: topItemsWithDetails,
       hourlyData
     });
@@ -767,7 +848,7 @@ export const getStaffPerformance = async (req: Request, res: Response): Promise<
     const staff = await prisma.user.findMany({
       where: {
         branchId: user.branchId,
-        role: { in: ['CHEF', 'CASHIER'] }
+        role: { in: ['CHEF', 'CASHIER', 'DRIVER'] }
       },
       select: {
         id: true,
@@ -785,7 +866,8 @@ export const getStaffPerformance = async (req: Request, res: Response): Promise<
       staffOnShift,
       staffByRole: {
         CHEF: staff.filter(s => s.role === 'CHEF').length,
-        CASHIER: staff.filter(s => s.role === 'CASHIER').length
+        CASHIER: staff.filter(s => s.role === 'CASHIER').length,
+        DRIVER: staff.filter(s => s.role === 'DRIVER').length
       },      staffList: staff.map(s => ({
         id: s.id,
         name: s.username,
@@ -832,8 +914,27 @@ export const getOrderAnalytics = async (req: Request, res: Response): Promise<vo
       return acc;
     }, {} as Record<string, number>);
 
-    // Remove order types distribution as 'type' field doesn't exist in Order model
-    // Focus on status distribution instead
+    // Get order counts by fulfillment type and status
+    const ordersByFulfillment = await prisma.order.groupBy({
+      by: ['fulfillmentType', 'status'],
+      where: {
+        branchId: user.branchId,
+        createdAt: { gte: startOfDay, lt: endOfDay }
+      },
+      _count: { id: true }
+    });
+
+    const fulfillmentDistribution = Object.values(FulfillmentType).reduce((acc, type) => {
+      const rows = ordersByFulfillment.filter(entry => entry.fulfillmentType === type);
+      acc[type] = {
+        totalOrders: rows.reduce((sum, entry) => sum + (entry._count?.id || 0), 0),
+        statusDistribution: rows.reduce((statuses, entry) => {
+          statuses[entry.status] = entry._count?.id || 0;
+          return statuses;
+        }, {} as Record<string, number>)
+      };
+      return acc;
+    }, {} as Record<FulfillmentType, { totalOrders: number; statusDistribution: Record<string, number> }>);
 
     // Get average preparation time (simplified calculation)
     const completedOrders = await prisma.order.findMany({
@@ -859,10 +960,12 @@ export const getOrderAnalytics = async (req: Request, res: Response): Promise<vo
       pendingOrders: statusCounts['PENDING'] || 0,
       preparingOrders: statusCounts['PREPARING'] || 0,
       readyOrders: statusCounts['READY'] || 0,
+      outForDeliveryOrders: statusCounts['OUT_FOR_DELIVERY'] || 0,
       completedOrders: statusCounts['DELIVERED'] || 0,
       cancelledOrders: statusCounts['CANCELLED'] || 0,
       averagePreparationTime: Math.round(avgPrepTime),
-      statusDistribution: statusCounts
+      statusDistribution: statusCounts,
+      fulfillmentDistribution
     });
   } catch (error) {
     console.error('Error in getOrderAnalytics:', error);
@@ -0,0 +1,254 @@
+/**
+ * Order Cancellation Controller
+ *
+ * This module lets customers cancel their own orders shortly after placing
+ * them and reports on cancellations. Staff cancel through the order status
+ * endpoint; every cancellation carries a reason code either way.
+ *
+ * Features:
+ * - Customer self-cancel while the order is PENDING and within the branch's
+ *   cancel window (Branch.customerCancelWindowMinutes)
+ * - Refund of payments and return of stock on cancellation
+ * - Cancellation analytics by reason, branch and staff member
+ *
+ * Role-Based Access:
+ * - CUSTOMER: Cancel their own orders
+ * - BRANCH_MANAGER: Analytics for their branch
+ * - ADMIN/GENERAL_MANAGER: Analytics for all branches
+ */
+
+import { Request, Response } from 'express';
+import { CancellationReason, Prisma } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { recordOrderStatusEvent } from '../utils/orderHistory';
+import { publishOrderEvent } from '../utils/orderEvents';
+import { roundCurrency } from '../utils/payments';
+import { settleProviderRefunds } from '../utils/paymentGateway';
+import { parseDate } from '../utils/orderFilters';
+import {
+  CANCELLATION_REASONS,
+  cancellationReasonError,
+  parseCancellationReason,
+  settleCancellation
+} from '../utils/cancellation';
+
+/**
+ * Cancel Own Order
+ *
+ * Request Body:
+ * - cancellationReason: Reason code (usually CUSTOMER_REQUEST or DUPLICATE)
+ * - reason (optional): Free-text note
+ *
+ * @param req - Authenticated customer request with order ID parameter
+ * @param res - Response with the cancelled order and any refunds
+ */
+export const cancelOwnOrder = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+    const user = req.user!;
+
+    const cancellationReason = parseCancellationReason(req.body.cancellationReason);
+    if (!cancellationReason) {
+      res.status(400).json({ message: cancellationReasonError });
+      return;
+    }
+
+    const existing = await prisma.order.findUnique({
+      where: { id: Number(id) },
+      include: { branch: { select: { customerCancelWindowMinutes: true } } }
+    });
+
+    if (!existing || existing.customerId !== user.id) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    if (existing.status !== 'PENDING') {
+      res.status(409).json({ message: `Only pending orders can be cancelled; this order is ${existing.status}` });
+      return;
+    }
+
+    const windowMinutes = existing.branch.customerCancelWindowMinutes;
+    const deadline = new Date(existing.createdAt.getTime() + windowMinutes * 60 * 1000);
+    if (new Date() > deadline) {
+      res.status(409).json({
+        message: windowMinutes > 0
+          ? `Orders can only be cancelled within ${windowMinutes} minutes of placing them; please contact the restaurant`
+          : 'This branch does not allow online cancellation; please contact the restaurant',
+        cancellableUntil: windowMinutes > 0 ? deadline : null
+      });
+      return;
+    }
+
+    // Claim the order first so the kitchen cannot start it while it is being cancelled
+    const cancelled = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.order.updateMany({
+        where: { id: existing.id, status: 'PENDING' },
+        data: { status: 'CANCELLED' }
+      });
+      if (claimed.count === 0) return null;
+
+      const cancellation = await settleCancellation(tx, existing.id, 'PENDING', user.id, cancellationReason, reason);
+      await recordOrderStatusEvent(tx, existing.id, 'PENDING', 'CANCELLED', user, reason);
+
+      await tx.order.update({
+        where: { id: existing.id },
+        data: cancellation.data
+      });
+      return cancellation;
+    });
+
+    if (!cancelled) {
+      res.status(409).json({ message: 'The order is already being prepared and can no longer be cancelled' });
+      return;
+    }
+
+    // Refunds through the payment provider are sent once the cancellation is committed
+    await settleProviderRefunds(existing.id, cancelled.voidedPayments);
+
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: {
+        items: {
+          include: {
+            menuItem: true
+          }
+        },
+        payments: true,
+        refunds: true
+      }
+    });
+
+    publishOrderEvent('order.cancelled', order, 'PENDING');
+
+    res.json({
+      message: 'Order cancelled successfully',
+      order
+    });
+  } catch (error) {
+    console.error('Error in cancelOwnOrder:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Cancellation Analytics
+ *
+ * Query Parameters:
+ * - startDate, endDate (optional): Cancellation date range
+ * - branchId (ADMIN/GENERAL_MANAGER only): Branch filter
+ *
+ * Staff figures use the user recorded on the cancellation status event;
+ * cancellations by customers are counted separately.
+ *
+ * @param req - Authenticated manager request
+ * @param res - Response with totals by reason, branch and staff member
+ */
+export const getCancellationAnalytics = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId } = req.query;
+    const user = req.user!;
+    const scope: Prisma.OrderWhereInput = {};
+
+    const startDate = req.query.startDate !== undefined ? parseDate(req.query.startDate) : undefined;
+    const endDate = req.query.endDate !== undefined ? parseDate(req.query.endDate) : undefined;
+    if (startDate === null || endDate === null) {
+      res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+      return;
+    }
+    if (startDate && endDate && startDate > endDate) {
+      res.status(400).json({ message: 'startDate must be before endDate' });
+      return;
+    }
+
+    if (user.role === 'BRANCH_MANAGER') {
+      scope.branchId = user.branchId;
+    } else if (branchId) {
+      scope.branchId = Number(branchId);
+    }
+
+    const cancelledAt: Prisma.DateTimeNullableFilter = { not: null };
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (startDate) {
+      cancelledAt.gte = startDate;
+      createdAt.gte = startDate;
+    }
+    if (endDate) {
+      cancelledAt.lte = endDate;
+      createdAt.lte = endDate;
+    }
+
+    const [cancellations, ordersPlaced] = await Promise.all([
+      prisma.order.findMany({
+        where: { ...scope, status: 'CANCELLED', cancelledAt },
+        select: {
+          id: true,
+          totalAmount: true,
+          cancellationReason: true,
+          branch: { select: { id: true, name: true } },
+          statusEvents: {
+            where: { toStatus: 'CANCELLED' },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: {
+              actorRole: true,
+              actor: { select: { id: true, username: true } }
+            }
+          }
+        }
+      }),
+      prisma.order.count({ where: { ...scope, createdAt } })
+    ]);
+
+    const summarize = (orders: typeof cancellations) => ({
+      count: orders.length,
+      amount: roundCurrency(orders.reduce((sum, order) => sum + order.totalAmount, 0))
+    });
+
+    const byReason = CANCELLATION_REASONS.reduce((acc, code) => {
+      acc[code] = summarize(cancellations.filter(order => order.cancellationReason === code));
+      return acc;
+    }, {} as Record<CancellationReason, { count: number; amount: number }>);
+
+    const branches = new Map<number, { branchId: number; name: string; orders: typeof cancellations }>();
+    const staff = new Map<number, { userId: number; username: string; role: string | null; orders: typeof cancellations }>();
+    let byCustomers = 0;
+
+    for (const order of cancellations) {
+      const branchEntry = branches.get(order.branch.id)
+        ?? { branchId: order.branch.id, name: order.branch.name, orders: [] };
+      branchEntry.orders.push(order);
+      branches.set(order.branch.id, branchEntry);
+
+      const event = order.statusEvents[0];
+      if (event?.actorRole === 'CUSTOMER') {
+        byCustomers++;
+      } else if (event?.actor) {
+        const staffEntry = staff.get(event.actor.id)
+          ?? { userId: event.actor.id, username: event.actor.username, role: event.actorRole, orders: [] };
+        staffEntry.orders.push(order);
+        staff.set(event.actor.id, staffEntry);
+      }
+    }
+
+    res.json({
+      totalCancelled: cancellations.length,
+      cancelledAmount: summarize(cancellations).amount,
+      ordersPlaced,
+      cancellationRate: ordersPlaced ? roundCurrency((cancellations.length / ordersPlaced) * 100) : 0,
+      cancelledByCustomers: byCustomers,
+      byReason,
+      byBranch: [...branches.values()]
+        .map(({ orders, ...branch }) => ({ ...branch, ...summarize(orders) }))
+        .sort((a, b) => b.count - a.count),
+      byStaff: [...staff.values()]
+        .map(({ orders, ...member }) => ({ ...member, ...summarize(orders) }))
+        .sort((a, b) => b.count - a.count)
+    });
+  } catch (error) {
+    console.error('Error in getCancellationAnalytics:', error);
+    handleError(error, res);
+  }
+};
@@ -0,0 +1,344 @@
+/**
+ * Cart Controller
+ *
+ * This module manages customer shopping carts. A customer has at most one
+ * cart per branch; carts are not orders, so they never show up in kitchen or
+ * order views until they are checked out.
+ *
+ * Features:
+ * - Line-level add, update and remove operations (same item with the same
+ *   modifiers and notes is merged into one line)
+ * - Carts expire after CART_TTL_HOURS (default 72) without changes (see utils/carts)
+ * - Live pricing from the current menu; price changes since an item was added
+ *   must be confirmed at checkout
+ * - Checkout converts the cart into an order and empties it
+ *
+ * Role-Based Access:
+ * - CUSTOMER: Their own carts
+ */
+
+import { Request, Response } from 'express';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { buildOrderItems } from '../utils/orderItems';
+import { placeOrder } from '../utils/orderPlacement';
+import {
+  addCartLines,
+  cartInclude,
+  findActiveCart,
+  nextExpiry,
+  normalizeNotes,
+  normalizeOptionIds,
+  presentCart,
+  priceCartLines
+} from '../utils/carts';
+
+// Thrown inside the checkout transaction when the cart was checked out or changed meanwhile
+class CartChangedError extends Error {}
+
+/**
+ * Parse the branch ID parameter and check the branch exists.
+ * Sends the error response itself and returns null for unknown branches.
+ */
+const getCartBranchId = async (req: Request, res: Response): Promise<number | null> => {
+  const branchId = Number(req.params.branchId);
+  if (!Number.isInteger(branchId) || branchId < 1) {
+    res.status(400).json({ message: 'Invalid branch ID' });
+    return null;
+  }
+
+  const branch = await prisma.branch.findUnique({ where: { id: branchId }, select: { id: true } });
+  if (!branch) {
+    res.status(404).json({ message: 'Branch not found' });
+    return null;
+  }
+
+  return branchId;
+};
+
+const emptyCart = (branchId: number) => ({
+  id: null,
+  branchId,
+  expiresAt: null,
+  items: [],
+  totalAmount: 0,
+  hasIssues: false
+});
+
+// Get all active carts of the logged-in customer (one per branch)
+export const getCarts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    await prisma.cart.deleteMany({
+      where: { customerId: user.id, expiresAt: { lt: new Date() } }
+    });
+
+    const carts = await prisma.cart.findMany({
+      where: { customerId: user.id },
+      include: {
+        branch: { select: { id: true, name: true } },
+        _count: { select: { items: true } }
+      },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    res.json(carts.map(cart => ({
+      id: cart.id,
+      branch: cart.branch,
+      itemCount: cart._count.items,
+      expiresAt: cart.expiresAt,
+      updatedAt: cart.updatedAt
+    })));
+  } catch (error) {
+    console.error('Error in getCarts:', error);
+    handleError(error, res);
+  }
+};
+
+// Get the cart for a branch with current prices
+export const getCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const branchId = await getCartBranchId(req, res);
+    if (branchId === null) return;
+    const cart = await findActiveCart(req.user!.id, branchId);
+
+    res.json(cart ? await presentCart(cart) : emptyCart(branchId));
+  } catch (error) {
+    console.error('Error in getCart:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Add Cart Item
+ *
+ * Request Body:
+ * - menuItemId: Menu item of the branch
+ * - quantity: Whole number of at least 1
+ * - modifierOptionIds (optional): Selected modifier options
+ * - notes (optional): Special instructions
+ *
+ * @param req - Request with branch ID parameter and the item
+ * @param res - Response with the updated cart
+ */
+export const addCartItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const branchId = await getCartBranchId(req, res);
+    if (branchId === null) return;
+    const user = req.user!;
+    const { menuItemId, quantity } = req.body;
+    const modifierOptionIds = normalizeOptionIds(req.body.modifierOptionIds);
+    const notes = normalizeNotes(req.body.notes);
+
+    const built = await buildOrderItems([{ menuItemId, quantity, modifierOptionIds, notes }], branchId);
+    if (built.error !== undefined) {
+      res.status(built.status).json({ message: built.error });
+      return;
+    }
+
+    const cart = await addCartLines(user.id, branchId, [{
+      menuItemId: Number(menuItemId),
+      quantity: Number(quantity),
+      modifierOptionIds,
+      notes,
+      unitPrice: built.orderItems[0].unitPrice
+    }]);
+    res.status(201).json(await presentCart(cart));
+  } catch (error) {
+    console.error('Error in addCartItem:', error);
+    handleError(error, res);
+  }
+};
+
+// Update quantity, modifiers or notes of a cart line
+export const updateCartItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const branchId = await getCartBranchId(req, res);
+    if (branchId === null) return;
+    const user = req.user!;
+
+    const cart = await findActiveCart(user.id, branchId);
+    const item = cart?.items.find(line => line.id === Number(req.params.itemId));
+    if (!cart || !item) {
+      res.status(404).json({ message: 'Cart item not found' });
+      return;
+    }
+
+    const quantity = req.body.quantity ?? item.quantity;
+    const modifierOptionIds = req.body.modifierOptionIds !== undefined
+      ? normalizeOptionIds(req.body.modifierOptionIds)
+      : item.modifierOptionIds;
+    const notes = req.body.notes !== undefined ? normalizeNotes(req.body.notes) : item.notes;
+
+    const built = await buildOrderItems([{ menuItemId: item.menuItemId, quantity, modifierOptionIds, notes }], branchId);
+    if (built.error !== undefined) {
+      res.status(built.status).json({ message: built.error });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.cartItem.update({
+        where: { id: item.id },
+        data: {
+          quantity: Number(quantity),
+          modifierOptionIds,
+          notes,
+          unitPrice: built.orderItems[0].unitPrice
+        }
+      }),
+      prisma.cart.update({ where: { id: cart.id }, data: { expiresAt: nextExpiry() } })
+    ]);
+
+    const updated = await prisma.cart.findUniqueOrThrow({ where: { id: cart.id }, include: cartInclude });
+    res.json(await presentCart(updated));
+  } catch (error) {
+    console.error('Error in updateCartItem:', error);
+    handleError(error, res);
+  }
+};
+
+// Remove a line from the cart
+export const removeCartItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const branchId = await getCartBranchId(req, res);
+    if (branchId === null) return;
+    const user = req.user!;
+
+    const cart = await findActiveCart(user.id, branchId);
+    const item = cart?.items.find(line => line.id === Number(req.params.itemId));
+    if (!cart || !item) {
+      res.status(404).json({ message: 'Cart item not found' });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.cartItem.delete({ where: { id: item.id } }),
+      prisma.cart.update({ where: { id: cart.id }, data: { expiresAt: nextExpiry() } })
+    ]);
+
+    const updated = await prisma.cart.findUniqueOrThrow({ where: { id: cart.id }, include: cartInclude });
+    res.json(await presentCart(updated));
+  } catch (error) {
+    console.error('Error in removeCartItem:', error);
+    handleError(error, res);
+  }
+};
+
+// Empty the cart for a branch
+export const clearCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const branchId = await getCartBranchId(req, res);
+    if (branchId === null) return;
+
+    await prisma.cart.deleteMany({
+      where: { customerId: req.user!.id, branchId }
+    });
+
+    res.json(emptyCart(branchId));
+  } catch (error) {
+    console.error('Error in clearCart:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Checkout Cart
+ *
+ * Revalidates every line against the current menu and places the order.
+ * Unavailable items block checkout; price changes since the items were added
+ * must be confirmed by checking out again (or with acceptPriceChanges).
+ *
+ * Request Body:
+ * - fulfillmentType: DINE_IN (with tableNumber), TAKEAWAY or DELIVERY (with deliveryAddress)
+ * - deliveryAddress, tableNumber, scheduledFor (optional): As for order creation
+ * - acceptPriceChanges (optional): Place the order at current prices without confirming
+ *
+ * @param req - Request with branch ID parameter and fulfillment details
+ * @param res - Response with the created order, or 409 with what needs attention
+ */
+export const checkoutCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const branchId = await getCartBranchId(req, res);
+    if (branchId === null) return;
+    const user = req.user!;
+    const { fulfillmentType, deliveryAddress, tableNumber, scheduledFor, acceptPriceChanges } = req.body;
+
+    const cart = await findActiveCart(user.id, branchId);
+    if (!cart || !cart.items.length) {
+      res.status(400).json({ message: 'Your cart is empty' });
+      return;
+    }
+
+    const lines = await priceCartLines(cart);
+
+    const unavailable = lines.filter(line => line.issue !== null);
+    if (unavailable.length) {
+      res.status(409).json({
+        message: 'Some items in your cart are no longer available',
+        unavailable: unavailable.map(line => ({ id: line.id, name: line.name, issue: line.issue }))
+      });
+      return;
+    }
+
+    const repriced = lines.filter(line => line.priceChanged);
+    if (repriced.length && acceptPriceChanges !== true) {
+      // Store the new prices so checking out again confirms them
+      await prisma.$transaction(repriced.map(line => prisma.cartItem.update({
+        where: { id: line.id },
+        data: { unitPrice: line.unitPrice as number }
+      })));
+
+      res.status(409).json({
+        message: 'Prices changed since the items were added; please review your cart and check out again',
+        repriced: repriced.map(line => ({
+          id: line.id,
+          name: line.name,
+          previousUnitPrice: line.addedUnitPrice,
+          unitPrice: line.unitPrice
+        }))
+      });
+      return;
+    }
+
+    const placed = await placeOrder({
+      customerId: user.id,
+      actor: user,
+      items: cart.items.map(item => ({
+        menuItemId: item.menuItemId,
+        quantity: item.quantity,
+        modifierOptionIds: item.modifierOptionIds,
+        notes: item.notes
+      })),
+      branchId,
+      fulfillmentType,
+      deliveryAddress,
+      tableNumber,
+      scheduledFor,
+      restrictMenuToBranch: true,
+      // The cart is claimed (emptied) first in the order's transaction, so a concurrent
+      // checkout or a change to the cart since it was priced fails instead of ordering twice
+      claim: async (tx) => {
+        const claimed = await tx.cart.deleteMany({ where: { id: cart.id, updatedAt: cart.updatedAt } });
+        if (claimed.count === 0) throw new CartChangedError();
+      }
+    });
+
+    if (placed.error !== undefined) {
+      res.status(placed.status).json({ message: placed.error, shortages: placed.shortages });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Order placed successfully',
+      order: placed.order
+    });
+  } catch (error) {
+    if (error instanceof CartChangedError) {
+      res.status(409).json({ message: 'Your cart was checked out or changed in the meantime; please review it and try again' });
+      return;
+    }
+    console.error('Error in checkoutCart:', error);
+    handleError(error, res);
+  }
+};
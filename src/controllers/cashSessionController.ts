@@ -0,0 +1,469 @@
+/**
+ * Cash Session Controller
+ *
+ * This module tracks cash drawers. A cashier opens a session with a float,
+ * cash payments and refunds flow into it while it is open, and at the end of
+ * the shift the drawer is counted by denomination and reconciled against the
+ * expected cash (see utils/cashSessions).
+ *
+ * Features:
+ * - One open session per cashier, and per terminal at a branch
+ * - Pay-ins and pay-outs with a reason
+ * - Close with counted denominations, expected cash and variance
+ * - Session listing and a report of sessions with large variances
+ *
+ * Role-Based Access:
+ * - CASHIER: Open, manage and close their own sessions
+ * - BRANCH_MANAGER: Open their own sessions; manage, close and review all sessions of their branch
+ * - ADMIN/GENERAL_MANAGER: Review sessions of all branches
+ */
+
+import { Request, Response } from 'express';
+import { CashMovementType, CashSessionStatus, Prisma } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { roundCurrency } from '../utils/payments';
+import { CursorPosition, decodeCursor, parsePageSize, toPaginatedResponse } from '../utils/pagination';
+import { CASH_VARIANCE_THRESHOLD, getExpectedCash, parseDenominations } from '../utils/cashSessions';
+
+const sessionInclude = {
+  branch: { select: { id: true, name: true } },
+  cashier: { select: { id: true, username: true } },
+  closedBy: { select: { id: true, username: true } }
+} satisfies Prisma.CashSessionInclude;
+
+// Load a session the user may manage (own session, or any session of a manager's branch)
+const getAccessibleSession = async (req: Request, res: Response) => {
+  const user = req.user!;
+  const session = await prisma.cashSession.findUnique({
+    where: { id: Number(req.params.id) }
+  });
+
+  if (!session) {
+    res.status(404).json({ message: 'Cash session not found' });
+    return null;
+  }
+
+  const allowed = session.cashierId === user.id
+    || ['ADMIN', 'GENERAL_MANAGER'].includes(user.role)
+    || (user.role === 'BRANCH_MANAGER' && session.branchId === user.branchId);
+  if (!allowed) {
+    res.status(403).json({ message: 'Unauthorized to access this cash session' });
+    return null;
+  }
+
+  return session;
+};
+
+// Scope session queries to what the user may see
+const sessionScope = (req: Request): Prisma.CashSessionWhereInput => {
+  const user = req.user!;
+  if (user.role === 'CASHIER') return { cashierId: user.id };
+  if (user.role === 'BRANCH_MANAGER') return { branchId: user.branchId };
+  return req.query.branchId ? { branchId: Number(req.query.branchId) } : {};
+};
+
+/**
+ * Open Cash Session
+ *
+ * Request Body:
+ * - openingFloat: Cash in the drawer at the start of the shift
+ * - terminal (optional): Till/terminal label
+ *
+ * @param req - Authenticated cashier request
+ * @param res - Response with the opened session
+ */
+export const openCashSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { openingFloat, terminal } = req.body;
+    const user = req.user!;
+
+    if (!user.branchId) {
+      res.status(400).json({ message: 'You must be assigned to a branch to open a cash session' });
+      return;
+    }
+
+    const float = roundCurrency(Number(openingFloat));
+    if (openingFloat === undefined || !Number.isFinite(float) || float < 0) {
+      res.status(400).json({ message: 'openingFloat must be an amount of at least 0' });
+      return;
+    }
+
+    if (terminal !== undefined && (typeof terminal !== 'string' || !terminal.trim())) {
+      res.status(400).json({ message: 'terminal must be a non-empty string' });
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const open = await tx.cashSession.findFirst({
+        where: {
+          status: 'OPEN',
+          OR: [
+            { cashierId: user.id },
+            ...(terminal ? [{ branchId: user.branchId!, terminal: terminal.trim() }] : [])
+          ]
+        }
+      });
+      if (open) {
+        return {
+          error: open.cashierId === user.id
+            ? 'You already have an open cash session'
+            : `Terminal ${open.terminal} already has an open cash session`,
+          session: open
+        };
+      }
+
+      return {
+        session: await tx.cashSession.create({
+          data: {
+            branchId: user.branchId!,
+            cashierId: user.id,
+            terminal: terminal?.trim() || null,
+            openingFloat: float
+          },
+          include: sessionInclude
+        })
+      };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if ('error' in result) {
+      res.status(409).json({ message: result.error, session: result.session });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Cash session opened successfully',
+      session: result.session
+    });
+  } catch (error) {
+    console.error('Error in openCashSession:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Current Cash Session
+ *
+ * @param req - Authenticated cashier request
+ * @param res - Response with the user's open session and its expected cash so far
+ */
+export const getCurrentCashSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const session = await prisma.cashSession.findFirst({
+      where: { cashierId: user.id, status: 'OPEN' },
+      include: sessionInclude
+    });
+
+    if (!session) {
+      res.status(404).json({ message: 'You have no open cash session' });
+      return;
+    }
+
+    res.json({
+      session,
+      reconciliation: await getExpectedCash(prisma, session.id)
+    });
+  } catch (error) {
+    console.error('Error in getCurrentCashSession:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Add Cash Movement
+ *
+ * Request Body:
+ * - type: PAY_IN or PAY_OUT
+ * - amount: Amount put in or taken out
+ * - reason: Why the cash moved
+ *
+ * @param req - Request with session ID parameter
+ * @param res - Response with the recorded movement
+ */
+export const addCashMovement = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type, amount, reason } = req.body;
+    const user = req.user!;
+
+    if (!Object.values(CashMovementType).includes(type)) {
+      res.status(400).json({ message: `type must be one of ${Object.values(CashMovementType).join(', ')}` });
+      return;
+    }
+
+    const value = roundCurrency(Number(amount));
+    if (!Number.isFinite(value) || value <= 0) {
+      res.status(400).json({ message: 'amount must be greater than 0' });
+      return;
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ message: 'reason is required' });
+      return;
+    }
+
+    const session = await getAccessibleSession(req, res);
+    if (!session) return;
+
+    if (session.status !== 'OPEN') {
+      res.status(409).json({ message: 'Cash session is closed' });
+      return;
+    }
+
+    const movement = await prisma.cashMovement.create({
+      data: {
+        sessionId: session.id,
+        type,
+        amount: value,
+        reason: reason.trim(),
+        recordedById: user.id
+      }
+    });
+
+    res.status(201).json({
+      message: type === 'PAY_IN' ? 'Pay-in recorded successfully' : 'Pay-out recorded successfully',
+      movement
+    });
+  } catch (error) {
+    console.error('Error in addCashMovement:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Close Cash Session
+ *
+ * Request Body:
+ * - denominations: Counted cash as [{ denomination, count }, ...]
+ * - note (optional): Explanation, e.g. for a variance
+ *
+ * @param req - Request with session ID parameter
+ * @param res - Response with the closed session and its reconciliation
+ */
+export const closeCashSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { denominations, note } = req.body;
+    const user = req.user!;
+
+    const counted = parseDenominations(denominations);
+    if (counted.error !== undefined) {
+      res.status(400).json({ message: counted.error });
+      return;
+    }
+
+    const session = await getAccessibleSession(req, res);
+    if (!session) return;
+
+    // Claim the session so cash cannot be added to it while it is being reconciled
+    const result = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.cashSession.updateMany({
+        where: { id: session.id, status: 'OPEN' },
+        data: { status: 'CLOSED', closedAt: new Date(), closedById: user.id }
+      });
+      if (claimed.count === 0) return null;
+
+      const reconciliation = await getExpectedCash(tx, session.id);
+      const closed = await tx.cashSession.update({
+        where: { id: session.id },
+        data: {
+          countedDenominations: counted.denominations as unknown as Prisma.InputJsonValue,
+          countedCash: counted.total,
+          expectedCash: reconciliation.expectedCash,
+          variance: roundCurrency(counted.total - reconciliation.expectedCash),
+          closingNote: note || null
+        },
+        include: sessionInclude
+      });
+
+      return { session: closed, reconciliation };
+    });
+
+    if (!result) {
+      res.status(409).json({ message: 'Cash session is already closed' });
+      return;
+    }
+
+    const variance = result.session.variance ?? 0;
+
+    res.json({
+      message: 'Cash session closed successfully',
+      session: result.session,
+      reconciliation: {
+        ...result.reconciliation,
+        countedCash: counted.total,
+        variance,
+        flagged: Math.abs(variance) >= CASH_VARIANCE_THRESHOLD
+      }
+    });
+  } catch (error) {
+    console.error('Error in closeCashSession:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Cash Session
+ *
+ * @param req - Request with session ID parameter
+ * @param res - Response with the session, its movements and reconciliation
+ *              (expected cash so far for open sessions)
+ */
+export const getCashSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accessible = await getAccessibleSession(req, res);
+    if (!accessible) return;
+
+    const session = await prisma.cashSession.findUniqueOrThrow({
+      where: { id: accessible.id },
+      include: {
+        ...sessionInclude,
+        movements: {
+          include: { recordedBy: { select: { id: true, username: true } } },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    res.json({
+      session,
+      reconciliation: {
+        ...await getExpectedCash(prisma, session.id),
+        countedCash: session.countedCash,
+        variance: session.variance
+      }
+    });
+  } catch (error) {
+    console.error('Error in getCashSession:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Cash Sessions
+ *
+ * Query Parameters:
+ * - status (optional): OPEN or CLOSED
+ * - cashierId (managers only), branchId (ADMIN/GENERAL_MANAGER only)
+ * - startDate, endDate (optional): Opening date range
+ * - limit, cursor (optional): Page size and nextCursor of the previous page
+ *
+ * @param req - Authenticated staff request
+ * @param res - Paginated response with sessions, newest first
+ */
+export const getCashSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, cashierId, startDate, endDate, limit, cursor: rawCursor } = req.query;
+    const user = req.user!;
+
+    if (status !== undefined && !Object.values(CashSessionStatus).includes(status as CashSessionStatus)) {
+      res.status(400).json({ message: `status must be one of ${Object.values(CashSessionStatus).join(', ')}` });
+      return;
+    }
+
+    const perPage = parsePageSize(limit);
+    if (perPage === null) {
+      res.status(400).json({ message: 'limit must be a whole number between 1 and 100' });
+      return;
+    }
+
+    let cursor: CursorPosition | null = null;
+    if (rawCursor !== undefined) {
+      cursor = decodeCursor(String(rawCursor));
+      if (!cursor) {
+        res.status(400).json({ message: 'Invalid cursor' });
+        return;
+      }
+    }
+
+    const where: Prisma.CashSessionWhereInput = { ...sessionScope(req) };
+    if (status) where.status = status as CashSessionStatus;
+    if (cashierId && user.role !== 'CASHIER') where.cashierId = Number(cashierId);
+    if (startDate || endDate) {
+      where.openedAt = {};
+      if (startDate) where.openedAt.gte = new Date(startDate as string);
+      if (endDate) where.openedAt.lte = new Date(endDate as string);
+    }
+
+    const [sessions, total] = await Promise.all([
+      prisma.cashSession.findMany({
+        where,
+        include: sessionInclude,
+        orderBy: { id: 'desc' },
+        take: perPage + 1,
+        ...(cursor && { cursor: { id: cursor.id }, skip: 1 })
+      }),
+      prisma.cashSession.count({ where })
+    ]);
+
+    res.json(toPaginatedResponse(sessions, total, perPage, cursor?.page ?? 1));
+  } catch (error) {
+    console.error('Error in getCashSessions:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Cash Variances
+ *
+ * Lists closed sessions whose variance is at least the threshold either way,
+ * largest first, with totals per cashier.
+ *
+ * Query Parameters:
+ * - threshold (optional): Minimum absolute variance (default CASH_VARIANCE_THRESHOLD)
+ * - startDate, endDate (optional): Closing date range
+ * - branchId (ADMIN/GENERAL_MANAGER only): Branch filter
+ *
+ * @param req - Authenticated manager request
+ * @param res - Response with the flagged sessions
+ */
+export const getCashVariances = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { threshold, startDate, endDate } = req.query;
+
+    const minimum = threshold === undefined ? CASH_VARIANCE_THRESHOLD : Number(threshold);
+    if (!Number.isFinite(minimum) || minimum < 0) {
+      res.status(400).json({ message: 'threshold must be an amount of at least 0' });
+      return;
+    }
+
+    const closedAt: Prisma.DateTimeNullableFilter = {};
+    if (startDate) closedAt.gte = new Date(startDate as string);
+    if (endDate) closedAt.lte = new Date(endDate as string);
+
+    const sessions = await prisma.cashSession.findMany({
+      where: {
+        ...sessionScope(req),
+        status: 'CLOSED',
+        closedAt,
+        OR: [{ variance: { gte: minimum } }, { variance: { lte: -minimum } }]
+      },
+      include: sessionInclude
+    });
+
+    sessions.sort((a, b) => Math.abs(b.variance ?? 0) - Math.abs(a.variance ?? 0));
+
+    const cashiers = new Map<number, { cashierId: number; username: string; sessions: number; short: number; over: number }>();
+    for (const session of sessions) {
+      const entry = cashiers.get(session.cashier.id)
+        ?? { cashierId: session.cashier.id, username: session.cashier.username, sessions: 0, short: 0, over: 0 };
+      const variance = session.variance ?? 0;
+      entry.sessions++;
+      if (variance < 0) entry.short = roundCurrency(entry.short - variance);
+      else entry.over = roundCurrency(entry.over + variance);
+      cashiers.set(session.cashier.id, entry);
+    }
+
+    res.json({
+      threshold: minimum,
+      count: sessions.length,
+      totalShort: roundCurrency(sessions.reduce((sum, session) => sum - Math.min(session.variance ?? 0, 0), 0)),
+      totalOver: roundCurrency(sessions.reduce((sum, session) => sum + Math.max(session.variance ?? 0, 0), 0)),
+      byCashier: [...cashiers.values()].sort((a, b) => b.short + b.over - (a.short + a.over)),
+      sessions
+    });
+  } catch (error) {
+    console.error('Error in getCashVariances:', error);
+    handleError(error, res);
+  }
+};
@@ -0,0 +1,432 @@
+/**
+ * Delivery Dispatch Controller
+ *
+ * This module assigns delivery orders to drivers and tracks them until they
+ * reach the customer. Drivers pick up ready orders (OUT_FOR_DELIVERY), mark
+ * them delivered, and report their location while on the road.
+ *
+ * Features:
+ * - Dispatch board of open delivery orders and driver workloads per branch
+ * - Manual assignment or auto-assignment to the least busy driver
+ * - Pickup and delivery timestamps with order status history
+ * - Driver location pings
+ * - Customer-facing delivery status with the driver's last known location
+ *
+ * Role-Based Access:
+ * - DRIVER: Their own deliveries, pickup/delivered updates and location pings
+ * - CASHIER/BRANCH_MANAGER: Dispatch for their branch
+ * - ADMIN/GENERAL_MANAGER: All branches
+ * - CUSTOMER: Delivery status of their own orders
+ */
+
+import { Request, Response } from 'express';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { recordOrderStatusEvent, StatusChangeActor } from '../utils/orderHistory';
+import { publishOrderEvent } from '../utils/orderEvents';
+import { distanceKm, isValidCoordinate } from '../utils/deliveryZones';
+import { ACTIVE_ASSIGNMENT_WHERE, findLeastBusyDriver, getDriverWorkloads } from '../utils/dispatch';
+
+// Delivery orders that still need a driver or are on their way
+const OPEN_DELIVERY_STATUSES: OrderStatus[] = ['PENDING', 'PREPARING', 'READY', 'OUT_FOR_DELIVERY'];
+
+// Location pings older than this are not shown to customers
+const LOCATION_MAX_AGE_MS = 10 * 60 * 1000;
+
+const assignmentInclude = {
+  driver: { select: { id: true, username: true } },
+  assignedBy: { select: { id: true, username: true } }
+} satisfies Prisma.DeliveryAssignmentInclude;
+
+/**
+ * Load a delivery order and check the user may work with it.
+ * Sends the error response itself and returns null when access is denied.
+ */
+const getAccessibleDelivery = async (req: Request, res: Response) => {
+  const user = req.user!;
+  const order = await prisma.order.findUnique({
+    where: { id: Number(req.params.orderId) },
+    include: { delivery: true }
+  });
+
+  if (!order) {
+    res.status(404).json({ message: 'Order not found' });
+    return null;
+  }
+
+  if (order.fulfillmentType !== 'DELIVERY') {
+    res.status(400).json({ message: 'Order is not a delivery order' });
+    return null;
+  }
+
+  if (user.role === 'CUSTOMER' && order.customerId !== user.id) {
+    res.status(403).json({ message: 'Unauthorized to access this order' });
+    return null;
+  }
+
+  if (user.role === 'DRIVER' && order.delivery?.driverId !== user.id) {
+    res.status(403).json({ message: 'This delivery is not assigned to you' });
+    return null;
+  }
+
+  if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && order.branchId !== user.branchId) {
+    res.status(403).json({ message: 'Unauthorized to access this order' });
+    return null;
+  }
+
+  return order;
+};
+
+/**
+ * Get Dispatch Board
+ *
+ * Query Parameters:
+ * - branchId (ADMIN/GENERAL_MANAGER only): Branch to show, defaults to the user's branch
+ *
+ * @param req - Authenticated staff request
+ * @param res - Response with open delivery orders and driver workloads
+ */
+export const getDispatchBoard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const branchId = ['ADMIN', 'GENERAL_MANAGER'].includes(user.role) && req.query.branchId
+      ? Number(req.query.branchId)
+      : user.branchId;
+
+    if (!branchId) {
+      res.status(400).json({ message: 'Branch ID is required' });
+      return;
+    }
+
+    const [orders, drivers] = await Promise.all([
+      prisma.order.findMany({
+        where: {
+          branchId,
+          fulfillmentType: 'DELIVERY',
+          status: { in: OPEN_DELIVERY_STATUSES }
+        },
+        select: {
+          id: true,
+          status: true,
+          totalAmount: true,
+          deliveryAddress: true,
+          scheduledFor: true,
+          createdAt: true,
+          customer: { select: { id: true, username: true } },
+          delivery: { include: assignmentInclude }
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      getDriverWorkloads(prisma, branchId)
+    ]);
+
+    res.json({
+      branchId,
+      unassigned: orders.filter(order => !order.delivery),
+      assigned: orders.filter(order => order.delivery),
+      drivers
+    });
+  } catch (error) {
+    console.error('Error in getDispatchBoard:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Assign Driver
+ *
+ * Assigns (or reassigns, until pickup) a driver to a delivery order.
+ *
+ * Request Body:
+ * - driverId (optional): Driver to assign; omit to auto-assign the least busy
+ *   driver of the order's branch
+ *
+ * @param req - Request with order ID parameter
+ * @param res - Response with the assignment
+ */
+export const assignDriver = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { driverId } = req.body;
+    const user = req.user!;
+
+    const order = await getAccessibleDelivery(req, res);
+    if (!order) return;
+
+    if (!['PENDING', 'PREPARING', 'READY'].includes(order.status)) {
+      res.status(400).json({ message: `Cannot assign a driver to a ${order.status} order` });
+      return;
+    }
+
+    let driver: { id: number; username: string } | null;
+    if (driverId !== undefined && driverId !== null) {
+      driver = await prisma.user.findFirst({
+        where: { id: Number(driverId), role: 'DRIVER', branchId: order.branchId },
+        select: { id: true, username: true }
+      });
+      if (!driver) {
+        res.status(400).json({ message: 'Driver not found at the order\'s branch' });
+        return;
+      }
+    } else {
+      driver = await findLeastBusyDriver(prisma, order.branchId);
+      if (!driver) {
+        res.status(409).json({ message: 'No drivers are available at this branch' });
+        return;
+      }
+    }
+
+    const assignment = await prisma.deliveryAssignment.upsert({
+      where: { orderId: order.id },
+      create: {
+        orderId: order.id,
+        driverId: driver.id,
+        assignedById: user.id,
+        autoAssigned: driverId === undefined || driverId === null
+      },
+      update: {
+        driverId: driver.id,
+        assignedById: user.id,
+        autoAssigned: driverId === undefined || driverId === null,
+        assignedAt: new Date()
+      },
+      include: assignmentInclude
+    });
+
+    res.json({
+      message: `Order assigned to ${driver.username}`,
+      assignment
+    });
+  } catch (error) {
+    console.error('Error in assignDriver:', error);
+    handleError(error, res);
+  }
+};
+
+// Get the logged-in driver's active deliveries
+export const getMyDeliveries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const assignments = await prisma.deliveryAssignment.findMany({
+      where: { driverId: user.id, ...ACTIVE_ASSIGNMENT_WHERE },
+      include: {
+        order: {
+          select: {
+            id: true,
+            status: true,
+            totalAmount: true,
+            paidAt: true,
+            deliveryAddress: true,
+            deliveryLatitude: true,
+            deliveryLongitude: true,
+            scheduledFor: true,
+            customer: { select: { id: true, username: true } },
+            items: {
+              select: {
+                quantity: true,
+                notes: true,
+                menuItem: { select: { name: true } }
+              }
+            }
+          }
+        }
+      },
+      orderBy: { assignedAt: 'asc' }
+    });
+
+    res.json(assignments);
+  } catch (error) {
+    console.error('Error in getMyDeliveries:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Change the order status of a delivery and stamp the assignment.
+ * Returns null when the order was no longer in the expected status.
+ */
+const advanceDelivery = (
+  orderId: number,
+  from: OrderStatus,
+  to: OrderStatus,
+  assignmentData: Prisma.DeliveryAssignmentUpdateInput,
+  actor: StatusChangeActor
+) =>
+  prisma.$transaction(async (tx) => {
+    const moved = await tx.order.updateMany({
+      where: { id: orderId, status: from },
+      data: { status: to }
+    });
+    if (moved.count === 0) return null;
+
+    await recordOrderStatusEvent(tx, orderId, from, to, actor);
+    const delivery = await tx.deliveryAssignment.update({
+      where: { orderId },
+      data: assignmentData,
+      include: assignmentInclude
+    });
+    const order = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+
+    return { order, delivery };
+  });
+
+// Driver picks up a ready order and leaves the branch
+export const pickUpDelivery = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const order = await getAccessibleDelivery(req, res);
+    if (!order) return;
+
+    if (!order.delivery || order.delivery.driverId !== user.id) {
+      res.status(403).json({ message: 'This delivery is not assigned to you' });
+      return;
+    }
+
+    if (order.status !== 'READY') {
+      res.status(400).json({ message: `Order is ${order.status}; only READY orders can be picked up` });
+      return;
+    }
+
+    const result = await advanceDelivery(order.id, 'READY', 'OUT_FOR_DELIVERY', { pickedUpAt: new Date() }, user);
+    if (!result) {
+      res.status(409).json({ message: 'Order status changed, please refresh' });
+      return;
+    }
+
+    publishOrderEvent('order.status_changed', result.order, 'READY');
+
+    res.json({
+      message: 'Order is out for delivery',
+      ...result
+    });
+  } catch (error) {
+    console.error('Error in pickUpDelivery:', error);
+    handleError(error, res);
+  }
+};
+
+// Mark an order that is out for delivery as delivered (assigned driver or branch management)
+export const completeDelivery = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const order = await getAccessibleDelivery(req, res);
+    if (!order) return;
+
+    if (order.status !== 'OUT_FOR_DELIVERY' || !order.delivery) {
+      res.status(400).json({ message: `Order is ${order.status}; only orders out for delivery can be delivered` });
+      return;
+    }
+
+    const result = await advanceDelivery(order.id, 'OUT_FOR_DELIVERY', 'DELIVERED', { deliveredAt: new Date() }, user);
+    if (!result) {
+      res.status(409).json({ message: 'Order status changed, please refresh' });
+      return;
+    }
+
+    publishOrderEvent('order.status_changed', result.order, 'OUT_FOR_DELIVERY');
+
+    res.json({
+      message: 'Order delivered',
+      ...result
+    });
+  } catch (error) {
+    console.error('Error in completeDelivery:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Record Driver Location
+ *
+ * Request Body:
+ * - latitude, longitude: Current position in degrees
+ *
+ * @param req - Authenticated driver request
+ * @param res - Response with the stored ping
+ */
+export const recordDriverLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { latitude, longitude } = req.body;
+    const user = req.user!;
+
+    if (!isValidCoordinate(Number(latitude), Number(longitude))) {
+      res.status(400).json({ message: 'latitude must be between -90 and 90 and longitude between -180 and 180' });
+      return;
+    }
+
+    const ping = await prisma.driverLocationPing.create({
+      data: {
+        driverId: user.id,
+        latitude: Number(latitude),
+        longitude: Number(longitude)
+      }
+    });
+
+    res.status(201).json(ping);
+  } catch (error) {
+    console.error('Error in recordDriverLocation:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Delivery Status
+ *
+ * The driver's location is only shared while the order is out for delivery.
+ *
+ * @param req - Request with order ID parameter
+ * @param res - Response with status, timestamps, driver and location
+ */
+export const getDeliveryStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const order = await getAccessibleDelivery(req, res);
+    if (!order) return;
+
+    const delivery = order.delivery
+      ? await prisma.deliveryAssignment.findUnique({
+        where: { id: order.delivery.id },
+        include: { driver: { select: { id: true, username: true } } }
+      })
+      : null;
+
+    let driverLocation = null;
+    if (delivery && order.status === 'OUT_FOR_DELIVERY') {
+      const ping = await prisma.driverLocationPing.findFirst({
+        where: {
+          driverId: delivery.driverId,
+          recordedAt: { gte: new Date(Date.now() - LOCATION_MAX_AGE_MS) }
+        },
+        orderBy: { recordedAt: 'desc' }
+      });
+
+      if (ping) {
+        driverLocation = {
+          latitude: ping.latitude,
+          longitude: ping.longitude,
+          recordedAt: ping.recordedAt,
+          distanceKm: order.deliveryLatitude !== null && order.deliveryLongitude !== null
+            ? Math.round(distanceKm(ping, { latitude: order.deliveryLatitude, longitude: order.deliveryLongitude }) * 100) / 100
+            : null
+        };
+      }
+    }
+
+    res.json({
+      orderId: order.id,
+      status: order.status,
+      deliveryAddress: order.deliveryAddress,
+      placedAt: order.createdAt,
+      assignedAt: delivery?.assignedAt ?? null,
+      pickedUpAt: delivery?.pickedUpAt ?? null,
+      deliveredAt: delivery?.deliveredAt ?? null,
+      driver: delivery?.driver ?? null,
+      driverLocation
+    });
+  } catch (error) {
+    console.error('Error in getDeliveryStatus:', error);
+    handleError(error, res);
+  }
+};
@@ -0,0 +1,311 @@
+/**
+ * Delivery Zone Controller
+ *
+ * This module manages where branches deliver to and routes delivery
+ * addresses to a branch. Branches get a map location and one or more
+ * delivery zones (a radius around the branch or a polygon).
+ *
+ * Features:
+ * - Branch location (latitude/longitude) management
+ * - Delivery zone CRUD per branch, zones can be switched off without deleting them
+ * - Closest-branch lookup for an address (postcode geocoding, zone membership, distance)
+ *
+ * Role-Based Access:
+ * - ADMIN/GENERAL_MANAGER: Manage locations and zones of all branches
+ * - BRANCH_MANAGER: Manage the location and zones of their branch
+ * - Public: Closest-branch lookup
+ */
+
+import { Request, Response } from 'express';
+import { DeliveryZoneType, Prisma } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { isValidCoordinate, parsePolygon, routeDelivery } from '../utils/deliveryZones';
+
+/**
+ * Validate the shape fields of a zone (type plus radius or polygon)
+ *
+ * @returns Prisma data for the shape, or a validation error message
+ */
+const buildZoneShape = (
+  type: unknown,
+  radiusKm: unknown,
+  polygon: unknown
+): { data: { type: DeliveryZoneType; radiusKm: number | null; polygon: Prisma.InputJsonValue | typeof Prisma.DbNull }; error?: undefined } | { error: string } => {
+  if (!Object.values(DeliveryZoneType).includes(type as DeliveryZoneType)) {
+    return { error: `type must be one of ${Object.values(DeliveryZoneType).join(', ')}` };
+  }
+
+  if (type === 'RADIUS') {
+    const radius = Number(radiusKm);
+    if (!Number.isFinite(radius) || radius <= 0) {
+      return { error: 'RADIUS zones require a radiusKm greater than 0' };
+    }
+    return { data: { type: 'RADIUS', radiusKm: radius, polygon: Prisma.DbNull } };
+  }
+
+  const parsed = parsePolygon(polygon);
+  if (parsed.error !== undefined) {
+    return { error: parsed.error };
+  }
+  return {
+    data: {
+      type: 'POLYGON',
+      radiusKm: null,
+      polygon: parsed.points.map(point => [point.latitude, point.longitude])
+    }
+  };
+};
+
+/**
+ * Update Branch Location
+ *
+ * Request Body:
+ * - latitude, longitude: Branch position in degrees (null clears the location)
+ *
+ * @param req - Request with branch ID parameter and coordinates
+ * @param res - Response with the updated location
+ */
+export const updateBranchLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId } = req.params;
+    const { latitude, longitude } = req.body;
+
+    const clearing = latitude === null && longitude === null;
+    if (!clearing && !isValidCoordinate(Number(latitude), Number(longitude))) {
+      res.status(400).json({ message: 'latitude must be between -90 and 90 and longitude between -180 and 180' });
+      return;
+    }
+
+    const branch = await prisma.branch.findUnique({ where: { id: Number(branchId) } });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const updated = await prisma.branch.update({
+      where: { id: branch.id },
+      data: {
+        latitude: clearing ? null : Number(latitude),
+        longitude: clearing ? null : Number(longitude)
+      },
+      select: { id: true, name: true, latitude: true, longitude: true }
+    });
+
+    res.json({
+      message: 'Branch location updated successfully',
+      branch: updated
+    });
+  } catch (error) {
+    console.error('Error in updateBranchLocation:', error);
+    handleError(error, res);
+  }
+};
+
+// Get delivery zones of a branch
+export const getDeliveryZones = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId } = req.params;
+
+    const branch = await prisma.branch.findUnique({
+      where: { id: Number(branchId) },
+      select: {
+        id: true,
+        name: true,
+        latitude: true,
+        longitude: true,
+        deliveryZones: { orderBy: { name: 'asc' } }
+      }
+    });
+
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    res.json(branch);
+  } catch (error) {
+    console.error('Error in getDeliveryZones:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Create Delivery Zone
+ *
+ * Request Body:
+ * - name: Zone label, e.g. "City centre"
+ * - type: RADIUS or POLYGON
+ * - radiusKm: Radius around the branch location (RADIUS zones)
+ * - polygon: [[latitude, longitude], ...] with at least 3 points (POLYGON zones)
+ * - isActive (optional): Defaults to true
+ *
+ * @param req - Request with branch ID parameter and zone data
+ * @param res - Response with the created zone
+ */
+export const createDeliveryZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId } = req.params;
+    const { name, type, radiusKm, polygon, isActive } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ message: 'Zone name is required' });
+      return;
+    }
+
+    const shape = buildZoneShape(type, radiusKm, polygon);
+    if (shape.error !== undefined) {
+      res.status(400).json({ message: shape.error });
+      return;
+    }
+
+    const branch = await prisma.branch.findUnique({ where: { id: Number(branchId) } });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    if (shape.data.type === 'RADIUS' && (branch.latitude === null || branch.longitude === null)) {
+      res.status(400).json({ message: 'Set the branch location before adding a radius zone' });
+      return;
+    }
+
+    const zone = await prisma.deliveryZone.create({
+      data: {
+        name: name.trim(),
+        ...shape.data,
+        isActive: isActive === undefined ? true : Boolean(isActive),
+        branchId: branch.id
+      }
+    });
+
+    res.status(201).json({
+      message: 'Delivery zone created successfully',
+      zone
+    });
+  } catch (error) {
+    console.error('Error in createDeliveryZone:', error);
+    handleError(error, res);
+  }
+};
+
+// Update a delivery zone (name, shape or active flag)
+export const updateDeliveryZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId, zoneId } = req.params;
+    const { name, type, radiusKm, polygon, isActive } = req.body;
+
+    const zone = await prisma.deliveryZone.findUnique({
+      where: { id: Number(zoneId) },
+      include: { branch: { select: { latitude: true, longitude: true } } }
+    });
+
+    if (!zone || zone.branchId !== Number(branchId)) {
+      res.status(404).json({ message: 'Delivery zone not found' });
+      return;
+    }
+
+    const data: Prisma.DeliveryZoneUpdateInput = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        res.status(400).json({ message: 'Zone name cannot be empty' });
+        return;
+      }
+      data.name = name.trim();
+    }
+
+    if (type !== undefined || radiusKm !== undefined || polygon !== undefined) {
+      const shape = buildZoneShape(
+        type ?? zone.type,
+        radiusKm ?? zone.radiusKm,
+        polygon ?? zone.polygon
+      );
+      if (shape.error !== undefined) {
+        res.status(400).json({ message: shape.error });
+        return;
+      }
+      if (shape.data.type === 'RADIUS' && (zone.branch.latitude === null || zone.branch.longitude === null)) {
+        res.status(400).json({ message: 'Set the branch location before adding a radius zone' });
+        return;
+      }
+      Object.assign(data, shape.data);
+    }
+
+    if (isActive !== undefined) {
+      data.isActive = Boolean(isActive);
+    }
+
+    const updated = await prisma.deliveryZone.update({
+      where: { id: zone.id },
+      data
+    });
+
+    res.json({
+      message: 'Delivery zone updated successfully',
+      zone: updated
+    });
+  } catch (error) {
+    console.error('Error in updateDeliveryZone:', error);
+    handleError(error, res);
+  }
+};
+
+// Delete a delivery zone
+export const deleteDeliveryZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId, zoneId } = req.params;
+
+    const zone = await prisma.deliveryZone.findUnique({ where: { id: Number(zoneId) } });
+    if (!zone || zone.branchId !== Number(branchId)) {
+      res.status(404).json({ message: 'Delivery zone not found' });
+      return;
+    }
+
+    await prisma.deliveryZone.delete({ where: { id: zone.id } });
+
+    res.json({ message: 'Delivery zone deleted successfully' });
+  } catch (error) {
+    console.error('Error in deleteDeliveryZone:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Find Closest Branch
+ *
+ * Request Body:
+ * - address: Delivery address including a postcode
+ *
+ * Responds 422 when the address is outside every delivery zone.
+ *
+ * @param req - Request with the address
+ * @param res - Response with the delivering branch and distance
+ */
+export const findClosestBranch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { address } = req.body;
+    if (!address || typeof address !== 'string') {
+      res.status(400).json({ error: 'Address is required' });
+      return;
+    }
+
+    const routing = await routeDelivery(prisma, address);
+    if (routing.error !== undefined) {
+      res.status(routing.status).json({ error: routing.error });
+      return;
+    }
+
+    res.json({
+      id: routing.branch.id,
+      name: routing.branch.name,
+      address: routing.branch.address,
+      distanceKm: routing.distanceKm,
+      zone: { id: routing.zone.id, name: routing.zone.name },
+      postcode: routing.location.postcode
+    });
+  } catch (error) {
+    console.error('Error in findClosestBranch:', error);
+    handleError(error, res);
+  }
+};
@@ -0,0 +1,455 @@
+/**
+ * Gift Card Controller
+ *
+ * This module handles gift cards. Cards are sold at the counter with a code
+ * and an initial balance, and redeemed at any branch as GIFT_CARD payment
+ * legs (see paymentController). Every balance change is written to the card's
+ * ledger (see utils/giftCards).
+ *
+ * Features:
+ * - Issue cards with a generated or printed code; cash sales go into the seller's drawer
+ * - Balance check by code
+ * - Reload and manual expiry, plus expiry of all cards past their date
+ * - Card details with the full ledger
+ * - Liability report of outstanding balances at a point in time
+ *
+ * Role-Based Access:
+ * - All authenticated users: Check the balance of a card
+ * - CASHIER: Issue, reload and look up cards
+ * - BRANCH_MANAGER: Expire cards; liability report for cards sold at their branch
+ * - ADMIN/GENERAL_MANAGER: All of the above for all branches, and the expiry run
+ */
+
+import { Request, Response } from 'express';
+import { GiftCardTransactionType, PaymentMethod, Prisma } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { roundCurrency } from '../utils/payments';
+import { recordCashPayIn } from '../utils/cashSessions';
+import {
+  expireDueGiftCards,
+  expireGiftCard,
+  generateGiftCardCode,
+  isGiftCardUsable,
+  MAX_GIFT_CARD_BALANCE,
+  normalizeGiftCardCode,
+  recordGiftCardChange
+} from '../utils/giftCards';
+
+// Methods a gift card can be bought or reloaded with (not with another gift card)
+const PURCHASE_METHODS: PaymentMethod[] = ['CASH', 'CREDIT_CARD', 'DEBIT_CARD', 'MOBILE_PAYMENT'];
+
+// Printed codes shorter than this are too easy to guess
+const MIN_CODE_LENGTH = 8;
+
+const giftCardInclude = {
+  branch: { select: { id: true, name: true } },
+  issuedBy: { select: { id: true, username: true } }
+} satisfies Prisma.GiftCardInclude;
+
+// Validate the amount and method a card is bought or reloaded with
+const parsePurchase = (amount: unknown, paymentMethod: unknown, field: string): string | null => {
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return `${field} must be a positive amount`;
+  }
+  if (amount > MAX_GIFT_CARD_BALANCE) {
+    return `${field} may not exceed ${MAX_GIFT_CARD_BALANCE.toFixed(2)}`;
+  }
+  if (!PURCHASE_METHODS.includes(paymentMethod as PaymentMethod)) {
+    return `paymentMethod must be one of ${PURCHASE_METHODS.join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * Issue Gift Card
+ *
+ * Request Body:
+ * - initialBalance: Amount loaded on the card
+ * - paymentMethod: How the card was paid for (CASH goes into the seller's open drawer)
+ * - code (optional): Code printed on a physical card; generated if omitted
+ * - expiresAt (optional): Expiry date; the card never expires if omitted
+ * - purchaserName (optional): Name of the buyer
+ * - branchId (ADMIN/GENERAL_MANAGER without a branch): Branch selling the card
+ *
+ * @param req - Authenticated staff request
+ * @param res - Response with the issued card
+ */
+export const issueGiftCard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { initialBalance, paymentMethod, code, expiresAt, purchaserName } = req.body;
+    const user = req.user!;
+
+    const branchId = user.branchId ?? (req.body.branchId ? Number(req.body.branchId) : null);
+    if (!branchId) {
+      res.status(400).json({ message: 'branchId is required' });
+      return;
+    }
+
+    const purchaseError = parsePurchase(initialBalance, paymentMethod, 'initialBalance');
+    if (purchaseError) {
+      res.status(400).json({ message: purchaseError });
+      return;
+    }
+
+    let cardCode = generateGiftCardCode();
+    if (code !== undefined) {
+      cardCode = typeof code === 'string' ? normalizeGiftCardCode(code) : '';
+      if (cardCode.replace(/-/g, '').length < MIN_CODE_LENGTH) {
+        res.status(400).json({ message: `code must have at least ${MIN_CODE_LENGTH} letters or digits` });
+        return;
+      }
+    }
+
+    let expiry: Date | null = null;
+    if (expiresAt !== undefined && expiresAt !== null) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        res.status(400).json({ message: 'expiresAt must be a date in the future' });
+        return;
+      }
+    }
+
+    const branch = await prisma.branch.findUnique({ where: { id: branchId } });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const existing = await prisma.giftCard.findUnique({ where: { code: cardCode } });
+    if (existing) {
+      res.status(409).json({ message: 'A gift card with this code already exists' });
+      return;
+    }
+
+    const amount = roundCurrency(initialBalance);
+    const { card, cashMovement } = await prisma.$transaction(async (tx) => {
+      const created = await tx.giftCard.create({
+        data: {
+          code: cardCode,
+          initialBalance: amount,
+          balance: amount,
+          expiresAt: expiry,
+          purchaserName: purchaserName || null,
+          branchId,
+          issuedById: user.id
+        }
+      });
+
+      await tx.giftCardTransaction.create({
+        data: {
+          giftCardId: created.id,
+          type: 'ISSUE',
+          amount,
+          balanceAfter: amount,
+          performedById: user.id,
+          note: `Sold by ${paymentMethod}`
+        }
+      });
+
+      const movement = paymentMethod === 'CASH'
+        ? await recordCashPayIn(tx, user.id, branchId, amount, `Gift card ${cardCode} sold`)
+        : null;
+
+      return {
+        card: await tx.giftCard.findUniqueOrThrow({ where: { id: created.id }, include: giftCardInclude }),
+        cashMovement: movement
+      };
+    });
+
+    res.status(201).json({
+      message: 'Gift card issued successfully',
+      giftCard: card,
+      cashMovement
+    });
+  } catch (error) {
+    console.error('Error in issueGiftCard:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Gift Card Balance
+ *
+ * @param req - Request with gift card code parameter
+ * @param res - Response with the balance and whether the card can be used
+ */
+export const getGiftCardBalance = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const card = await prisma.giftCard.findUnique({
+      where: { code: normalizeGiftCardCode(req.params.code) }
+    });
+
+    if (!card) {
+      res.status(404).json({ message: 'Gift card not found' });
+      return;
+    }
+
+    res.json({
+      code: card.code,
+      balance: card.balance,
+      status: card.status,
+      expiresAt: card.expiresAt,
+      usable: isGiftCardUsable(card) && card.balance > 0
+    });
+  } catch (error) {
+    console.error('Error in getGiftCardBalance:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Gift Card
+ *
+ * @param req - Request with gift card code parameter
+ * @param res - Response with the card and its ledger, newest first
+ */
+export const getGiftCard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const card = await prisma.giftCard.findUnique({
+      where: { code: normalizeGiftCardCode(req.params.code) },
+      include: {
+        ...giftCardInclude,
+        transactions: {
+          include: {
+            payment: { select: { id: true, orderId: true } },
+            refund: { select: { id: true, orderId: true } },
+            performedBy: { select: { id: true, username: true } }
+          },
+          orderBy: { id: 'desc' }
+        }
+      }
+    });
+
+    if (!card) {
+      res.status(404).json({ message: 'Gift card not found' });
+      return;
+    }
+
+    res.json({ giftCard: { ...card, usable: isGiftCardUsable(card) && card.balance > 0 } });
+  } catch (error) {
+    console.error('Error in getGiftCard:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Reload Gift Card
+ *
+ * Request Body:
+ * - amount: Amount added to the balance
+ * - paymentMethod: How the reload was paid for (CASH goes into the seller's open drawer)
+ *
+ * @param req - Request with gift card code parameter
+ * @param res - Response with the updated card
+ */
+export const reloadGiftCard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { amount, paymentMethod } = req.body;
+    const user = req.user!;
+
+    const purchaseError = parsePurchase(amount, paymentMethod, 'amount');
+    if (purchaseError) {
+      res.status(400).json({ message: purchaseError });
+      return;
+    }
+
+    const card = await prisma.giftCard.findUnique({
+      where: { code: normalizeGiftCardCode(req.params.code) }
+    });
+    if (!card) {
+      res.status(404).json({ message: 'Gift card not found' });
+      return;
+    }
+
+    const branchId = user.branchId ?? card.branchId;
+    const { updated, cashMovement } = await prisma.$transaction(async (tx) => {
+      const reloaded = await recordGiftCardChange(tx, card.id, 'RELOAD', amount, {
+        performedById: user.id,
+        note: `Paid by ${paymentMethod}`
+      });
+
+      const movement = paymentMethod === 'CASH'
+        ? await recordCashPayIn(tx, user.id, branchId, amount, `Gift card ${card.code} reloaded`)
+        : null;
+
+      return { updated: reloaded, cashMovement: movement };
+    });
+
+    res.json({
+      message: 'Gift card reloaded successfully',
+      giftCard: updated,
+      cashMovement
+    });
+  } catch (error) {
+    console.error('Error in reloadGiftCard:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Expire Gift Card
+ *
+ * Writes off the remaining balance, whether or not the expiry date has passed.
+ *
+ * Request Body:
+ * - note (optional): Why the card was expired
+ *
+ * @param req - Request with gift card code parameter
+ * @param res - Response with the expired card and the amount written off
+ */
+export const expireGiftCardByCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { note } = req.body ?? {};
+    const user = req.user!;
+
+    const card = await prisma.giftCard.findUnique({
+      where: { code: normalizeGiftCardCode(req.params.code) }
+    });
+    if (!card) {
+      res.status(404).json({ message: 'Gift card not found' });
+      return;
+    }
+
+    if (card.status === 'EXPIRED') {
+      res.status(409).json({ message: 'Gift card has already expired' });
+      return;
+    }
+
+    const expired = await prisma.$transaction(tx => expireGiftCard(tx, card, user.id, note));
+
+    res.json({
+      message: 'Gift card expired successfully',
+      giftCard: expired,
+      writtenOff: card.balance
+    });
+  } catch (error) {
+    console.error('Error in expireGiftCardByCode:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Expire Due Gift Cards
+ *
+ * Expires every active card whose expiry date has passed and writes off its
+ * balance. Cards past their date cannot be used even before this runs.
+ *
+ * @param req - Authenticated manager request
+ * @param res - Response with the expired cards and the total written off
+ */
+export const expireDueCards = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const due = await prisma.giftCard.findMany({
+      where: { status: 'ACTIVE', expiresAt: { lte: new Date() } },
+      select: { id: true, balance: true }
+    });
+    const balances = new Map(due.map(card => [card.id, card.balance]));
+
+    const expired = await prisma.$transaction(tx => expireDueGiftCards(tx, user.id));
+
+    res.json({
+      message: `${expired.length} gift card(s) expired`,
+      expired: expired.map(card => ({ id: card.id, code: card.code, expiresAt: card.expiresAt })),
+      writtenOff: roundCurrency(expired.reduce((sum, card) => sum + (balances.get(card.id) ?? 0), 0))
+    });
+  } catch (error) {
+    console.error('Error in expireDueCards:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Gift Card Liability
+ *
+ * Outstanding gift card balances at a point in time, worked out from the
+ * ledger so that past dates can be reported. Balances of cards past their
+ * expiry date that have not been expired yet are shown separately.
+ *
+ * Query Parameters:
+ * - asOf (optional): Date-time to report at, defaults to now
+ * - branchId (optional): Branch that sold the cards (BRANCH_MANAGER: their own branch)
+ *
+ * @param req - Authenticated manager request
+ * @param res - Response with the outstanding balance, per branch and ledger totals per type
+ */
+export const getGiftCardLiability = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const asOf = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
+    if (isNaN(asOf.getTime())) {
+      res.status(400).json({ message: 'asOf must be a valid date-time' });
+      return;
+    }
+
+    const branchId = user.role === 'BRANCH_MANAGER'
+      ? user.branchId
+      : (req.query.branchId ? Number(req.query.branchId) : undefined);
+
+    const where: Prisma.GiftCardTransactionWhereInput = {
+      createdAt: { lte: asOf },
+      ...(branchId && { giftCard: { branchId } })
+    };
+
+    const [balances, byType] = await Promise.all([
+      prisma.giftCardTransaction.groupBy({
+        by: ['giftCardId'],
+        where,
+        _sum: { amount: true }
+      }),
+      prisma.giftCardTransaction.groupBy({
+        by: ['type'],
+        where,
+        _sum: { amount: true },
+        _count: { _all: true }
+      })
+    ]);
+
+    const outstanding = balances.filter(entry => roundCurrency(entry._sum.amount ?? 0) > 0);
+    const cards = await prisma.giftCard.findMany({
+      where: { id: { in: outstanding.map(entry => entry.giftCardId) } },
+      select: { id: true, expiresAt: true, branch: { select: { id: true, name: true } } }
+    });
+    const cardsById = new Map(cards.map(card => [card.id, card]));
+
+    const branches = new Map<number, { branchId: number; branchName: string; cards: number; balance: number }>();
+    let totalOutstanding = 0;
+    let pastExpiry = 0;
+    for (const entry of outstanding) {
+      const card = cardsById.get(entry.giftCardId)!;
+      const balance = entry._sum.amount ?? 0;
+      totalOutstanding += balance;
+      if (card.expiresAt && card.expiresAt <= asOf) pastExpiry += balance;
+
+      const row = branches.get(card.branch.id)
+        ?? { branchId: card.branch.id, branchName: card.branch.name, cards: 0, balance: 0 };
+      row.cards += 1;
+      row.balance = roundCurrency(row.balance + balance);
+      branches.set(card.branch.id, row);
+    }
+
+    const ledger = Object.fromEntries(
+      Object.values(GiftCardTransactionType).map(type => {
+        const entry = byType.find(row => row.type === type);
+        return [type, { entries: entry?._count._all ?? 0, amount: roundCurrency(entry?._sum.amount ?? 0) }];
+      })
+    );
+
+    res.json({
+      asOf,
+      branchId: branchId ?? null,
+      outstandingCards: outstanding.length,
+      totalOutstanding: roundCurrency(totalOutstanding),
+      // Still owed on paper, but the cards can no longer be used
+      pastExpiry: roundCurrency(pastExpiry),
+      byBranch: [...branches.values()].sort((a, b) => b.balance - a.balance),
+      ledger
+    });
+  } catch (error) {
+    console.error('Error in getGiftCardLiability:', error);
+    handleError(error, res);
+  }
+};
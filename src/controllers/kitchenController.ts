@@ -0,0 +1,523 @@
+/**
+ * Kitchen Display System (KDS) Controller
+ *
+ * This module powers the kitchen display screens. Menu items are routed to
+ * kitchen stations (grill, cold, dessert, ...) and every station works through
+ * its own ticket queue. A ticket is the part of an order prepared at one station.
+ *
+ * Features:
+ * - Station management per branch and menu item routing
+ * - Per-station ticket queues with elapsed time
+ * - Bump individual items or whole tickets, recall bumped tickets
+ * - Automatic order status updates:
+ *   - PENDING → PREPARING when the first station item is bumped
+ *   - → READY when every station item of the order is bumped
+ *   - READY → PREPARING when a ticket is recalled
+ *
+ * Role-Based Access:
+ * - CHEF: Queue, bump and recall for stations in their branch
+ * - BRANCH_MANAGER: Everything above plus station management for their branch
+ * - ADMIN/GENERAL_MANAGER: All branches
+ */
+
+import { Request, Response } from 'express';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { recordOrderStatusEvent, StatusChangeActor } from '../utils/orderHistory';
+import { publishOrderEvent } from '../utils/orderEvents';
+import { kitchenReleaseFilter } from '../utils/scheduling';
+
+// Orders in these states still belong on the kitchen screens
+const KITCHEN_STATUSES: OrderStatus[] = ['PENDING', 'PREPARING'];
+
+// How many recently bumped tickets are offered for recall
+const RECENT_TICKET_LIMIT = 20;
+
+const ticketItemSelect = {
+  id: true,
+  menuItemId: true,
+  quantity: true,
+  bumpedAt: true,
+  notes: true,
+  round: true,
+  menuItem: { select: { name: true } },
+  modifiers: { select: { groupName: true, optionName: true } }
+} satisfies Prisma.OrderItemSelect;
+
+/**
+ * Load a station and check the user may work with it.
+ * Sends the error response itself and returns null when access is denied.
+ */
+const getAccessibleStation = async (req: Request, res: Response) => {
+  const user = req.user!;
+  const station = await prisma.kitchenStation.findUnique({
+    where: { id: Number(req.params.stationId) }
+  });
+
+  if (!station) {
+    res.status(404).json({ message: 'Kitchen station not found' });
+    return null;
+  }
+
+  if (['CHEF', 'BRANCH_MANAGER'].includes(user.role) && station.branchId !== user.branchId) {
+    res.status(403).json({ message: 'Unauthorized to access this kitchen station' });
+    return null;
+  }
+
+  return station;
+};
+
+/**
+ * Bring the order status in line with its bumped station items.
+ * Returns the status change (if any) so it can be published after commit.
+ */
+const syncOrderStatus = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  actor: StatusChangeActor,
+  reason: string
+) => {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: {
+        where: { stationId: { not: null } },
+        select: { bumpedAt: true }
+      }
+    }
+  });
+
+  if (!order || !order.items.length) return null;
+
+  const bumpedCount = order.items.filter(item => item.bumpedAt).length;
+  let nextStatus = order.status;
+
+  if (bumpedCount === order.items.length && KITCHEN_STATUSES.includes(order.status)) {
+    nextStatus = 'READY';
+  } else if (bumpedCount < order.items.length && order.status === 'READY') {
+    nextStatus = 'PREPARING'; // Recalled after the order was ready
+  } else if (bumpedCount > 0 && order.status === 'PENDING') {
+    nextStatus = 'PREPARING';
+  }
+
+  if (nextStatus === order.status) return null;
+
+  await recordOrderStatusEvent(tx, order.id, order.status, nextStatus, actor, reason);
+  const updated = await tx.order.update({
+    where: { id: order.id },
+    data: { status: nextStatus }
+  });
+
+  return { order: updated, previousStatus: order.status };
+};
+
+// Get kitchen stations for a branch
+export const getStations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const branchId = ['ADMIN', 'GENERAL_MANAGER'].includes(user.role) && req.query.branchId
+      ? Number(req.query.branchId)
+      : user.branchId;
+
+    if (!branchId) {
+      res.status(400).json({ message: 'Branch ID is required' });
+      return;
+    }
+
+    const stations = await prisma.kitchenStation.findMany({
+      where: { branchId },
+      include: {
+        menuItems: { select: { id: true, name: true } }
+      },
+      orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }]
+    });
+
+    res.json(stations);
+  } catch (error) {
+    console.error('Error in getStations:', error);
+    handleError(error, res);
+  }
+};
+
+// Create kitchen station (branch managers and above)
+export const createStation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, displayOrder, branchId } = req.body;
+    const user = req.user!;
+    const targetBranchId = user.role === 'BRANCH_MANAGER' ? user.branchId : Number(branchId);
+
+    if (!name?.trim() || !targetBranchId) {
+      res.status(400).json({ message: 'Station name and branch ID are required' });
+      return;
+    }
+
+    const existing = await prisma.kitchenStation.findUnique({
+      where: { name_branchId: { name: name.trim(), branchId: targetBranchId } }
+    });
+
+    if (existing) {
+      res.status(400).json({ message: 'A station with this name already exists for the branch' });
+      return;
+    }
+
+    const station = await prisma.kitchenStation.create({
+      data: {
+        name: name.trim(),
+        displayOrder: Number(displayOrder) || 0,
+        branchId: targetBranchId
+      }
+    });
+
+    res.status(201).json({
+      message: 'Kitchen station created successfully',
+      station
+    });
+  } catch (error) {
+    console.error('Error in createStation:', error);
+    handleError(error, res);
+  }
+};
+
+// Delete kitchen station - routed menu items fall back to unrouted
+export const deleteStation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const station = await getAccessibleStation(req, res);
+    if (!station) return;
+
+    await prisma.kitchenStation.delete({ where: { id: station.id } });
+
+    res.json({ message: 'Kitchen station deleted successfully' });
+  } catch (error) {
+    console.error('Error in deleteStation:', error);
+    handleError(error, res);
+  }
+};
+
+// Route menu items to a station (replaces the station's current menu items)
+export const assignStationMenuItems = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { menuItemIds } = req.body;
+
+    if (!Array.isArray(menuItemIds)) {
+      res.status(400).json({ message: 'menuItemIds must be an array' });
+      return;
+    }
+
+    const station = await getAccessibleStation(req, res);
+    if (!station) return;
+
+    const ids = menuItemIds.map(Number);
+    const menuItems = await prisma.menuItem.findMany({
+      where: { id: { in: ids }, branchId: station.branchId },
+      select: { id: true }
+    });
+
+    if (menuItems.length !== ids.length) {
+      res.status(400).json({ message: 'All menu items must exist and belong to the station branch' });
+      return;
+    }
+
+    const updated = await prisma.kitchenStation.update({
+      where: { id: station.id },
+      data: {
+        menuItems: {
+          set: ids.map(id => ({ id }))
+        }
+      },
+      include: {
+        menuItems: { select: { id: true, name: true } }
+      }
+    });
+
+    res.json({
+      message: 'Station menu items updated successfully',
+      station: updated
+    });
+  } catch (error) {
+    console.error('Error in assignStationMenuItems:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Station Ticket Queue
+ *
+ * Returns open tickets for a station, oldest first. A ticket is listed while
+ * its order is PENDING or PREPARING and at least one of its station items has
+ * not been bumped yet. Scheduled orders are hidden until the branch lead
+ * time before their slot.
+ *
+ * @param req - Request with station ID parameter
+ * @param res - Response with tickets including elapsed time in seconds
+ */
+export const getStationQueue = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const station = await getAccessibleStation(req, res);
+    if (!station) return;
+
+    const branch = await prisma.branch.findUnique({
+      where: { id: station.branchId },
+      select: { scheduleLeadMinutes: true }
+    });
+
+    const orders = await prisma.order.findMany({
+      where: {
+        status: { in: KITCHEN_STATUSES },
+        items: {
+          some: { stationId: station.id, bumpedAt: null }
+        },
+        // Scheduled orders appear only once their slot is within the lead time
+        ...kitchenReleaseFilter(branch?.scheduleLeadMinutes ?? 0)
+      },
+      include: {
+        customer: { select: { username: true } },
+        items: {
+          where: { stationId: station.id },
+          select: ticketItemSelect
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const now = Date.now();
+    const leadMs = (branch?.scheduleLeadMinutes ?? 0) * 60 * 1000;
+    const tickets = orders.map(order => {
+      // Scheduled tickets start their clock when released to the kitchen
+      const releasedAt = order.scheduledFor
+        ? Math.max(order.createdAt.getTime(), order.scheduledFor.getTime() - leadMs)
+        : order.createdAt.getTime();
+
+      return {
+        orderId: order.id,
+        status: order.status,
+        customerName: order.customer.username,
+        fulfillmentType: order.fulfillmentType,
+        tableNumber: order.tableNumber,
+        deliveryAddress: order.deliveryAddress,
+        scheduledFor: order.scheduledFor,
+        createdAt: order.createdAt,
+        elapsedSeconds: Math.max(0, Math.floor((now - releasedAt) / 1000)),
+        items: order.items.map(item => ({
+          id: item.id,
+          menuItemId: item.menuItemId,
+          name: item.menuItem.name,
+          quantity: item.quantity,
+          notes: item.notes,
+          round: item.round,
+          modifiers: item.modifiers,
+          bumpedAt: item.bumpedAt
+        }))
+      };
+    });
+
+    res.json({
+      station: { id: station.id, name: station.name },
+      count: tickets.length,
+      tickets
+    });
+  } catch (error) {
+    console.error('Error in getStationQueue:', error);
+    handleError(error, res);
+  }
+};
+
+// Get recently bumped tickets for a station (candidates for recall)
+export const getRecentlyBumped = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const station = await getAccessibleStation(req, res);
+    if (!station) return;
+
+    const orders = await prisma.order.findMany({
+      where: {
+        status: { in: [...KITCHEN_STATUSES, 'READY'] },
+        items: {
+          some: { stationId: station.id },
+          none: { stationId: station.id, bumpedAt: null }
+        }
+      },
+      include: {
+        items: {
+          where: { stationId: station.id },
+          select: ticketItemSelect
+        }
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: RECENT_TICKET_LIMIT
+    });
+
+    const tickets = orders.map(order => ({
+      orderId: order.id,
+      status: order.status,
+      createdAt: order.createdAt,
+      bumpedAt: order.items.reduce<Date | null>(
+        (latest, item) => (item.bumpedAt && (!latest || item.bumpedAt > latest) ? item.bumpedAt : latest),
+        null
+      ),
+      items: order.items.map(item => ({
+        id: item.id,
+        name: item.menuItem.name,
+        quantity: item.quantity
+      }))
+    }));
+
+    res.json(tickets);
+  } catch (error) {
+    console.error('Error in getRecentlyBumped:', error);
+    handleError(error, res);
+  }
+};
+
+// Bump a single order item
+export const bumpItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orderItemId } = req.params;
+    const user = req.user!;
+
+    const item = await prisma.orderItem.findUnique({
+      where: { id: Number(orderItemId) },
+      include: {
+        order: { select: { id: true, status: true, branchId: true } },
+        menuItem: { select: { name: true } }
+      }
+    });
+
+    if (!item || !item.stationId) {
+      res.status(404).json({ message: 'Kitchen item not found' });
+      return;
+    }
+
+    if (['CHEF', 'BRANCH_MANAGER'].includes(user.role) && item.order.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to bump this item' });
+      return;
+    }
+
+    if (!KITCHEN_STATUSES.includes(item.order.status)) {
+      res.status(400).json({ message: `Cannot bump items of a ${item.order.status} order` });
+      return;
+    }
+
+    if (item.bumpedAt) {
+      res.status(400).json({ message: 'Item already bumped' });
+      return;
+    }
+
+    const statusChange = await prisma.$transaction(async (tx) => {
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: { bumpedAt: new Date(), bumpedById: user.id }
+      });
+      return syncOrderStatus(tx, item.orderId, user, `Bumped ${item.menuItem.name} at kitchen station`);
+    });
+
+    if (statusChange) {
+      publishOrderEvent('order.status_changed', statusChange.order, statusChange.previousStatus);
+    }
+
+    res.json({
+      message: 'Item bumped successfully',
+      orderStatus: statusChange?.order.status ?? item.order.status
+    });
+  } catch (error) {
+    console.error('Error in bumpItem:', error);
+    handleError(error, res);
+  }
+};
+
+// Bump every remaining item of an order at a station
+export const bumpTicket = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const orderId = Number(req.params.orderId);
+    const user = req.user!;
+
+    const station = await getAccessibleStation(req, res);
+    if (!station) return;
+
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+    if (!order || order.branchId !== station.branchId) {
+      res.status(404).json({ message: 'Ticket not found' });
+      return;
+    }
+
+    if (!KITCHEN_STATUSES.includes(order.status)) {
+      res.status(400).json({ message: `Cannot bump a ${order.status} order` });
+      return;
+    }
+
+    const statusChange = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.orderItem.updateMany({
+        where: { orderId, stationId: station.id, bumpedAt: null },
+        data: { bumpedAt: new Date(), bumpedById: user.id }
+      });
+      if (!count) return undefined;
+      return syncOrderStatus(tx, orderId, user, `Ticket bumped at ${station.name}`);
+    });
+
+    if (statusChange === undefined) {
+      res.status(400).json({ message: 'No open items on this ticket' });
+      return;
+    }
+
+    if (statusChange) {
+      publishOrderEvent('order.status_changed', statusChange.order, statusChange.previousStatus);
+    }
+
+    res.json({
+      message: 'Ticket bumped successfully',
+      orderStatus: statusChange?.order.status ?? order.status
+    });
+  } catch (error) {
+    console.error('Error in bumpTicket:', error);
+    handleError(error, res);
+  }
+};
+
+// Recall a bumped ticket back onto the station queue
+export const recallTicket = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const orderId = Number(req.params.orderId);
+    const user = req.user!;
+
+    const station = await getAccessibleStation(req, res);
+    if (!station) return;
+
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+    if (!order || order.branchId !== station.branchId) {
+      res.status(404).json({ message: 'Ticket not found' });
+      return;
+    }
+
+    if (![...KITCHEN_STATUSES, 'READY'].includes(order.status)) {
+      res.status(400).json({ message: `Cannot recall a ${order.status} order` });
+      return;
+    }
+
+    const statusChange = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.orderItem.updateMany({
+        where: { orderId, stationId: station.id, bumpedAt: { not: null } },
+        data: { bumpedAt: null, bumpedById: null }
+      });
+      if (!count) return undefined;
+      return syncOrderStatus(tx, orderId, user, `Ticket recalled at ${station.name}`);
+    });
+
+    if (statusChange === undefined) {
+      res.status(400).json({ message: 'No bumped items on this ticket' });
+      return;
+    }
+
+    if (statusChange) {
+      publishOrderEvent('order.status_changed', statusChange.order, statusChange.previousStatus);
+    }
+
+    res.json({
+      message: 'Ticket recalled successfully',
+      orderStatus: statusChange?.order.status ?? order.status
+    });
+  } catch (error) {
+    console.error('Error in recallTicket:', error);
+    handleError(error, res);
+  }
+};
@@ -12,10 +12,12 @@
  * - Availability control
  * - Category-based organization
  * - Price management
+ * - Preparation time per item (used for order ready time estimates)
  * - Search and filtering capabilities
  * 
  * Business Logic:
- * - Menu items can have multiple ingredients
+ * - Menu items can have multiple ingredients, each with the quantity one portion uses
+ * - Ingredient quantities are deducted from stock when orders are placed (0 = not tracked)
  * - Availability can be controlled per item
  * - Prices are stored with decimal precision
  * - Categories help organize menu items
@@ -23,8 +25,60 @@
  */
 
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../utils/prisma';
 
+// Ingredients of a menu item with the stock they are taken from
+const ingredientInclude = {
+  include: {
+    inventoryItem: {
+      select: {
+        id: true,
+        name: true,
+        quantity: true,
+        unit: true,
+      }
+    }
+  }
+} satisfies Prisma.MenuItem$ingredientsArgs;
+
+type IngredientLink = Prisma.MenuItemIngredientGetPayload<typeof ingredientInclude>;
+
+/**
+ * Flatten ingredient links to the inventory item fields plus the portion quantity.
+ */
+const withIngredients = <T extends { ingredients: IngredientLink[] }>(menuItem: T) => ({
+  ...menuItem,
+  ingredients: menuItem.ingredients.map(link => ({
+    ...link.inventoryItem,
+    quantityPerPortion: link.quantity
+  }))
+});
+
+/**
+ * Parse ingredients from the request body. Accepts inventory item IDs
+ * (linked without stock deduction) or { inventoryItemId, quantity } objects.
+ * Returns an error message when an entry is invalid.
+ */
+const parseIngredients = (ingredients: unknown): { inventoryItemId: number; quantity: number }[] | string => {
+  if (!Array.isArray(ingredients)) return 'ingredients must be an array';
+
+  const parsed = ingredients.map(entry => typeof entry === 'object' && entry !== null
+    ? { inventoryItemId: Number(entry.inventoryItemId), quantity: Number(entry.quantity ?? 0) }
+    : { inventoryItemId: Number(entry), quantity: 0 });
+
+  if (parsed.some(entry => !Number.isInteger(entry.inventoryItemId) || !(entry.quantity >= 0))) {
+    return 'Each ingredient needs a valid inventoryItemId and a non-negative quantity';
+  }
+  if (new Set(parsed.map(entry => entry.inventoryItemId)).size !== parsed.length) {
+    return 'An ingredient can only be listed once';
+  }
+  return parsed;
+};
+
+// Preparation time drives the ready time estimates shown to customers
+const isValidPrepTime = (value: unknown): boolean => Number.isInteger(Number(value)) && Number(value) >= 1;
+
 /**
  * Get Menu Items with Optional Branch Filtering
  * 
@@ -34,6 +88,7 @@ import prisma from '../utils/prisma';
  * Features:
  * - Optional branch-based filtering
  * - Ingredient information included
+ * - Modifier groups and options included
  * - Alphabetical sorting by name
  * - Comprehensive ingredient details
  * 
@@ -53,24 +108,23 @@ export const getMenuItems = async (req: Request, res: Response): Promise<void> =
         // Filter by branch availability through ingredient relationships
         ingredients: {
           some: {
-            branchId: Number(branchId)
+            inventoryItem: { branchId: Number(branchId) }
           }
         }
       } : undefined,
       include: {
-        ingredients: {
-          select: {
-            id: true,
-            name: true,
-            quantity: true,
-            unit: true,
-          }
+        ingredients: ingredientInclude,
+        modifierGroups: {
+          include: {
+            options: { orderBy: { id: 'asc' } }
+          },
+          orderBy: { displayOrder: 'asc' }
         }
       },
       orderBy: { name: 'asc' } // Sort alphabetically for easy browsing
     });
 
-    res.json(menuItems);
+    res.json(menuItems.map(withIngredients));
   } catch (error) {
     console.error('Error in getMenuItems:', error);
     res.status(500).json({ message: 'Error fetching menu items' });
@@ -94,7 +148,7 @@ export const getMenuItems = async (req: Request, res: Response): Promise<void> =
  */
 export const createMenuItem = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { name, description, price, category, ingredients } = req.body;
+    const { name, description, price, category, ingredients, prepTimeMinutes } = req.body;
 
     // Comprehensive input validation
     if (!name?.trim() || !description?.trim() || !price || !category?.trim()) {
@@ -102,6 +156,17 @@ export const createMenuItem = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    const links = parseIngredients(ingredients ?? []);
+    if (typeof links === 'string') {
+      res.status(400).json({ message: links });
+      return;
+    }
+
+    if (prepTimeMinutes !== undefined && !isValidPrepTime(prepTimeMinutes)) {
+      res.status(400).json({ message: 'prepTimeMinutes must be a whole number of at least 1' });
+      return;
+    }
+
     // Create menu item with ingredient connections
     const menuItem = await prisma.menuItem.create({
       data: {
@@ -109,26 +174,20 @@ export const createMenuItem = async (req: Request, res: Response): Promise<void>
         description: description.trim(),
         price: parseFloat(price),
         category: category.trim(),
+        prepTimeMinutes: prepTimeMinutes !== undefined ? Number(prepTimeMinutes) : undefined,
         branch: { connect: { id: 1 } }, // TEMP: always assign to branch 1 for now
         ingredients: {
-          connect: ingredients.map((id: number) => ({ id }))
+          create: links
         }
       },
       include: {
-        ingredients: {
-          select: {
-            id: true,
-            name: true,
-            quantity: true,
-            unit: true,
-          }
-        }
+        ingredients: ingredientInclude
       }
     });
 
     res.status(201).json({
       message: 'Menu item created successfully',
-      menuItem
+      menuItem: withIngredients(menuItem)
     });
   } catch (error) {
     console.error('Error in createMenuItem:', error);
@@ -140,7 +199,7 @@ export const createMenuItem = async (req: Request, res: Response): Promise<void>
 export const updateMenuItem = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, description, price, category, isAvailable, ingredients } = req.body;
+    const { name, description, price, category, isAvailable, ingredients, prepTimeMinutes } = req.body;
 
     // Prepare update data
     const updateData: any = {};
@@ -150,11 +209,23 @@ export const updateMenuItem = async (req: Request, res: Response): Promise<void>
     if (price) updateData.price = parseFloat(price);
     if (category?.trim()) updateData.category = category.trim();
     if (typeof isAvailable === 'boolean') updateData.isAvailable = isAvailable;
+    if (prepTimeMinutes !== undefined) {
+      if (!isValidPrepTime(prepTimeMinutes)) {
+        res.status(400).json({ message: 'prepTimeMinutes must be a whole number of at least 1' });
+        return;
+      }
+      updateData.prepTimeMinutes = Number(prepTimeMinutes);
+    }
     
-    if (ingredients?.length >= 0) {
+    if (ingredients !== undefined) {
+      const links = parseIngredients(ingredients);
+      if (typeof links === 'string') {
+        res.status(400).json({ message: links });
+        return;
+      }
       updateData.ingredients = {
-        set: [], // Clear existing connections
-        connect: ingredients.map((id: number) => ({ id })) // Add new connections
+        deleteMany: {}, // Clear existing links
+        create: links // Add new links with their portion quantities
       };
     }
 
@@ -162,20 +233,13 @@ export const updateMenuItem = async (req: Request, res: Response): Promise<void>
       where: { id: Number(id) },
       data: updateData,
       include: {
-        ingredients: {
-          select: {
-            id: true,
-            name: true,
-            quantity: true,
-            unit: true,
-          }
-        }
+        ingredients: ingredientInclude
       }
     });
 
     res.json({
       message: 'Menu item updated successfully',
-      menuItem
+      menuItem: withIngredients(menuItem)
     });
   } catch (error) {
     console.error('Error in updateMenuItem:', error);
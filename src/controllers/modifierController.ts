@@ -0,0 +1,283 @@
+/**
+ * Menu Item Modifier Controller
+ *
+ * This module manages modifier groups and options on menu items, e.g. a
+ * required "Doneness" group on a steak or an optional "Extra sauces" group
+ * allowing up to three selections with a price delta each.
+ *
+ * Features:
+ * - Create, update and delete modifier groups (with min/max selections)
+ * - Add, update and delete options with price deltas and availability
+ * - Consistent min/max validation for required and optional groups
+ *
+ * Access: ADMIN, GENERAL_MANAGER and BRANCH_MANAGER (own branch only)
+ */
+
+import { Request, Response } from 'express';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+
+/**
+ * Validate selection limits for a modifier group.
+ * Returns an error message, or null when the limits are consistent.
+ */
+const validateSelectionLimits = (isRequired: boolean, minSelections: number, maxSelections: number): string | null => {
+  if (!Number.isInteger(minSelections) || !Number.isInteger(maxSelections) || minSelections < 0 || maxSelections < 1) {
+    return 'minSelections must be 0 or more and maxSelections must be at least 1';
+  }
+  if (Math.max(minSelections, isRequired ? 1 : 0) > maxSelections) {
+    return 'minSelections cannot be greater than maxSelections';
+  }
+  return null;
+};
+
+/**
+ * Check that a branch manager only edits menu items of their own branch.
+ * Sends the error response itself and returns false when access is denied.
+ */
+const canManageMenuItem = (req: Request, res: Response, branchId: number): boolean => {
+  const user = req.user!;
+  if (user.role === 'BRANCH_MANAGER' && user.branchId !== branchId) {
+    res.status(403).json({ message: 'Can only manage modifiers for your branch menu' });
+    return false;
+  }
+  return true;
+};
+
+// Create a modifier group (optionally with options) on a menu item
+export const createModifierGroup = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, isRequired = false, minSelections, maxSelections = 1, displayOrder = 0, options = [] } = req.body;
+
+    if (!name?.trim()) {
+      res.status(400).json({ message: 'Group name is required' });
+      return;
+    }
+
+    const min = minSelections !== undefined ? Number(minSelections) : (isRequired ? 1 : 0);
+    const max = Number(maxSelections);
+    const limitError = validateSelectionLimits(Boolean(isRequired), min, max);
+    if (limitError) {
+      res.status(400).json({ message: limitError });
+      return;
+    }
+
+    if (!Array.isArray(options) || options.some((option: any) => !option?.name?.trim())) {
+      res.status(400).json({ message: 'Every option needs a name' });
+      return;
+    }
+
+    const menuItem = await prisma.menuItem.findUnique({ where: { id: Number(id) } });
+    if (!menuItem) {
+      res.status(404).json({ message: 'Menu item not found' });
+      return;
+    }
+    if (!canManageMenuItem(req, res, menuItem.branchId)) return;
+
+    const group = await prisma.modifierGroup.create({
+      data: {
+        name: name.trim(),
+        isRequired: Boolean(isRequired),
+        minSelections: min,
+        maxSelections: max,
+        displayOrder: Number(displayOrder) || 0,
+        menuItemId: menuItem.id,
+        options: {
+          create: options.map((option: any) => ({
+            name: option.name.trim(),
+            priceDelta: Number(option.priceDelta) || 0,
+            isAvailable: option.isAvailable !== false
+          }))
+        }
+      },
+      include: { options: true }
+    });
+
+    res.status(201).json({
+      message: 'Modifier group created successfully',
+      group
+    });
+  } catch (error) {
+    console.error('Error in createModifierGroup:', error);
+    handleError(error, res);
+  }
+};
+
+// Update a modifier group's name, limits or display order
+export const updateModifierGroup = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { groupId } = req.params;
+    const { name, isRequired, minSelections, maxSelections, displayOrder } = req.body;
+
+    const group = await prisma.modifierGroup.findUnique({
+      where: { id: Number(groupId) },
+      include: { menuItem: { select: { branchId: true } } }
+    });
+
+    if (!group) {
+      res.status(404).json({ message: 'Modifier group not found' });
+      return;
+    }
+    if (!canManageMenuItem(req, res, group.menuItem.branchId)) return;
+
+    const nextRequired = typeof isRequired === 'boolean' ? isRequired : group.isRequired;
+    const nextMin = minSelections !== undefined ? Number(minSelections) : group.minSelections;
+    const nextMax = maxSelections !== undefined ? Number(maxSelections) : group.maxSelections;
+    const limitError = validateSelectionLimits(nextRequired, nextMin, nextMax);
+    if (limitError) {
+      res.status(400).json({ message: limitError });
+      return;
+    }
+
+    const updateData: any = {
+      isRequired: nextRequired,
+      minSelections: nextMin,
+      maxSelections: nextMax
+    };
+    if (name?.trim()) updateData.name = name.trim();
+    if (displayOrder !== undefined) updateData.displayOrder = Number(displayOrder) || 0;
+
+    const updated = await prisma.modifierGroup.update({
+      where: { id: group.id },
+      data: updateData,
+      include: { options: true }
+    });
+
+    res.json({
+      message: 'Modifier group updated successfully',
+      group: updated
+    });
+  } catch (error) {
+    console.error('Error in updateModifierGroup:', error);
+    handleError(error, res);
+  }
+};
+
+// Delete a modifier group and its options
+export const deleteModifierGroup = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { groupId } = req.params;
+
+    const group = await prisma.modifierGroup.findUnique({
+      where: { id: Number(groupId) },
+      include: { menuItem: { select: { branchId: true } } }
+    });
+
+    if (!group) {
+      res.status(404).json({ message: 'Modifier group not found' });
+      return;
+    }
+    if (!canManageMenuItem(req, res, group.menuItem.branchId)) return;
+
+    await prisma.modifierGroup.delete({ where: { id: group.id } });
+
+    res.json({ message: 'Modifier group deleted successfully' });
+  } catch (error) {
+    console.error('Error in deleteModifierGroup:', error);
+    handleError(error, res);
+  }
+};
+
+// Add an option to a modifier group
+export const addModifierOption = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { groupId } = req.params;
+    const { name, priceDelta = 0, isAvailable = true } = req.body;
+
+    if (!name?.trim()) {
+      res.status(400).json({ message: 'Option name is required' });
+      return;
+    }
+
+    const group = await prisma.modifierGroup.findUnique({
+      where: { id: Number(groupId) },
+      include: { menuItem: { select: { branchId: true } } }
+    });
+
+    if (!group) {
+      res.status(404).json({ message: 'Modifier group not found' });
+      return;
+    }
+    if (!canManageMenuItem(req, res, group.menuItem.branchId)) return;
+
+    const option = await prisma.modifierOption.create({
+      data: {
+        name: name.trim(),
+        priceDelta: Number(priceDelta) || 0,
+        isAvailable: isAvailable !== false,
+        groupId: group.id
+      }
+    });
+
+    res.status(201).json({
+      message: 'Modifier option created successfully',
+      option
+    });
+  } catch (error) {
+    console.error('Error in addModifierOption:', error);
+    handleError(error, res);
+  }
+};
+
+// Update a modifier option (name, price delta, availability)
+export const updateModifierOption = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { optionId } = req.params;
+    const { name, priceDelta, isAvailable } = req.body;
+
+    const option = await prisma.modifierOption.findUnique({
+      where: { id: Number(optionId) },
+      include: { group: { include: { menuItem: { select: { branchId: true } } } } }
+    });
+
+    if (!option) {
+      res.status(404).json({ message: 'Modifier option not found' });
+      return;
+    }
+    if (!canManageMenuItem(req, res, option.group.menuItem.branchId)) return;
+
+    const updateData: any = {};
+    if (name?.trim()) updateData.name = name.trim();
+    if (priceDelta !== undefined) updateData.priceDelta = Number(priceDelta) || 0;
+    if (typeof isAvailable === 'boolean') updateData.isAvailable = isAvailable;
+
+    const updated = await prisma.modifierOption.update({
+      where: { id: option.id },
+      data: updateData
+    });
+
+    res.json({
+      message: 'Modifier option updated successfully',
+      option: updated
+    });
+  } catch (error) {
+    console.error('Error in updateModifierOption:', error);
+    handleError(error, res);
+  }
+};
+
+// Delete a modifier option (past orders keep their copied names and prices)
+export const deleteModifierOption = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { optionId } = req.params;
+
+    const option = await prisma.modifierOption.findUnique({
+      where: { id: Number(optionId) },
+      include: { group: { include: { menuItem: { select: { branchId: true } } } } }
+    });
+
+    if (!option) {
+      res.status(404).json({ message: 'Modifier option not found' });
+      return;
+    }
+    if (!canManageMenuItem(req, res, option.group.menuItem.branchId)) return;
+
+    await prisma.modifierOption.delete({ where: { id: option.id } });
+
+    res.json({ message: 'Modifier option deleted successfully' });
+  } catch (error) {
+    console.error('Error in deleteModifierOption:', error);
+    handleError(error, res);
+  }
+};
@@ -0,0 +1,293 @@
+/**
+ * Order Amendment Controller
+ *
+ * This module lets customers and staff change the items of an order before
+ * the kitchen starts on it. Items can be added, removed or changed in
+ * quantity while the order is PENDING; once it is PREPARING the order is
+ * locked. Totals, ingredient stock and payments follow every change.
+ *
+ * Features:
+ * - Add items (priced from the current menu of the order's branch)
+ * - Change the quantity of an item or remove it
+ * - Total recalculation with a partial refund when the customer paid more
+ *   than the new total; a paid order that grew has the difference left to pay
+ *   and is topped up through the payment endpoint, including items added back
+ *   after an earlier amendment refunded them
+ * - Stock deduction for added items and stock return for removed ones
+ *
+ * Role-Based Access:
+ * - CUSTOMER: Their own orders
+ * - CASHIER/BRANCH_MANAGER: Orders from their branch
+ * - ADMIN/GENERAL_MANAGER: All orders
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { buildOrderItems } from '../utils/orderItems';
+import { publishOrderEvent } from '../utils/orderEvents';
+import { recalculateOrderTotal, settleAmendedOrder } from '../utils/orderAmendments';
+import { settleProviderRefunds } from '../utils/paymentGateway';
+import { deductStock, InsufficientStockError, returnStock } from '../utils/stock';
+
+// Thrown inside the amendment transaction when the kitchen got to the order first
+class OrderLockedError extends Error {}
+
+const amendedOrderInclude = {
+  items: {
+    include: {
+      menuItem: true,
+      modifiers: true
+    },
+    orderBy: { id: 'asc' }
+  },
+  payments: true
+} satisfies Prisma.OrderInclude;
+
+/**
+ * Load an order and check the user may amend it.
+ * Sends the error response itself and returns null when the order cannot be amended.
+ */
+const getAmendableOrder = async (req: Request, res: Response) => {
+  const user = req.user!;
+  const order = await prisma.order.findUnique({
+    where: { id: Number(req.params.id) },
+    include: { items: true }
+  });
+
+  if (!order) {
+    res.status(404).json({ message: 'Order not found' });
+    return null;
+  }
+
+  if (user.role === 'CUSTOMER' && order.customerId !== user.id) {
+    res.status(403).json({ message: 'Unauthorized to amend this order' });
+    return null;
+  }
+
+  if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && order.branchId !== user.branchId) {
+    res.status(403).json({ message: 'Unauthorized to amend this order' });
+    return null;
+  }
+
+  if (order.status !== 'PENDING') {
+    res.status(409).json({ message: `Only pending orders can be amended; this order is ${order.status}` });
+    return null;
+  }
+
+  return order;
+};
+
+/**
+ * Run an item change, then recalculate the total and settle payments in the
+ * same transaction. The order is claimed first, so a concurrent move to
+ * PREPARING waits for the amendment or makes it fail. Refunds through the
+ * payment provider are sent once the transaction has committed.
+ */
+const applyAmendment = async (
+  orderId: number,
+  userId: number,
+  change: (tx: Prisma.TransactionClient) => Promise<void>
+) => {
+  const result = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.order.updateMany({
+      where: { id: orderId, status: 'PENDING' },
+      data: { updatedAt: new Date() }
+    });
+    if (claimed.count === 0) throw new OrderLockedError();
+
+    await change(tx);
+
+    const totalAmount = await recalculateOrderTotal(tx, orderId);
+    const settlement = await settleAmendedOrder(tx, orderId, userId);
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: amendedOrderInclude
+    });
+
+    return { order, totalAmount, ...settlement };
+  });
+
+  if (!result.refunds.some(refund => refund.status === 'PENDING')) return result;
+
+  const sent = await settleProviderRefunds(orderId);
+  return {
+    ...result,
+    order: await prisma.order.findUniqueOrThrow({ where: { id: orderId }, include: amendedOrderInclude }),
+    refunds: result.refunds.map(refund => ({ ...refund, ...sent.find(entry => entry.id === refund.id) }))
+  };
+};
+
+/**
+ * Send the error response for failures raised inside applyAmendment.
+ * Returns false for other errors, which the caller hands to handleError.
+ */
+const handleAmendmentError = (error: unknown, res: Response): boolean => {
+  if (error instanceof OrderLockedError) {
+    res.status(409).json({ message: 'The order is already being prepared and can no longer be amended' });
+    return true;
+  }
+  if (error instanceof InsufficientStockError) {
+    res.status(409).json({ message: error.message, shortages: error.shortages });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Add Items to Order
+ *
+ * Request Body:
+ * - items: [{ menuItemId, quantity, modifierOptionIds?, notes? }]
+ *
+ * @param req - Request with order ID parameter and items
+ * @param res - Response with the amended order, refunds and balance due
+ */
+export const addOrderItems = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { items } = req.body;
+    const user = req.user!;
+
+    if (!Array.isArray(items) || !items.length) {
+      res.status(400).json({ message: 'At least one item is required' });
+      return;
+    }
+
+    const existing = await getAmendableOrder(req, res);
+    if (!existing) return;
+
+    const built = await buildOrderItems(items, existing.branchId);
+    if (built.error !== undefined) {
+      res.status(built.status).json({ message: built.error });
+      return;
+    }
+
+    const result = await applyAmendment(existing.id, user.id, async (tx) => {
+      for (const item of built.orderItems) {
+        await tx.orderItem.create({
+          data: { ...item, orderId: existing.id }
+        });
+      }
+      await deductStock(tx, existing.id, built.orderItems);
+    });
+
+    publishOrderEvent('order.amended', result.order, result.order.status);
+
+    res.status(201).json({
+      message: 'Items added to order',
+      ...result
+    });
+  } catch (error) {
+    if (handleAmendmentError(error, res)) return;
+    console.error('Error in addOrderItems:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Update Order Item Quantity
+ *
+ * Request Body:
+ * - quantity: New quantity (whole number of at least 1; use DELETE to remove)
+ *
+ * @param req - Request with order and item ID parameters
+ * @param res - Response with the amended order, refunds and balance due
+ */
+export const updateOrderItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const quantity = Number(req.body.quantity);
+    const user = req.user!;
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      res.status(400).json({ message: 'Quantity must be a whole number of at least 1' });
+      return;
+    }
+
+    const existing = await getAmendableOrder(req, res);
+    if (!existing) return;
+
+    const item = existing.items.find(orderItem => orderItem.id === Number(req.params.itemId));
+    if (!item) {
+      res.status(404).json({ message: 'Order item not found' });
+      return;
+    }
+
+    if (item.quantity === quantity) {
+      res.status(400).json({ message: `Item already has quantity ${quantity}` });
+      return;
+    }
+
+    const result = await applyAmendment(existing.id, user.id, async (tx) => {
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: { quantity, subtotal: item.unitPrice * quantity }
+      });
+
+      const difference = { menuItemId: item.menuItemId, quantity: Math.abs(quantity - item.quantity) };
+      if (quantity > item.quantity) {
+        await deductStock(tx, existing.id, [difference]);
+      } else {
+        await returnStock(tx, existing.id, [difference]);
+      }
+    });
+
+    publishOrderEvent('order.amended', result.order, result.order.status);
+
+    res.json({
+      message: 'Order item updated',
+      ...result
+    });
+  } catch (error) {
+    if (handleAmendmentError(error, res)) return;
+    console.error('Error in updateOrderItem:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Remove Order Item
+ *
+ * The last item cannot be removed; cancel the order instead.
+ *
+ * @param req - Request with order and item ID parameters
+ * @param res - Response with the amended order, refunds and balance due
+ */
+export const removeOrderItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const existing = await getAmendableOrder(req, res);
+    if (!existing) return;
+
+    const item = existing.items.find(orderItem => orderItem.id === Number(req.params.itemId));
+    if (!item) {
+      res.status(404).json({ message: 'Order item not found' });
+      return;
+    }
+
+    if (existing.items.length === 1) {
+      res.status(400).json({ message: 'Cannot remove the last item of an order; cancel the order instead' });
+      return;
+    }
+
+    const result = await applyAmendment(existing.id, user.id, async (tx) => {
+      await tx.orderItem.delete({
+        where: { id: item.id }
+      });
+      await returnStock(tx, existing.id, [item]);
+    });
+
+    publishOrderEvent('order.amended', result.order, result.order.status);
+
+    res.json({
+      message: 'Order item removed',
+      ...result
+    });
+  } catch (error) {
+    if (handleAmendmentError(error, res)) return;
+    console.error('Error in removeOrderItem:', error);
+    handleError(error, res);
+  }
+};
@@ -9,9 +9,10 @@
  * - Order creation with automatic total calculation
  * - Role-based order visibility and access control
  * - Order status management through workflow states
- * - Intelligent branch assignment based on delivery address
+ * - Delivery-zone branch routing for delivery orders
  * - Menu item availability validation
  * - Order tracking and history
+ * - Reordering a past order at current prices, or into the customer's cart
  * - Payment integration and validation
  * - Bulk operations for restaurant staff
  * 
@@ -22,14 +23,30 @@
  * - BRANCH_MANAGER: Can view and manage all orders in their branch
  * - ADMIN/GENERAL_MANAGER: Can view and manage all orders across all branches
  * 
- * Order Workflow:
- * PENDING → CONFIRMED → PREPARING → READY → DELIVERED/COMPLETED
+ * Order Workflow (per fulfillment type, see utils/orderWorkflow):
+ * PENDING → PREPARING → READY → DELIVERED, with CANCELLED possible along the way
  */
 
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { handleError } from '../utils/errorHandler';
 import prisma from '../utils/prisma';
-import { OrderStatus } from '@prisma/client';
+import { recordOrderStatusEvent } from '../utils/orderHistory';
+import { restoreStock, writeOffStock } from '../utils/stock';
+import { cancellationReasonError, parseCancellationReason, settleCancellation } from '../utils/cancellation';
+import { buildOrderItems, rebuildOrderItems } from '../utils/orderItems';
+import { placeOrder } from '../utils/orderPlacement';
+import { addCartLines, presentCart } from '../utils/carts';
+import { settleProviderRefunds } from '../utils/paymentGateway';
+import { getKitchenReleaseTime, kitchenReleaseFilter } from '../utils/scheduling';
+import { orderSummarySelect, parseOrderListQuery } from '../utils/orderFilters';
+import { toPaginatedResponse } from '../utils/pagination';
+import { attachReadyEstimates } from '../utils/readyEstimates';
+import { canTransitionOrder, validateFulfillment } from '../utils/orderWorkflow';
+import { canViewOrderEvent, getOrderEventsSince, OrderEvent, publishOrderEvent, subscribeToOrderEvents } from '../utils/orderEvents';
+
+// Longest delay setTimeout supports
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
 /**
  * Get Orders with Role-Based Filtering
@@ -44,19 +61,29 @@ import { OrderStatus } from '@prisma/client';
  * - ADMIN/GENERAL_MANAGER: All orders with optional branch filtering
  * 
  * Features:
- * - Comprehensive order data with customer and item details
- * - Payment information included
- * - Sorted by creation date (newest first)
- * - Optional filtering by status, branch, and customer
+ * - Cursor-based pagination (PaginatedResponse with nextCursor)
+ * - Filters by status, fulfillment type, payment status, creation date range
+ *   and total amount range, plus branch and customer for managers
+ * - Sorting by creation date (newest first by default), last update or total
+ * - Summary mode with order fields only; otherwise customer, items and payments included
+ * - Queue position and estimated ready time for orders still in the kitchen
+ * 
+ * See parseOrderListQuery for the query parameters.
  * 
  * @param req - Request with query parameters for filtering
- * @param res - Response with filtered order list
+ * @param res - Response with a page of orders
  */
 export const getOrders = async (req: Request, res: Response) => {
     try {
-        const { branchId, status, customerId } = req.query;
+        const { branchId, customerId } = req.query;
         const user = req.user;
-        const whereClause: any = {};
+
+        const query = parseOrderListQuery(req.query);
+        if ('error' in query) {
+            return res.status(400).json({ message: query.error });
+        }
+
+        const whereClause: Prisma.OrderWhereInput = {};
 
         // Apply role-based filtering to ensure users only see appropriate orders
         if (user?.role === 'CHEF' || user?.role === 'CASHIER') {
@@ -74,37 +101,63 @@ export const getOrders = async (req: Request, res: Response) => {
             }
         }
 
+        // Scheduled orders stay off the kitchen view until their lead time before the slot
+        if (user?.role === 'CHEF' && user.branchId) {
+            const branch = await prisma.branch.findUnique({
+                where: { id: user.branchId },
+                select: { scheduleLeadMinutes: true }
+            });
+            if (branch) {
+                query.filters.push(kitchenReleaseFilter(branch.scheduleLeadMinutes));
+            }
+        }
+
         // Apply additional query filters (only for authorized roles)
         if (branchId && (user?.role === 'ADMIN' || user?.role === 'GENERAL_MANAGER')) {
             whereClause.branchId = Number(branchId);
         }
-        if (status) whereClause.status = status;
         if (customerId && (user?.role === 'ADMIN' || user?.role === 'GENERAL_MANAGER' || user?.role === 'BRANCH_MANAGER')) {
             whereClause.customerId = Number(customerId);
         }
+        if (query.filters.length) {
+            whereClause.AND = query.filters;
+        }
 
-        // Fetch orders with comprehensive related data
-        const orders = await prisma.order.findMany({
+        const page = {
             where: whereClause,
-            include: {
-                customer: {
-                    select: {
-                        username: true,
-                        email: true // Include customer info for staff
-                    }
-                },
-                items: {
+            orderBy: query.orderBy,
+            take: query.perPage + 1, // One extra row tells whether there is a next page
+            ...(query.cursor && { cursor: { id: query.cursor.id }, skip: 1 })
+        };
+
+        const [total, orders] = await Promise.all([
+            prisma.order.count({ where: whereClause }),
+            query.summary
+                ? prisma.order.findMany({ ...page, select: orderSummarySelect })
+                : prisma.order.findMany({
+                    ...page,
                     include: {
-                        menuItem: true // Include full menu item details
-                    }                },
-                payment: true // Include payment information if available
-            },
-            orderBy: {
-                createdAt: 'desc' // Show newest orders first
-            }
-        });
+                        customer: {
+                            select: {
+                                username: true,
+                                email: true // Include customer info for staff
+                            }
+                        },
+                        items: {
+                            include: {
+                                menuItem: true, // Include full menu item details
+                                modifiers: true // Selected modifiers (doneness, sauce, ...)
+                            }
+                        },
+                        payments: true // Include payment legs if available
+                    }
+                })
+        ]);
+
+        // Active orders carry their live queue position and estimated ready time
+        const estimated = await attachReadyEstimates<typeof orders[number]>(prisma, orders);
 
-        return res.json(orders);
+        return res.json(toPaginatedResponse(estimated, total, query.perPage, query.cursor?.page ?? 1));
     } catch (error) {
         return handleError(error, res);
     }
@@ -121,23 +174,29 @@ export const getOrders = async (req: Request, res: Response) => {
  * - Role-based order creation (customers and cashiers)
  * - Automatic total calculation with real-time menu pricing
  * - Menu item availability validation
- * - Intelligent branch assignment based on delivery address
+ * - Modifier validation and pricing (e.g. doneness, sauce) plus per-item notes
+ * - Delivery routing to the nearest branch whose delivery zones cover the address
  * - Support for walk-in orders (cashier-created)
  * - Comprehensive input validation
  * 
  * Business Logic:
  * - Customers can only create orders for themselves
  * - Cashiers can create orders for any customer or walk-in customers
- * - Branch assignment uses address matching algorithm
+ * - Delivery addresses are geocoded by postcode; addresses outside every delivery
+ *   zone (or outside the chosen branch's zones) are rejected with 422
  * - Menu items must be available and exist
  * - Order totals are calculated server-side for security
+ * - Items may send `modifierOptionIds` and `notes`; unit price includes modifier deltas
+ * - `fulfillmentType` is DINE_IN (requires `tableNumber`), TAKEAWAY or DELIVERY
+ *   (requires `deliveryAddress`); defaults to DELIVERY when an address is given
+ * - Optional `scheduledFor` books a future pickup/delivery slot (subject to slot capacity)
  * 
  * @param req - Request with order data (items, delivery address, etc.)
  * @param res - Response with created order or error message
  */
 export const createOrder = async (req: Request, res: Response) => {
     try {
-        let { branchId, items, deliveryAddress, customerId } = req.body;
+        const { branchId, items, deliveryAddress, customerId, scheduledFor, fulfillmentType, tableNumber } = req.body;
         const userId = req.user?.id;
         const userRole = req.user?.role;
 
@@ -160,111 +219,142 @@ export const createOrder = async (req: Request, res: Response) => {
             return res.status(403).json({ message: 'Insufficient permissions to create orders' });
         }
 
-        // Validate that order contains items
-        if (!items?.length) {
-            return res.status(400).json({ message: 'Order must contain at least one item' });
+        // Validate, route, price and create the order (see utils/orderPlacement)
+        const placed = await placeOrder({
+            customerId: actualCustomerId,
+            actor: { id: userId, role: userRole! },
+            items,
+            branchId: branchId ? Number(branchId) : undefined,
+            fulfillmentType,
+            deliveryAddress,
+            tableNumber,
+            scheduledFor
+        });
+        if (placed.error !== undefined) {
+            return res.status(placed.status).json({ message: placed.error, shortages: placed.shortages });
         }
 
-        // Intelligent branch assignment: if no branch specified, find closest by address
-        if (!branchId && deliveryAddress) {
-            const branches = await prisma.branch.findMany();
-            if (!branches.length) {
-                return res.status(400).json({ message: 'No branches available' });
-            }
-            
-            // Simple address matching algorithm (can be enhanced with geocoding API)
-            const normalize = (str: string) => str.toLowerCase().replace(/[^a-z0-9]/g, '');
-            const input = normalize(deliveryAddress);
-            let best = branches[0];
-            let bestScore = 0;
-            
-            for (const branch of branches) {
-                const branchNorm = normalize(branch.address || '');
-                let score = 0;
-                
-                // Calculate similarity score based on character matching
-                for (let i = 0; i < Math.min(branchNorm.length, input.length); i++) {
-                    if (branchNorm[i] === input[i]) score++;
-                }
-                
-                if (score > bestScore) {
-                    best = branch;
-                    bestScore = score;
-                }
-            }
-            branchId = best.id;
-        }
+        const [order] = await attachReadyEstimates(prisma, [placed.order]);
+        return res.status(201).json(order);
+    } catch (error) {
+        return handleError(error, res);
+    }
+};
 
-        if (!branchId) {
-            return res.status(400).json({ message: 'No branchId or delivery address provided' });
-        }
+/**
+ * Stream Order Events (Server-Sent Events)
+ * 
+ * Keeps the connection open and pushes order created, status changed and
+ * cancelled events as they happen, so kitchen and cashier screens no longer
+ * need to poll. Visibility follows the same role rules as getOrders.
+ * 
+ * Scheduled orders stay off chef streams until their kitchen release time
+ * (see kitchenReleaseFilter). Chefs then receive an `order.released` event,
+ * without an `id:` field as it is not part of the replay sequence.
+ * 
+ * Reconnection:
+ * - Each event carries an `id:` field
+ * - Clients reconnecting with a `Last-Event-ID` header (or `lastEventId`
+ *   query parameter) receive the events they missed
+ * - If the missed events are no longer buffered a `resync` event is sent and
+ *   the client should reload the order list
+ * 
+ * Query Parameters:
+ * - branchId (optional): Narrow the stream to one branch (ADMIN/GENERAL_MANAGER only)
+ * 
+ * @param req - Authenticated request, held open for the stream
+ * @param res - Response used as the event stream
+ */
+export const streamOrders = async (req: Request, res: Response): Promise<void> => {
+    const user = req.user!;
+    const branchFilter = req.query.branchId ? Number(req.query.branchId) : undefined;
 
-        // Process order items: validate and calculate totals
-        const orderItems = [];
-        let totalAmount = 0;
+    let scheduleLeadMinutes = 0;
+    if (user.role === 'CHEF' && user.branchId) {
+        const branch = await prisma.branch.findUnique({
+            where: { id: user.branchId },
+            select: { scheduleLeadMinutes: true }
+        });
+        scheduleLeadMinutes = branch?.scheduleLeadMinutes ?? 0;
+    }
 
-        for (const item of items) {
-            // Validate menu item exists and is available
-            const menuItem = await prisma.menuItem.findUnique({
-                where: { id: item.menuItemId }
-            });
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no' // Disable proxy buffering so events arrive immediately
+    });
 
-            if (!menuItem) {
-                return res.status(404).json({ 
-                    message: `Menu item ${item.menuItemId} not found` 
-                });
-            }
+    // Latest event of each scheduled order held back from a chef, sent on release
+    const held = new Map<number, { event: OrderEvent; timer: NodeJS.Timeout }>();
 
-            if (!menuItem.isAvailable) {
-                return res.status(400).json({ 
-                    message: `Menu item ${menuItem.name} is not available` 
-                });
-            }
+    const holdUntilRelease = (event: OrderEvent) => {
+        const releaseAt = getKitchenReleaseTime(new Date(event.scheduledFor!), scheduleLeadMinutes)!;
+        clearTimeout(held.get(event.orderId)?.timer);
+        held.delete(event.orderId);
+        if (event.status === 'CANCELLED') return;
 
-            // Calculate subtotal using current menu pricing (server-side calculation for security)
-            const subtotal = menuItem.price * item.quantity;
-            totalAmount += subtotal;
+        // Longer than a timer can wait; the order list shows it once released
+        const delay = releaseAt.getTime() - Date.now();
+        if (delay > MAX_TIMER_MS) return;
 
-            orderItems.push({
-                menuItemId: menuItem.id,
-                quantity: item.quantity,
-                unitPrice: menuItem.price,
-                subtotal
-            });
-        }        // Create order
-        const order = await prisma.order.create({
-            data: {
-                branchId: Number(branchId),
-                customerId: actualCustomerId,
-                status: 'PENDING' as OrderStatus,
-                totalAmount,
-                deliveryAddress: deliveryAddress || null,
-                items: {
-                    create: orderItems
-                }
-            },
-            include: {
-                items: {
-                    include: {
-                        menuItem: true
-                    }
-                }
+        const timer = setTimeout(() => {
+            held.delete(event.orderId);
+            res.write(`event: order.released\ndata: ${JSON.stringify(event)}\n\n`);
+        }, delay);
+        held.set(event.orderId, { event, timer });
+    };
+
+    const send = (event: OrderEvent) => {
+        if (!canViewOrderEvent(user, event, branchFilter, scheduleLeadMinutes)) {
+            // Visible apart from the release time: deliver it once the order is released
+            if (user.role === 'CHEF' && event.scheduledFor && canViewOrderEvent(user, { ...event, scheduledFor: null }, branchFilter)) {
+                holdUntilRelease(event);
             }
-        });
+            return;
+        }
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
 
-        return res.status(201).json(order);
-    } catch (error) {
-        return handleError(error, res);
+    // Tell EventSource clients how quickly to reconnect after a drop
+    res.write('retry: 3000\n\n');
+
+    // Replay anything the client missed while disconnected
+    const lastEventId = Number(req.headers['last-event-id'] ?? req.query.lastEventId);
+    if (Number.isInteger(lastEventId) && lastEventId >= 0) {
+        const { events, complete } = getOrderEventsSince(lastEventId);
+        if (!complete) {
+            res.write(`event: resync\ndata: ${JSON.stringify({ reason: 'Missed events are no longer available' })}\n\n`);
+        }
+        events.forEach(send);
     }
+
+    const unsubscribe = subscribeToOrderEvents(send);
+
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        held.forEach(entry => clearTimeout(entry.timer));
+        unsubscribe();
+    });
 };
 
 // Update order status
 export const updateOrderStatus = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, reason } = req.body;
     const user = req.user!;
 
+    // Every cancellation needs a reason code; `reason` stays an optional free-text note
+    const cancellationReason = parseCancellationReason(req.body.cancellationReason);
+    if (status === 'CANCELLED' && !cancellationReason) {
+      res.status(400).json({ message: cancellationReasonError });
+      return;
+    }
+
     // Validate status update based on user role
     if (user.role === 'CHEF' && !['PREPARING', 'READY'].includes(status)) {
       res.status(403).json({ message: 'Chefs can only mark orders as preparing or ready' });
@@ -279,7 +369,7 @@ export const updateOrderStatus = async (req: Request, res: Response): Promise<vo
     // Get current order
     const currentOrder = await prisma.order.findUnique({
       where: { id: Number(id) },
-      include: { payment: true }
+      include: { payments: true }
     });
 
     if (!currentOrder) {
@@ -287,43 +377,55 @@ export const updateOrderStatus = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // Validate status transition
-    const validTransitions: Record<string, string[]> = {
-      PENDING: ['PREPARING', 'CANCELLED', 'DELIVERED'], // Allow direct delivery
-      PREPARING: ['READY', 'CANCELLED'],
-      READY: ['DELIVERED', 'CANCELLED'],
-      DELIVERED: [],
-      CANCELLED: []
-    };
-
-    if (!validTransitions[currentOrder.status].includes(status)) {
+    // Validate status transition against the workflow of the order's fulfillment type
+    if (!canTransitionOrder(currentOrder.fulfillmentType, currentOrder.status, status)) {
       res.status(400).json({
-        message: `Cannot transition from ${currentOrder.status} to ${status}`
+        message: `Cannot transition a ${currentOrder.fulfillmentType} order from ${currentOrder.status} to ${status}`
       });
       return;
     }
 
-    // If cancelling and payment exists, initiate refund
-    if (status === 'CANCELLED' && currentOrder.payment) {
-      await prisma.payment.update({
-        where: { id: currentOrder.payment.id },
-        data: { status: 'REFUNDED' }
-      });
+    // Delivery orders leave the branch and reach the customer through their driver (see deliveryController)
+    if (status === 'OUT_FOR_DELIVERY' || (currentOrder.fulfillmentType === 'DELIVERY' && status === 'DELIVERED')) {
+      res.status(400).json({ message: 'Delivery orders are picked up and completed by the assigned driver' });
+      return;
     }
 
-    const order = await prisma.order.update({
-      where: { id: Number(id) },
-      data: { status },
-      include: {
-        items: {
-          include: {
-            menuItem: true
-          }
-        },
-        payment: true
-      }
+    // Status change, refund, stock return and history entry are written together
+    const { order, voidedPayments } = await prisma.$transaction(async (tx) => {
+      // Cancelling refunds what is left on every payment leg and returns the stock
+      const cancellation = status === 'CANCELLED'
+        ? await settleCancellation(tx, currentOrder.id, currentOrder.status, user.id, cancellationReason!, reason)
+        : null;
+
+      await recordOrderStatusEvent(tx, currentOrder.id, currentOrder.status, status, user, reason);
+
+      const updated = await tx.order.update({
+        where: { id: Number(id) },
+        data: { status, ...cancellation?.data },
+        include: {
+          items: {
+            include: {
+              menuItem: true
+            }
+          },
+          payments: true
+        }
+      });
+
+      return { order: updated, voidedPayments: cancellation?.voidedPayments ?? [] };
     });
 
+    if (status === 'CANCELLED') {
+      await settleProviderRefunds(order.id, voidedPayments);
+    }
+
+    publishOrderEvent(
+      status === 'CANCELLED' ? 'order.cancelled' : 'order.status_changed',
+      order,
+      currentOrder.status
+    );
+
     res.json({
       message: 'Order status updated successfully',
       order
@@ -341,7 +443,7 @@ export const deleteOrder = async (req: Request, res: Response): Promise<void> =>
 
     const order = await prisma.order.findUnique({
       where: { id: Number(id) },
-      include: { payment: true }
+      include: { payments: true }
     });
 
     // Check user authorization
@@ -361,16 +463,23 @@ export const deleteOrder = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // If payment exists, mark as refunded
-    if (order.payment) {
-      await prisma.payment.update({
-        where: { id: order.payment.id },
-        data: { status: 'REFUNDED' }
-      });
+    // Payments and their refunds are kept as financial records, so paid orders are cancelled instead
+    if (order.payments.length) {
+      res.status(400).json({ message: 'Orders with payments cannot be deleted; cancel the order to refund it' });
+      return;
     }
 
-    await prisma.order.delete({
-      where: { id: Number(id) }
+    // Ingredients taken for the order go back to stock before it disappears,
+    // unless the kitchen had already started on it
+    await prisma.$transaction(async (tx) => {
+      if (order.status === 'PENDING') {
+        await restoreStock(tx, order.id);
+      } else {
+        await writeOffStock(tx, order.id);
+      }
+      await tx.order.delete({
+        where: { id: order.id }
+      });
     });
 
     res.json({ message: 'Order deleted successfully' });
@@ -379,3 +488,248 @@ export const deleteOrder = async (req: Request, res: Response): Promise<void> =>
     res.status(500).json({ message: 'Error deleting order' });
   }
 };
+
+/**
+ * Get Order Status History
+ *
+ * Returns the full status timeline of an order, oldest first, including the
+ * user and role responsible for each change. Used to settle disputes such as
+ * "who cancelled this order?".
+ *
+ * Access Levels:
+ * - CASHIER/BRANCH_MANAGER: Orders from their assigned branch only
+ * - ADMIN/GENERAL_MANAGER: Any order
+ *
+ * @param req - Request with order ID parameter
+ * @param res - Response with order status and event timeline
+ */
+export const getOrderHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const user = req.user!;
+
+    const order = await prisma.order.findUnique({
+      where: { id: Number(id) },
+      select: { id: true, status: true, branchId: true }
+    });
+
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    // Branch staff can only view history for their own branch
+    if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && order.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to view this order history' });
+      return;
+    }
+
+    const events = await prisma.orderStatusEvent.findMany({
+      where: { orderId: order.id },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            username: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      orderId: order.id,
+      currentStatus: order.status,
+      events
+    });
+  } catch (error) {
+    console.error('Error in getOrderHistory:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Order Queue Position
+ *
+ * Shows where an order stands in the branch's kitchen queue and when it is
+ * expected to be ready. Recalculated on every request, so polling clients see
+ * the estimate move as orders ahead are finished.
+ *
+ * Access Levels:
+ * - CUSTOMER: Their own orders
+ * - CASHIER/BRANCH_MANAGER: Orders from their assigned branch only
+ * - ADMIN/GENERAL_MANAGER: Any order
+ *
+ * @param req - Request with order ID parameter
+ * @param res - Response with queue position, orders ahead and estimated ready time
+ */
+export const getOrderQueuePosition = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const user = req.user!;
+
+    const order = await prisma.order.findUnique({
+      where: { id: Number(id) },
+      select: { id: true, status: true, branchId: true, customerId: true, scheduledFor: true }
+    });
+
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    if (user.role === 'CUSTOMER' && order.customerId !== user.id) {
+      res.status(403).json({ message: 'Unauthorized to view this order' });
+      return;
+    }
+
+    if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && order.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to view this order' });
+      return;
+    }
+
+    const [estimate] = await attachReadyEstimates(prisma, [order]);
+    const minutesRemaining = estimate.estimatedReadyAt
+      ? Math.max(Math.ceil((estimate.estimatedReadyAt.getTime() - Date.now()) / 60000), 0)
+      : null;
+
+    res.json({
+      orderId: order.id,
+      status: order.status,
+      queuePosition: estimate.queuePosition,
+      ordersAhead: estimate.queuePosition !== null ? estimate.queuePosition - 1 : null,
+      estimatedReadyAt: estimate.estimatedReadyAt,
+      minutesRemaining
+    });
+  } catch (error) {
+    console.error('Error in getOrderQueuePosition:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Reorder
+ *
+ * Places a new order (or fills the customer's cart) from the items of a past
+ * order, at the same branch and with current menu prices. Items that are no
+ * longer available are dropped and reported, so the client can show what changed.
+ *
+ * Request Body (all optional):
+ * - fulfillmentType: TAKEAWAY or DELIVERY, defaults to the past order's type
+ * - deliveryAddress: Defaults to the past order's address
+ * - cart: When true, add the items to the customer's cart for the branch
+ *   instead of ordering (customers only; fulfillment is chosen at checkout)
+ *
+ * @param req - Request with the past order ID parameter
+ * @param res - Response with the new order (or cart) plus dropped and repriced items
+ */
+export const reorderOrder = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { cart } = req.body;
+    const user = req.user!;
+
+    const pastOrder = await prisma.order.findUnique({
+      where: { id: Number(id) },
+      include: {
+        items: {
+          include: { modifiers: { select: { optionId: true, optionName: true } } },
+          orderBy: { id: 'asc' }
+        }
+      }
+    });
+
+    if (!pastOrder) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    if (user.role === 'CUSTOMER' && pastOrder.customerId !== user.id) {
+      res.status(403).json({ message: 'Unauthorized to reorder this order' });
+      return;
+    }
+
+    if (user.role === 'CASHIER' && pastOrder.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to reorder this order' });
+      return;
+    }
+
+    if (cart === true && user.role !== 'CUSTOMER') {
+      res.status(403).json({ message: 'Only customers can reorder into their cart' });
+      return;
+    }
+
+    const fulfillmentType = req.body.fulfillmentType ?? pastOrder.fulfillmentType;
+    const deliveryAddress = req.body.deliveryAddress ?? pastOrder.deliveryAddress;
+
+    if (cart !== true) {
+      if (fulfillmentType === 'DINE_IN') {
+        res.status(400).json({ message: 'Dine-in orders cannot be reordered; choose TAKEAWAY or DELIVERY' });
+        return;
+      }
+
+      const fulfillmentError = validateFulfillment(fulfillmentType, deliveryAddress);
+      if (fulfillmentError) {
+        res.status(400).json({ message: fulfillmentError });
+        return;
+      }
+    }
+
+    const plan = await rebuildOrderItems(pastOrder.items, pastOrder.branchId);
+    const changes = {
+      dropped: plan.dropped,
+      repriced: plan.repriced,
+      removedModifiers: plan.removedModifiers
+    };
+
+    if (!plan.items.length) {
+      res.status(400).json({ message: 'None of the items of this order are available anymore', ...changes });
+      return;
+    }
+
+    if (cart === true) {
+      const built = await buildOrderItems(plan.items, pastOrder.branchId);
+      if (built.error !== undefined) {
+        res.status(built.status).json({ message: built.error, ...changes });
+        return;
+      }
+
+      const updated = await addCartLines(user.id, pastOrder.branchId, plan.items.map((item, index) => ({
+        ...item,
+        unitPrice: built.orderItems[index].unitPrice
+      })));
+
+      res.status(201).json({
+        message: 'Items added to your cart',
+        cart: await presentCart(updated),
+        ...changes
+      });
+      return;
+    }
+
+    // Delivery orders stay with the past order's branch, which must still deliver to the address
+    const placed = await placeOrder({
+      customerId: pastOrder.customerId,
+      actor: user,
+      items: plan.items,
+      branchId: pastOrder.branchId,
+      fulfillmentType,
+      deliveryAddress,
+      restrictMenuToBranch: true,
+      reason: `Reorder of order #${pastOrder.id}`
+    });
+    if (placed.error !== undefined) {
+      res.status(placed.status).json({ message: placed.error, shortages: placed.shortages });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Order placed successfully',
+      order: placed.order,
+      ...changes
+    });
+  } catch (error) {
+    console.error('Error in reorderOrder:', error);
+    handleError(error, res);
+  }
+};
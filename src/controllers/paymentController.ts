@@ -1,25 +1,67 @@
 import { Request, Response } from 'express';
 import { handleError } from '../utils/errorHandler';
 import prisma from '../utils/prisma';
-import { PaymentMethod, PaymentStatus } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import {
+  balancePaymentsArgs,
+  getBalanceDue,
+  getPaidAmount,
+  PAYMENT_TOLERANCE,
+  recordPaymentLegs,
+  resolvePaymentLegs,
+  roundCurrency,
+  splitEvenly
+} from '../utils/payments';
+import { chargePaymentLegs } from '../utils/paymentGateway';
+import { PAYMENT_PROVIDER_NAMES } from '../utils/paymentProviders';
+import { getSuggestedTips } from '../utils/tips';
+import { linkCashPayments } from '../utils/cashSessions';
 
-// Process payment for an order
+/**
+ * Process Payment
+ *
+ * Records one or more payment legs for an order. Bills can be split evenly,
+ * by item or by custom amounts, and legs can use different methods
+ * (e.g. cash plus card). The order counts as paid once the legs cover the total.
+ *
+ * Card and mobile legs are charged through the branch's payment provider.
+ * A leg that needs 3-D Secure stays PENDING and comes back with a nextAction;
+ * declined or timed out legs are FAILED and can be retried.
+ *
+ * Each leg may carry a tip on top of its amount: tipAmount (fixed) or
+ * tipPercentage (of the leg's amount). Tips do not reduce the balance due.
+ *
+ * CASH legs are recorded by staff when they take the cash; customers cannot
+ * record them, as nothing is charged.
+ *
+ * GIFT_CARD legs give the card's giftCardCode and are redeemed from its
+ * balance (amount plus tip); a card can pay part of the bill.
+ *
+ * Request Body (either form):
+ * - { amount, method, paymentToken?, giftCardCode?, tipAmount?, tipPercentage? } or
+ *   { orderItemIds, method, paymentToken?, giftCardCode?, tipAmount?, tipPercentage? }: A single leg
+ * - { payments: [{ method, amount, ... } | { method, orderItemIds, ... }, ...] }: Several legs at once
+ *
+ * Responses:
+ * - 201: Every leg collected
+ * - 202: At least one leg waits for a customer action
+ * - 402: At least one leg was declined or failed
+ *
+ * @param req - Request with order ID parameter and payment legs
+ * @param res - Response with the created legs and remaining balance
+ */
 export const processPayment = async (req: Request, res: Response): Promise<void> => {
   try {
     const { orderId } = req.params;
-    const { amount, method } = req.body;
+    const { amount, method, orderItemIds, paymentToken, giftCardCode, tipAmount, tipPercentage, payments } = req.body;
     const user = req.user!;
 
-    // Validate input
-    if (!amount || !method) {
-      res.status(400).json({ message: 'Amount and payment method are required' });
-      return;
-    }
+    const requestedLegs = payments ?? [{ amount, method, orderItemIds, paymentToken, giftCardCode, tipAmount, tipPercentage }];
 
     // Check if order exists and belongs to user (for customers) or is in their branch (for cashiers)
     const order = await prisma.order.findUnique({
       where: { id: Number(orderId) },
-      include: { payment: true }
+      include: { branch: { select: { paymentProvider: true } } }
     });
 
     if (!order) {
@@ -38,31 +80,71 @@ export const processPayment = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Check if payment already exists
-    if (order.payment) {
+    // Cash is only recorded by the staff member who takes it
+    if (user.role === 'CUSTOMER' && Array.isArray(requestedLegs) && requestedLegs.some(leg => leg?.method === 'CASH')) {
+      res.status(403).json({ message: 'Cash payments are recorded by staff when the cash is taken' });
+      return;
+    }
+
+    if (order.status === 'CANCELLED') {
+      res.status(400).json({ message: 'Cannot pay for a cancelled order' });
+      return;
+    }
+
+    // Check if the order is already fully paid
+    if (order.paidAt) {
       res.status(400).json({ message: 'Payment already processed for this order' });
       return;
     }
 
-    // Validate amount matches order total
-    if (Math.abs(amount - order.totalAmount) > 0.01) {
-      res.status(400).json({ message: 'Payment amount does not match order total' });
+    // Open dine-in tabs can still get more rounds, so they are paid when the tab is closed
+    if (order.tableId && !order.tabClosedAt) {
+      res.status(400).json({ message: 'Close the table tab to pay for this order' });
       return;
     }
 
-    // Create payment record
-    const payment = await prisma.payment.create({
-      data: {
-        orderId: Number(orderId),
-        amount: parseFloat(amount),
-        method: method as PaymentMethod,
-        status: 'COMPLETED' as PaymentStatus // Simulate successful payment
-      }
+    // Legs are validated against the balance inside the transaction so concurrent payments cannot overpay
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await tx.order.findUniqueOrThrow({
+        where: { id: order.id },
+        include: { items: true, payments: balancePaymentsArgs }
+      });
+
+      const resolved = resolvePaymentLegs(current, requestedLegs);
+      if (resolved.error !== undefined) return { error: resolved.error };
+
+      const recorded = await recordPaymentLegs(tx, current.id, resolved.legs, order.branch.paymentProvider);
+      // Cash taken at the till goes into the cashier's open drawer
+      await linkCashPayments(tx, user.id, current.branchId, recorded.payments);
+      return { ...recorded, paymentTokens: resolved.legs.map(leg => leg.paymentToken) };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if ('error' in result) {
+      res.status(400).json({ message: result.error });
+      return;
+    }
+
+    // Provider legs are charged after the legs are committed
+    const outcomes = await chargePaymentLegs(result.payments, result.paymentTokens);
+    const state = await prisma.order.findUniqueOrThrow({
+      where: { id: order.id },
+      include: { payments: balancePaymentsArgs }
     });
 
-    res.status(201).json({
-      message: 'Payment processed successfully',
-      payment
+    const failed = outcomes.some(outcome => outcome.payment.status === 'FAILED');
+    const actionRequired = outcomes.some(outcome => outcome.nextAction);
+
+    res.status(failed ? 402 : actionRequired ? 202 : 201).json({
+      message: failed
+        ? 'Payment declined'
+        : actionRequired
+          ? 'Payment requires customer authentication'
+          : state.paidAt ? 'Payment processed successfully' : 'Partial payment processed successfully',
+      payments: outcomes.map(({ payment, nextAction }) => ({ ...payment, nextAction })),
+      tipAmount: roundCurrency(outcomes.reduce((sum, { payment }) => sum + payment.tipAmount, 0)),
+      paidAmount: getPaidAmount(state.payments),
+      balanceDue: getBalanceDue(state),
+      isPaid: Boolean(state.paidAt)
     });
   } catch (error) {
     console.error('Error in processPayment:', error);
@@ -70,41 +152,160 @@ export const processPayment = async (req: Request, res: Response): Promise<void>
   }
 };
 
-// Get payment details for an order
+/**
+ * Get Split Plan
+ *
+ * Works out how the remaining balance would be split, without taking any
+ * payment. Each resulting leg can then be paid with processPayment.
+ *
+ * Request Body (by mode):
+ * - { mode: 'EVEN', ways }: Equal parts (leftover cents go to the first parts)
+ * - { mode: 'ITEMS', groups: [[orderItemId, ...], ...] }: One leg per group of items
+ * - { mode: 'CUSTOM', amounts: [...] }: Custom amounts that must add up to the balance
+ *
+ * Every proposed leg lists the branch's suggested tips for its amount.
+ *
+ * @param req - Request with order ID parameter and split mode
+ * @param res - Response with the proposed legs
+ */
+export const getSplitPlan = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orderId } = req.params;
+    const { mode, ways, groups, amounts } = req.body;
+    const user = req.user!;
+
+    const order = await prisma.order.findUnique({
+      where: { id: Number(orderId) },
+      include: {
+        items: { include: { menuItem: { select: { name: true } } } },
+        payments: balancePaymentsArgs,
+        branch: { select: { tipPresets: true } }
+      }
+    });
+
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    if (user.role === 'CUSTOMER' && order.customerId !== user.id) {
+      res.status(403).json({ message: 'Unauthorized to split this order' });
+      return;
+    }
+
+    if (user.role === 'CASHIER' && order.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to split this order' });
+      return;
+    }
+
+    const balanceDue = getBalanceDue(order);
+    let legs: { amount: number; orderItemIds?: number[] }[];
+
+    if (mode === 'EVEN') {
+      const parts = Number(ways);
+      if (!Number.isInteger(parts) || parts < 2) {
+        res.status(400).json({ message: 'ways must be a whole number of at least 2' });
+        return;
+      }
+      legs = splitEvenly(balanceDue, parts).map(part => ({ amount: part }));
+    } else if (mode === 'ITEMS') {
+      if (!Array.isArray(groups) || !groups.length) {
+        res.status(400).json({ message: 'groups must be a non-empty array of order item ID lists' });
+        return;
+      }
+      // Validate the groups the same way the payments will be validated
+      const resolved = resolvePaymentLegs(order, groups.map(group => ({ method: 'CASH', orderItemIds: group })));
+      if (resolved.error !== undefined) {
+        res.status(400).json({ message: resolved.error });
+        return;
+      }
+      legs = resolved.legs.map(leg => ({ amount: leg.amount, orderItemIds: leg.orderItemIds }));
+    } else if (mode === 'CUSTOM') {
+      if (!Array.isArray(amounts) || !amounts.length) {
+        res.status(400).json({ message: 'amounts must be a non-empty array' });
+        return;
+      }
+      legs = amounts.map(value => ({ amount: roundCurrency(Number(value)) }));
+      if (legs.some(leg => !Number.isFinite(leg.amount) || leg.amount <= 0)) {
+        res.status(400).json({ message: 'Every amount must be greater than 0' });
+        return;
+      }
+      const total = legs.reduce((sum, leg) => sum + leg.amount, 0);
+      if (Math.abs(total - balanceDue) > PAYMENT_TOLERANCE) {
+        res.status(400).json({ message: `Amounts must add up to the balance due of ${balanceDue.toFixed(2)}` });
+        return;
+      }
+    } else {
+      res.status(400).json({ message: 'mode must be one of EVEN, ITEMS, CUSTOM' });
+      return;
+    }
+
+    const splitTotal = roundCurrency(legs.reduce((sum, leg) => sum + leg.amount, 0));
+
+    res.json({
+      orderId: order.id,
+      mode,
+      totalAmount: order.totalAmount,
+      paidAmount: getPaidAmount(order.payments),
+      balanceDue,
+      legs: legs.map(leg => ({ ...leg, suggestedTips: getSuggestedTips(order.branch.tipPresets, leg.amount) })),
+      // Left to pay after these legs (e.g. items not assigned to any group)
+      remainingAfterSplit: Math.max(roundCurrency(balanceDue - splitTotal), 0)
+    });
+  } catch (error) {
+    console.error('Error in getSplitPlan:', error);
+    handleError(error, res);
+  }
+};
+
+// Get all payment legs for an order
 export const getPayment = async (req: Request, res: Response): Promise<void> => {
   try {
     const { orderId } = req.params;
     const user = req.user!;
 
-    const payment = await prisma.payment.findUnique({
-      where: { orderId: Number(orderId) },
+    const order = await prisma.order.findUnique({
+      where: { id: Number(orderId) },
       include: {
-        order: {
-          select: {
-            customerId: true,
-            branchId: true
-          }
+        payments: {
+          include: {
+            paidItems: { select: { id: true } },
+            refunds: { select: { id: true, amount: true, tipAmount: true, reason: true, method: true, status: true, createdAt: true } }
+          },
+          orderBy: { createdAt: 'asc' }
         }
       }
     });
 
-    if (!payment) {
-      res.status(404).json({ message: 'Payment not found' });
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
       return;
     }
 
     // Authorization check
-    if (user.role === 'CUSTOMER' && payment.order.customerId !== user.id) {
+    if (user.role === 'CUSTOMER' && order.customerId !== user.id) {
       res.status(403).json({ message: 'Unauthorized to view this payment' });
       return;
     }
 
-    if (user.role === 'CASHIER' && payment.order.branchId !== user.branchId) {
+    if (user.role === 'CASHIER' && order.branchId !== user.branchId) {
       res.status(403).json({ message: 'Unauthorized to view this payment' });
       return;
     }
 
-    res.json(payment);
+    res.json({
+      orderId: order.id,
+      totalAmount: order.totalAmount,
+      paidAmount: getPaidAmount(order.payments),
+      tipAmount: roundCurrency(order.payments.reduce((sum, payment) => sum + payment.tipAmount, 0)),
+      balanceDue: getBalanceDue(order),
+      isPaid: Boolean(order.paidAt),
+      paidAt: order.paidAt,
+      payments: order.payments.map(({ paidItems, ...payment }) => ({
+        ...payment,
+        orderItemIds: paidItems.map(item => item.id)
+      }))
+    });
   } catch (error) {
     console.error('Error in getPayment:', error);
     handleError(error, res);
@@ -124,7 +325,8 @@ export const reprintReceipt = async (req: Request, res: Response): Promise<void>
           include: {
             items: {
               include: {
-                menuItem: true
+                menuItem: true,
+                modifiers: true
               }
             },
             customer: true
@@ -171,7 +373,8 @@ export const emailReceipt = async (req: Request, res: Response): Promise<void> =
           include: {
             items: {
               include: {
-                menuItem: true
+                menuItem: true,
+                modifiers: true
               }
             },
             customer: true
@@ -201,3 +404,44 @@ export const emailReceipt = async (req: Request, res: Response): Promise<void> =
     handleError(error, res);
   }
 };
+
+/**
+ * Update Branch Payment Provider
+ *
+ * Request Body:
+ * - provider: Name of a registered payment provider
+ *
+ * @param req - Request with branch ID parameter
+ * @param res - Response with the branch's provider
+ */
+export const updateBranchPaymentProvider = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId } = req.params;
+    const { provider } = req.body;
+
+    if (!PAYMENT_PROVIDER_NAMES.includes(provider)) {
+      res.status(400).json({ message: `provider must be one of ${PAYMENT_PROVIDER_NAMES.join(', ')}` });
+      return;
+    }
+
+    const branch = await prisma.branch.findUnique({ where: { id: Number(branchId) } });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const updated = await prisma.branch.update({
+      where: { id: branch.id },
+      data: { paymentProvider: provider },
+      select: { id: true, name: true, paymentProvider: true }
+    });
+
+    res.json({
+      message: 'Payment provider updated successfully',
+      branch: updated
+    });
+  } catch (error) {
+    console.error('Error in updateBranchPaymentProvider:', error);
+    handleError(error, res);
+  }
+};
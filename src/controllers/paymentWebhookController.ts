@@ -0,0 +1,223 @@
+/**
+ * Payment Webhook Controller
+ *
+ * This module receives payment provider webhooks and lets admins follow up
+ * on events that could not be processed.
+ *
+ * Features:
+ * - Signature verification against the provider's webhook secret
+ *   (PAYMENT_WEBHOOK_SECRET_<PROVIDER>) before anything is stored
+ * - Raw event storage and idempotent processing by provider event ID
+ * - Listing of unprocessed and failed events, and replay
+ * - Mock provider 3-D Secure challenge for offline testing
+ *
+ * Role-Based Access:
+ * - Webhooks: No authentication (signed by the provider)
+ * - ADMIN/GENERAL_MANAGER: List and replay events
+ */
+
+import { Request, Response } from 'express';
+import { Prisma, WebhookEventStatus } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { PaymentProviderEvent, PAYMENT_PROVIDER_NAMES, getPaymentProvider, getWebhookSecret } from '../utils/paymentProviders';
+import { completeMockChallenge } from '../utils/paymentProviders/mockProvider';
+import { processWebhookEvent, recordWebhookEvent, REPLAYABLE_WEBHOOK_STATUSES } from '../utils/paymentWebhooks';
+import { CursorPosition, decodeCursor, parsePageSize, toPaginatedResponse } from '../utils/pagination';
+
+/**
+ * Handle Provider Webhook
+ *
+ * Verifies the signature of the raw body, stores the event and applies it to
+ * its payment leg. Responds with 500 when processing fails so the provider
+ * retries the delivery; repeated deliveries of settled events are acknowledged.
+ *
+ * @param req - Request with provider name parameter and the raw event body
+ * @param res - Response acknowledging the event
+ */
+export const handleProviderWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { provider: providerName } = req.params;
+
+    if (!PAYMENT_PROVIDER_NAMES.includes(providerName)) {
+      res.status(404).json({ message: 'Unknown payment provider' });
+      return;
+    }
+
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(400).json({ message: 'Webhook body is missing' });
+      return;
+    }
+    const rawBody = req.body.toString('utf8');
+
+    const secret = getWebhookSecret(providerName);
+    if (!secret) {
+      res.status(503).json({ message: `Webhooks are not configured for ${providerName}` });
+      return;
+    }
+
+    const provider = getPaymentProvider(providerName);
+    if (!provider.verifyWebhookSignature(rawBody, req.headers, secret)) {
+      res.status(401).json({ message: 'Invalid webhook signature' });
+      return;
+    }
+
+    let event: PaymentProviderEvent;
+    try {
+      event = provider.parseWebhook(rawBody);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid webhook event' });
+      return;
+    }
+
+    const { event: stored, duplicate } = await recordWebhookEvent(providerName, rawBody, event);
+    const processed = await processWebhookEvent(stored);
+
+    if (processed.status === 'FAILED') {
+      res.status(500).json({ message: 'Webhook event could not be processed', eventId: event.id, error: processed.error });
+      return;
+    }
+
+    res.json({ received: true, duplicate, eventId: event.id, status: processed.status });
+  } catch (error) {
+    console.error('Error in handleProviderWebhook:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Complete Mock 3-D Secure Challenge
+ *
+ * Stands in for the provider's challenge page when testing offline: resolves
+ * the challenge of a mock payment and processes the resulting webhook event
+ * like a delivered one. Not available in production.
+ *
+ * Request Body:
+ * - approve (optional): false to fail the challenge (default true)
+ *
+ * @param req - Request with the mock provider payment ID parameter
+ * @param res - Response with the processed event and the payment leg
+ */
+export const completeMockPaymentChallenge = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (process.env.NODE_ENV === 'production') {
+      res.status(404).json({ message: 'Not found' });
+      return;
+    }
+
+    let event: PaymentProviderEvent;
+    try {
+      event = completeMockChallenge(req.params.providerPaymentId, req.body?.approve !== false);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid challenge' });
+      return;
+    }
+
+    const { event: stored } = await recordWebhookEvent('mock', JSON.stringify(event), event);
+    const processed = await processWebhookEvent(stored);
+    const payment = processed.paymentId
+      ? await prisma.payment.findUnique({ where: { id: processed.paymentId } })
+      : null;
+
+    res.json({ message: 'Challenge completed', event: processed, payment });
+  } catch (error) {
+    console.error('Error in completeMockPaymentChallenge:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Webhook Events
+ *
+ * Query Parameters:
+ * - status (optional): Comma-separated statuses (default RECEIVED,FAILED)
+ * - provider (optional): Provider name
+ * - limit, cursor (optional): Page size and nextCursor of the previous page
+ *
+ * @param req - Authenticated admin request
+ * @param res - Paginated response with events, newest first
+ */
+export const getWebhookEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, provider, limit, cursor: rawCursor } = req.query;
+
+    const statuses = status
+      ? String(status).split(',').map(value => value.trim().toUpperCase())
+      : REPLAYABLE_WEBHOOK_STATUSES;
+    const invalid = statuses.filter(value => !Object.values(WebhookEventStatus).includes(value as WebhookEventStatus));
+    if (invalid.length) {
+      res.status(400).json({ message: `status must be one of ${Object.values(WebhookEventStatus).join(', ')}` });
+      return;
+    }
+
+    const perPage = parsePageSize(limit);
+    if (perPage === null) {
+      res.status(400).json({ message: 'limit must be a whole number between 1 and 100' });
+      return;
+    }
+
+    let cursor: CursorPosition | null = null;
+    if (rawCursor !== undefined) {
+      cursor = decodeCursor(String(rawCursor));
+      if (!cursor) {
+        res.status(400).json({ message: 'Invalid cursor' });
+        return;
+      }
+    }
+
+    const where: Prisma.PaymentWebhookEventWhereInput = {
+      status: { in: statuses as WebhookEventStatus[] },
+      ...(provider && { provider: String(provider) })
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.paymentWebhookEvent.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        take: perPage + 1,
+        ...(cursor && { cursor: { id: cursor.id }, skip: 1 })
+      }),
+      prisma.paymentWebhookEvent.count({ where })
+    ]);
+
+    res.json(toPaginatedResponse(events, total, perPage, cursor?.page ?? 1));
+  } catch (error) {
+    console.error('Error in getWebhookEvents:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Replay Webhook Event
+ *
+ * Processes a RECEIVED or FAILED event again from its stored payload.
+ *
+ * @param req - Authenticated admin request with event ID parameter
+ * @param res - Response with the event after processing
+ */
+export const replayWebhookEvent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const stored = await prisma.paymentWebhookEvent.findUnique({ where: { id: Number(id) } });
+    if (!stored) {
+      res.status(404).json({ message: 'Webhook event not found' });
+      return;
+    }
+
+    if (!REPLAYABLE_WEBHOOK_STATUSES.includes(stored.status)) {
+      res.status(409).json({ message: `Only unprocessed or failed events can be replayed; this event is ${stored.status}` });
+      return;
+    }
+
+    const processed = await processWebhookEvent(stored);
+
+    res.status(processed.status === 'FAILED' ? 422 : 200).json({
+      message: processed.status === 'FAILED' ? 'Replay failed' : 'Event replayed successfully',
+      event: processed
+    });
+  } catch (error) {
+    console.error('Error in replayWebhookEvent:', error);
+    handleError(error, res);
+  }
+};
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { handleError } from '../utils/errorHandler';
 import prisma from '../utils/prisma';
+import { findOpenCashSession } from '../utils/cashSessions';
+import { ISSUED_REFUND_STATUSES } from '../utils/refunds';
 
 /**
  * Create Receipt for an Order
@@ -48,6 +50,11 @@ export const createReceipt = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    // Cash receipts issued at the till count towards the cashier's open drawer
+    const cashSession = paymentMethod === 'CASH' && user.role !== 'CUSTOMER'
+      ? await findOpenCashSession(prisma, user.id, order.branchId)
+      : null;
+
     // Generate unique receipt number
     const receiptNumber = `REC-${Date.now()}-${orderId}`;
 
@@ -62,18 +69,21 @@ export const createReceipt = async (req: Request, res: Response) => {
         customerName,
         cashierName: userRecord.username,
         orderId,
-        cashierId: user.id
+        cashierId: user.id,
+        cashSessionId: cashSession?.id ?? null
       },
       include: {
         order: {
           include: {
             items: {
               include: {
-                menuItem: true
+                menuItem: true,
+                modifiers: true
               }
             },
             customer: true,
-            branch: true
+            branch: true,
+            payments: true
           }
         },
         cashier: {
@@ -129,7 +139,8 @@ export const getReceipts = async (req: Request, res: Response) => {
           include: {
             items: {
               include: {
-                menuItem: true
+                menuItem: true,
+                modifiers: true
               }
             },
             customer: true,
@@ -168,7 +179,8 @@ export const getReceiptById = async (req: Request, res: Response) => {
           include: {
             items: {
               include: {
-                menuItem: true
+                menuItem: true,
+                modifiers: true
               }
             },
             customer: true,
@@ -209,15 +221,22 @@ export const getReceiptStats = async (req: Request, res: Response) => {
   try {
     const user = req.user;
     const whereClause: any = {};
+    // Refunds the provider declined are not counted
+    const refundWhere: any = { status: { in: ISSUED_REFUND_STATUSES } };
+    const startOfToday = new Date(new Date().setHours(0, 0, 0, 0));
 
-    // Apply role-based filtering
+    // Apply role-based filtering (refunds follow the receipts they belong to)
     if (user?.role === 'CASHIER') {
       whereClause.cashierId = user.id;
+      refundWhere.order = { receipt: { cashierId: user.id } };
     } else if (user?.role === 'BRANCH_MANAGER' && user.branchId) {
       whereClause.order = { branchId: user.branchId };
+      refundWhere.order = { branchId: user.branchId, receipt: { isNot: null } };
+    } else {
+      refundWhere.order = { receipt: { isNot: null } };
     }
 
-    const [totalReceipts, totalRevenue, todayReceipts, todayRevenue] = await Promise.all([
+    const [totalReceipts, totalRevenue, todayReceipts, todayRevenue, totalRefunds, todayRefunds] = await Promise.all([
       prisma.receipt.count({ where: whereClause }),
       prisma.receipt.aggregate({
         where: whereClause,
@@ -239,14 +258,35 @@ export const getReceiptStats = async (req: Request, res: Response) => {
           }
         },
         _sum: { total: true }
+      }),
+      prisma.refund.aggregate({
+        where: refundWhere,
+        _sum: { amount: true }
+      }),
+      prisma.refund.aggregate({
+        where: {
+          ...refundWhere,
+          createdAt: { gte: startOfToday }
+        },
+        _sum: { amount: true }
       })
     ]);
 
+    // Refunds are negative revenue
+    const grossRevenue = totalRevenue._sum.total || 0;
+    const refunded = totalRefunds._sum.amount || 0;
+    const todayGrossRevenue = todayRevenue._sum.total || 0;
+    const todayRefunded = todayRefunds._sum.amount || 0;
+
     return res.json({
       totalReceipts,
-      totalRevenue: totalRevenue._sum.total || 0,
+      totalRevenue: grossRevenue - refunded,
+      grossRevenue,
+      totalRefunds: refunded,
       todayReceipts,
-      todayRevenue: todayRevenue._sum.total || 0
+      todayRevenue: todayGrossRevenue - todayRefunded,
+      todayGrossRevenue,
+      todayRefunds: todayRefunded
     });
   } catch (error) {
     return handleError(error, res);
@@ -0,0 +1,327 @@
+/**
+ * Refund Controller
+ *
+ * This module issues partial and full refunds against payment legs. A refund
+ * covers either a custom amount or quantities of order items, records a
+ * reason code and the manager who approved it, and links to the original payment.
+ *
+ * Features:
+ * - Refund by amount or per item (up to the quantity not yet refunded)
+ * - Refund method defaults to the original payment method; refunds back through
+ *   the payment provider are sent after they are recorded
+ * - Refund listing with totals per reason for reporting
+ *
+ * Role-Based Access:
+ * - BRANCH_MANAGER: Issue and list refunds for their branch
+ * - ADMIN/GENERAL_MANAGER: All branches
+ * - CASHIER/CUSTOMER: View refunds of an order (own branch / own orders)
+ */
+
+import { Request, Response } from 'express';
+import { PaymentMethod, Prisma, RefundReason } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { PAYMENT_TOLERANCE, roundCurrency } from '../utils/payments';
+import { getRefundableAmount, ISSUED_REFUND_STATUSES, issueRefund } from '../utils/refunds';
+import { sendProviderRefund } from '../utils/paymentGateway';
+import { parseDate } from '../utils/orderFilters';
+
+const refundInclude = {
+  items: {
+    include: {
+      orderItem: { select: { id: true, menuItem: { select: { name: true } } } }
+    }
+  },
+  approvedBy: { select: { id: true, username: true } },
+  payment: { select: { id: true, amount: true, method: true, status: true, refundedAmount: true } }
+} satisfies Prisma.RefundInclude;
+
+/**
+ * Create Refund
+ *
+ * Request Body:
+ * - paymentId: Payment leg to refund
+ * - reason: Reason code (ORDER_CANCELLED, ORDER_AMENDED, CUSTOMER_COMPLAINT, WRONG_ITEM, QUALITY_ISSUE, OVERCHARGE, OTHER)
+ * - amount: Amount to refund, or
+ * - items: [{ orderItemId, quantity }] to refund item quantities at their unit price
+ * - method (optional): How the money is returned, defaults to the payment method
+ * - note (optional): Free-text explanation
+ *
+ * Responses:
+ * - 201: Refund issued
+ * - 202: The payment provider did not answer in time; the refund stays PENDING
+ * - 502: The payment provider declined the refund; it is recorded as FAILED
+ *
+ * @param req - Authenticated manager request
+ * @param res - Response with the refund and updated payment
+ */
+export const createRefund = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { paymentId, reason, amount, items, method, note } = req.body;
+    const user = req.user!;
+
+    // PROVIDER_INITIATED refunds are only recorded from payment provider webhooks
+    const reasons = Object.values(RefundReason).filter(code => code !== 'PROVIDER_INITIATED');
+    if (!reasons.includes(reason)) {
+      res.status(400).json({ message: `reason must be one of ${reasons.join(', ')}` });
+      return;
+    }
+
+    if (method !== undefined && !Object.values(PaymentMethod).includes(method)) {
+      res.status(400).json({ message: `method must be one of ${Object.values(PaymentMethod).join(', ')}` });
+      return;
+    }
+
+    if ((amount === undefined) === (items === undefined)) {
+      res.status(400).json({ message: 'Provide either an amount or a list of items to refund' });
+      return;
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: Number(paymentId) },
+      include: { order: { select: { branchId: true } } }
+    });
+
+    if (!payment) {
+      res.status(404).json({ message: 'Payment not found' });
+      return;
+    }
+
+    if (user.role === 'BRANCH_MANAGER' && payment.order.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Can only refund payments of your branch' });
+      return;
+    }
+
+    if (method === 'GIFT_CARD' && payment.method !== 'GIFT_CARD') {
+      res.status(400).json({ message: 'Only gift card payments can be refunded to a gift card' });
+      return;
+    }
+
+    // Validate and price the refund inside the transaction so concurrent refunds cannot exceed the payment
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await tx.payment.findUniqueOrThrow({
+        where: { id: payment.id },
+        include: { paidItems: { select: { id: true } } }
+      });
+      const refundable = getRefundableAmount(current);
+
+      let refundAmount: number;
+      let refundItems: { orderItemId: number; quantity: number; amount: number }[] = [];
+
+      if (items !== undefined) {
+        if (!Array.isArray(items) || !items.length) {
+          return { error: 'items must be a non-empty array' };
+        }
+
+        const orderItems = await tx.orderItem.findMany({
+          where: { orderId: current.orderId },
+          include: {
+            refundItems: {
+              where: { refund: { status: { in: ISSUED_REFUND_STATUSES } } },
+              select: { quantity: true }
+            }
+          }
+        });
+        const paidItemIds = current.paidItems.map(item => item.id);
+
+        for (const requested of items) {
+          const orderItem = orderItems.find(item => item.id === Number(requested?.orderItemId));
+          if (!orderItem) {
+            return { error: `Order item ${requested?.orderItemId} does not belong to this payment's order` };
+          }
+          // Legs that paid for specific items can only refund those items
+          if (paidItemIds.length && !paidItemIds.includes(orderItem.id)) {
+            return { error: `Order item ${orderItem.id} was not paid with this payment` };
+          }
+
+          const quantity = Number(requested.quantity);
+          const alreadyRefunded = orderItem.refundItems.reduce((sum, item) => sum + item.quantity, 0)
+            + refundItems.filter(item => item.orderItemId === orderItem.id).reduce((sum, item) => sum + item.quantity, 0);
+          if (!Number.isInteger(quantity) || quantity < 1 || quantity > orderItem.quantity - alreadyRefunded) {
+            return { error: `Can refund at most ${orderItem.quantity - alreadyRefunded} of order item ${orderItem.id}` };
+          }
+
+          refundItems.push({
+            orderItemId: orderItem.id,
+            quantity,
+            amount: roundCurrency(orderItem.unitPrice * quantity)
+          });
+        }
+
+        refundAmount = roundCurrency(refundItems.reduce((sum, item) => sum + item.amount, 0));
+      } else {
+        refundAmount = roundCurrency(Number(amount));
+        if (!Number.isFinite(refundAmount) || refundAmount <= 0) {
+          return { error: 'amount must be greater than 0' };
+        }
+      }
+
+      if (refundAmount > refundable + PAYMENT_TOLERANCE) {
+        return { error: `Refund of ${refundAmount.toFixed(2)} exceeds the refundable amount of ${refundable.toFixed(2)}` };
+      }
+
+      return issueRefund(tx, current, {
+        amount: Math.min(refundAmount, refundable),
+        reason,
+        method: method || current.method,
+        approvedById: user.id,
+        note: typeof note === 'string' && note.trim() ? note.trim() : null,
+        items: refundItems
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if ('error' in result) {
+      res.status(400).json({ message: result.error });
+      return;
+    }
+
+    // The provider is only called once the refund is committed
+    const sent = await sendProviderRefund(result.id);
+
+    const refund = await prisma.refund.findUniqueOrThrow({
+      where: { id: result.id },
+      include: refundInclude
+    });
+
+    if (sent.status === 'FAILED') {
+      res.status(502).json({ message: sent.failureReason, refund });
+      return;
+    }
+
+    res.status(sent.status === 'PENDING' ? 202 : 201).json({
+      message: sent.status === 'PENDING'
+        ? 'Refund is waiting for the payment provider'
+        : 'Refund issued successfully',
+      refund
+    });
+  } catch (error) {
+    console.error('Error in createRefund:', error);
+    handleError(error, res);
+  }
+};
+
+// Get refunds of an order
+export const getOrderRefunds = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orderId } = req.params;
+    const user = req.user!;
+
+    const order = await prisma.order.findUnique({
+      where: { id: Number(orderId) },
+      select: { id: true, customerId: true, branchId: true }
+    });
+
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    if (user.role === 'CUSTOMER' && order.customerId !== user.id) {
+      res.status(403).json({ message: 'Unauthorized to view refunds for this order' });
+      return;
+    }
+
+    if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && order.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to view refunds for this order' });
+      return;
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { orderId: order.id },
+      include: refundInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    // Refunds the provider declined are listed but not counted
+    const issued = refunds.filter(refund => ISSUED_REFUND_STATUSES.includes(refund.status));
+
+    res.json({
+      orderId: order.id,
+      totalRefunded: roundCurrency(issued.reduce((sum, refund) => sum + refund.amount, 0)),
+      refunds
+    });
+  } catch (error) {
+    console.error('Error in getOrderRefunds:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Refunds
+ *
+ * Query Parameters:
+ * - startDate, endDate (optional): Issue date range
+ * - reason (optional): Reason code filter
+ * - branchId (ADMIN/GENERAL_MANAGER only): Branch filter
+ *
+ * @param req - Authenticated manager request
+ * @param res - Response with refunds and totals per reason
+ */
+export const getRefunds = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { reason, branchId } = req.query;
+    const user = req.user!;
+    const where: Prisma.RefundWhereInput = {};
+
+    const startDate = req.query.startDate !== undefined ? parseDate(req.query.startDate) : undefined;
+    const endDate = req.query.endDate !== undefined ? parseDate(req.query.endDate) : undefined;
+    if (startDate === null || endDate === null) {
+      res.status(400).json({ message: 'startDate and endDate must be valid dates' });
+      return;
+    }
+    if (startDate && endDate && startDate > endDate) {
+      res.status(400).json({ message: 'startDate must be before endDate' });
+      return;
+    }
+
+    if (user.role === 'BRANCH_MANAGER') {
+      where.order = { branchId: user.branchId };
+    } else if (branchId) {
+      where.order = { branchId: Number(branchId) };
+    }
+
+    if (reason) {
+      if (!Object.values(RefundReason).includes(reason as RefundReason)) {
+        res.status(400).json({ message: `reason must be one of ${Object.values(RefundReason).join(', ')}` });
+        return;
+      }
+      where.reason = reason as RefundReason;
+    }
+
+    if (startDate || endDate) {
+      where.createdAt = {};
+      if (startDate) where.createdAt.gte = startDate;
+      if (endDate) where.createdAt.lte = endDate;
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where,
+      include: {
+        ...refundInclude,
+        order: { select: { id: true, branchId: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    // Refunds the provider declined are listed but not counted
+    const issued = refunds.filter(refund => ISSUED_REFUND_STATUSES.includes(refund.status));
+
+    const byReason = Object.values(RefundReason).reduce((acc, code) => {
+      const matching = issued.filter(refund => refund.reason === code);
+      acc[code] = {
+        count: matching.length,
+        amount: roundCurrency(matching.reduce((sum, refund) => sum + refund.amount, 0))
+      };
+      return acc;
+    }, {} as Record<RefundReason, { count: number; amount: number }>);
+
+    res.json({
+      totalRefunded: roundCurrency(issued.reduce((sum, refund) => sum + refund.amount, 0)),
+      byReason,
+      refunds
+    });
+  } catch (error) {
+    console.error('Error in getRefunds:', error);
+    handleError(error, res);
+  }
+};
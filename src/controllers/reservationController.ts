@@ -0,0 +1,460 @@
+/**
+ * Reservation Controller
+ *
+ * This module lets customers book tables at a branch and gives staff a view
+ * of the day's bookings. Availability is based on the branch tables (a
+ * fitting table must be free for the whole reservation) and opening hours.
+ *
+ * Features:
+ * - Availability search per branch, day and party size
+ * - Booking with automatic table assignment
+ * - Customers list and cancel their own reservations
+ * - Day view per branch with covers and status counts
+ * - Status updates: BOOKED → SEATED, NO_SHOW or CANCELLED
+ *
+ * Role-Based Access:
+ * - Public: Availability search
+ * - CUSTOMER: Book, list and cancel own reservations
+ * - CASHIER/BRANCH_MANAGER: Book for guests, day view and status updates for their branch
+ * - ADMIN/GENERAL_MANAGER: All branches
+ */
+
+import { Request, Response } from 'express';
+import { Prisma, ReservationStatus } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { formatLocalDate, parseLocalDate } from '../utils/scheduling';
+import {
+  ACTIVE_RESERVATION_STATUSES,
+  generateReservationTimes,
+  pickTable,
+  validateReservationTime
+} from '../utils/reservations';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Status changes staff can make to a reservation
+const RESERVATION_TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  BOOKED: ['SEATED', 'NO_SHOW', 'CANCELLED'],
+  SEATED: [],
+  NO_SHOW: ['BOOKED'], // Undo when a late party turns up
+  CANCELLED: []
+};
+
+const reservationInclude = {
+  branch: { select: { id: true, name: true, address: true, phone: true } },
+  table: { select: { id: true, number: true, seats: true, section: true } }
+} satisfies Prisma.ReservationInclude;
+
+// Parse the optional date query parameter (defaults to today)
+const parseDayQuery = (value: unknown): Date | null => {
+  if (!value) {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+  return parseLocalDate(String(value));
+};
+
+// Load active bookings that can overlap the given day
+const getActiveBookings = (db: Prisma.TransactionClient, branchId: number, from: Date, to: Date) =>
+  db.reservation.findMany({
+    where: {
+      branchId,
+      status: { in: ACTIVE_RESERVATION_STATUSES },
+      tableId: { not: null },
+      reservedFor: { gte: new Date(from.getTime() - DAY_MS), lt: to }
+    },
+    select: { tableId: true, reservedFor: true, durationMinutes: true }
+  });
+
+/**
+ * Get Reservation Availability
+ *
+ * Query Parameters:
+ * - branchId: Branch to book at
+ * - partySize: Number of guests
+ * - date (optional): Day in YYYY-MM-DD format, defaults to today
+ *
+ * @param req - Request with search parameters
+ * @param res - Response with reservation times and whether a table is free
+ */
+export const getAvailability = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId, partySize, date } = req.query;
+    const guests = Number(partySize);
+
+    if (!branchId || !Number.isInteger(guests) || guests < 1) {
+      res.status(400).json({ message: 'branchId and a partySize of at least 1 are required' });
+      return;
+    }
+
+    const day = parseDayQuery(date);
+    if (!day) {
+      res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+      return;
+    }
+
+    const branch = await prisma.branch.findUnique({
+      where: { id: Number(branchId) },
+      include: { tables: { select: { id: true, seats: true } } }
+    });
+
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const now = new Date();
+    const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    const horizon = new Date(now.getFullYear(), now.getMonth(), now.getDate() + branch.reservationDaysAhead + 1);
+    const bookings = await getActiveBookings(prisma, branch.id, day, nextDay);
+    const largestTable = branch.tables.reduce((max, table) => Math.max(max, table.seats), 0);
+
+    const times = generateReservationTimes(branch, day)
+      .filter(start => start > now && start < horizon)
+      .map(start => ({
+        start,
+        end: new Date(start.getTime() + branch.reservationDurationMinutes * 60 * 1000),
+        isAvailable: pickTable(branch.tables, bookings, guests, start, branch.reservationDurationMinutes) !== null
+      }));
+
+    res.json({
+      branchId: branch.id,
+      date: formatLocalDate(day),
+      partySize: guests,
+      durationMinutes: branch.reservationDurationMinutes,
+      // Larger parties need to contact the branch directly
+      bookableOnline: guests <= largestTable,
+      times
+    });
+  } catch (error) {
+    console.error('Error in getAvailability:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Create Reservation
+ *
+ * Request Body:
+ * - branchId, partySize, reservedFor: Where, how many and when
+ * - contactPhone: Required contact number
+ * - contactName, contactEmail (optional for customers, defaults from the account)
+ * - notes (optional): e.g. "birthday", "high chair needed"
+ * - customerId (optional, staff only): Link the booking to a customer account
+ *
+ * @param req - Authenticated request with reservation details
+ * @param res - Response with the reservation and assigned table
+ */
+export const createReservation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId, partySize, reservedFor, contactName, contactPhone, contactEmail, notes, customerId } = req.body;
+    const user = req.user!;
+    const guests = Number(partySize);
+
+    if (!branchId || !reservedFor || !Number.isInteger(guests) || guests < 1) {
+      res.status(400).json({ message: 'branchId, reservedFor and a partySize of at least 1 are required' });
+      return;
+    }
+
+    if (typeof contactPhone !== 'string' || !contactPhone.trim()) {
+      res.status(400).json({ message: 'A contact phone number is required' });
+      return;
+    }
+
+    if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && Number(branchId) !== user.branchId) {
+      res.status(403).json({ message: 'Can only book reservations for your branch' });
+      return;
+    }
+
+    let customer: { id: number; username: string; email: string } | null = null;
+    if (user.role === 'CUSTOMER') {
+      customer = await prisma.user.findUnique({
+        where: { id: user.id },
+        select: { id: true, username: true, email: true }
+      });
+    } else if (customerId) {
+      customer = await prisma.user.findFirst({
+        where: { id: Number(customerId), role: 'CUSTOMER' },
+        select: { id: true, username: true, email: true }
+      });
+      if (!customer) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+    }
+
+    const name = typeof contactName === 'string' && contactName.trim() ? contactName.trim() : customer?.username;
+    if (!name) {
+      res.status(400).json({ message: 'A contact name is required' });
+      return;
+    }
+
+    const branch = await prisma.branch.findUnique({ where: { id: Number(branchId) } });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const start = new Date(reservedFor);
+    const timeError = validateReservationTime(branch, start);
+    if (timeError) {
+      res.status(400).json({ message: timeError });
+      return;
+    }
+
+    // Pick and book the table in one transaction so two guests never get the same table
+    const reservation = await prisma.$transaction(async (tx) => {
+      const tables = await tx.diningTable.findMany({
+        where: { branchId: branch.id },
+        select: { id: true, seats: true }
+      });
+      const bookings = await getActiveBookings(tx, branch.id, start, new Date(start.getTime() + DAY_MS));
+      const table = pickTable(tables, bookings, guests, start, branch.reservationDurationMinutes);
+      if (!table) return null;
+
+      return tx.reservation.create({
+        data: {
+          partySize: guests,
+          reservedFor: start,
+          durationMinutes: branch.reservationDurationMinutes,
+          contactName: name,
+          contactPhone: contactPhone.trim(),
+          contactEmail: typeof contactEmail === 'string' && contactEmail.trim() ? contactEmail.trim() : customer?.email,
+          notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+          branchId: branch.id,
+          tableId: table.id,
+          customerId: customer?.id
+        },
+        include: reservationInclude
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (!reservation) {
+      res.status(409).json({ message: `No table available for a party of ${guests} at that time` });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Reservation booked successfully',
+      reservation
+    });
+  } catch (error) {
+    console.error('Error in createReservation:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get My Reservations
+ *
+ * Query Parameters:
+ * - upcoming (optional): "true" to only list future reservations that are still booked
+ *
+ * @param req - Authenticated customer request
+ * @param res - Response with the customer's reservations, newest first
+ */
+export const getMyReservations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const where: Prisma.ReservationWhereInput = { customerId: user.id };
+
+    if (req.query.upcoming === 'true') {
+      where.status = 'BOOKED';
+      where.reservedFor = { gte: new Date() };
+    }
+
+    const reservations = await prisma.reservation.findMany({
+      where,
+      include: reservationInclude,
+      orderBy: { reservedFor: 'desc' }
+    });
+
+    res.json(reservations);
+  } catch (error) {
+    console.error('Error in getMyReservations:', error);
+    handleError(error, res);
+  }
+};
+
+// Cancel a reservation (customers: own future bookings, staff: bookings in their branch)
+export const cancelReservation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const user = req.user!;
+
+    const reservation = await prisma.reservation.findUnique({ where: { id: Number(id) } });
+
+    if (!reservation) {
+      res.status(404).json({ message: 'Reservation not found' });
+      return;
+    }
+
+    if (user.role === 'CUSTOMER' && reservation.customerId !== user.id) {
+      res.status(403).json({ message: 'Unauthorized to cancel this reservation' });
+      return;
+    }
+
+    if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && reservation.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to cancel this reservation' });
+      return;
+    }
+
+    if (reservation.status !== 'BOOKED') {
+      res.status(400).json({ message: `Cannot cancel a reservation that is ${reservation.status}` });
+      return;
+    }
+
+    if (user.role === 'CUSTOMER' && reservation.reservedFor <= new Date()) {
+      res.status(400).json({ message: 'Past reservations cannot be cancelled' });
+      return;
+    }
+
+    const updated = await prisma.reservation.update({
+      where: { id: reservation.id },
+      data: { status: 'CANCELLED' },
+      include: reservationInclude
+    });
+
+    res.json({
+      message: 'Reservation cancelled successfully',
+      reservation: updated
+    });
+  } catch (error) {
+    console.error('Error in cancelReservation:', error);
+    handleError(error, res);
+  }
+};
+
+// Update reservation status (seat the party, mark as no-show, ...)
+export const updateReservationStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+    const user = req.user!;
+
+    if (!Object.values(ReservationStatus).includes(status)) {
+      res.status(400).json({ message: `status must be one of ${Object.values(ReservationStatus).join(', ')}` });
+      return;
+    }
+
+    const reservation = await prisma.reservation.findUnique({ where: { id: Number(id) } });
+
+    if (!reservation) {
+      res.status(404).json({ message: 'Reservation not found' });
+      return;
+    }
+
+    if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && reservation.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to update this reservation' });
+      return;
+    }
+
+    if (!RESERVATION_TRANSITIONS[reservation.status].includes(status)) {
+      res.status(400).json({ message: `Cannot change reservation from ${reservation.status} to ${status}` });
+      return;
+    }
+
+    const updated = await prisma.reservation.update({
+      where: { id: reservation.id },
+      data: { status },
+      include: reservationInclude
+    });
+
+    res.json({
+      message: 'Reservation status updated successfully',
+      reservation: updated
+    });
+  } catch (error) {
+    console.error('Error in updateReservationStatus:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Reservation Day View
+ *
+ * All reservations of a branch on one day, in time order and per table,
+ * with covers (guests) and status counts.
+ *
+ * Query Parameters:
+ * - date (optional): Day in YYYY-MM-DD format, defaults to today
+ * - branchId (ADMIN/GENERAL_MANAGER only): Branch to show, defaults to the user's branch
+ *
+ * @param req - Authenticated staff request
+ * @param res - Response with reservations, per-table timeline and summary
+ */
+export const getDayView = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const branchId = ['ADMIN', 'GENERAL_MANAGER'].includes(user.role) && req.query.branchId
+      ? Number(req.query.branchId)
+      : user.branchId;
+
+    if (!branchId) {
+      res.status(400).json({ message: 'Branch ID is required' });
+      return;
+    }
+
+    const day = parseDayQuery(req.query.date);
+    if (!day) {
+      res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+      return;
+    }
+    const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+
+    const [reservations, tables] = await Promise.all([
+      prisma.reservation.findMany({
+        where: { branchId, reservedFor: { gte: day, lt: nextDay } },
+        include: {
+          table: { select: { id: true, number: true, seats: true, section: true } },
+          customer: { select: { id: true, username: true } }
+        },
+        orderBy: { reservedFor: 'asc' }
+      }),
+      prisma.diningTable.findMany({
+        where: { branchId },
+        orderBy: [{ section: 'asc' }, { number: 'asc' }]
+      })
+    ]);
+
+    const statusCounts = Object.values(ReservationStatus).reduce((acc, status) => {
+      acc[status] = reservations.filter(reservation => reservation.status === status).length;
+      return acc;
+    }, {} as Record<ReservationStatus, number>);
+
+    const active = reservations.filter(reservation => ACTIVE_RESERVATION_STATUSES.includes(reservation.status));
+
+    res.json({
+      branchId,
+      date: formatLocalDate(day),
+      summary: {
+        totalReservations: reservations.length,
+        expectedCovers: active.reduce((sum, reservation) => sum + reservation.partySize, 0),
+        statusCounts
+      },
+      reservations: reservations.map(reservation => ({
+        ...reservation,
+        endsAt: new Date(reservation.reservedFor.getTime() + reservation.durationMinutes * 60 * 1000)
+      })),
+      tables: tables.map(table => ({
+        id: table.id,
+        number: table.number,
+        seats: table.seats,
+        section: table.section,
+        reservations: active
+          .filter(reservation => reservation.tableId === table.id)
+          .map(reservation => ({
+            id: reservation.id,
+            reservedFor: reservation.reservedFor,
+            partySize: reservation.partySize,
+            contactName: reservation.contactName,
+            status: reservation.status
+          }))
+      }))
+    });
+  } catch (error) {
+    console.error('Error in getDayView:', error);
+    handleError(error, res);
+  }
+};
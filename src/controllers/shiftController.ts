@@ -0,0 +1,166 @@
+/**
+ * Staff Shift Controller
+ *
+ * This module records when staff members work. Staff clock in and out at
+ * their branch; the recorded hours are used to share the branch's tip pool.
+ *
+ * Features:
+ * - Clock in (one running shift per staff member) and clock out
+ * - Shift listing per branch and day with hours worked
+ *
+ * Role-Based Access:
+ * - CHEF/CASHIER/DRIVER/BRANCH_MANAGER: Clock in and out at their branch
+ * - BRANCH_MANAGER: List shifts of their branch
+ * - ADMIN/GENERAL_MANAGER: List shifts of all branches
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { formatLocalDate, getNextLocalDay, parseLocalDate } from '../utils/scheduling';
+import { getShiftHours } from '../utils/tips';
+import { roundCurrency } from '../utils/payments';
+
+const shiftInclude = {
+  user: { select: { id: true, username: true, role: true } }
+} satisfies Prisma.StaffShiftInclude;
+
+/**
+ * Clock In
+ *
+ * Starts a shift at the staff member's branch. Only one shift can be
+ * running per staff member.
+ *
+ * @param req - Authenticated staff request
+ * @param res - Response with the running shift
+ */
+export const clockIn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    if (!user.branchId) {
+      res.status(400).json({ message: 'You must be assigned to a branch to clock in' });
+      return;
+    }
+
+    const branchId = user.branchId;
+    const result = await prisma.$transaction(async (tx) => {
+      // Lock the user so a double tap cannot open two shifts
+      await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${user.id} FOR UPDATE`;
+
+      const running = await tx.staffShift.findFirst({
+        where: { userId: user.id, clockedOutAt: null }
+      });
+      if (running) return { running };
+
+      return {
+        shift: await tx.staffShift.create({
+          data: { userId: user.id, branchId },
+          include: shiftInclude
+        })
+      };
+    });
+
+    if (result.running) {
+      res.status(409).json({ message: 'You are already clocked in', shift: result.running });
+      return;
+    }
+    const { shift } = result;
+
+    res.status(201).json({
+      message: 'Clocked in successfully',
+      shift
+    });
+  } catch (error) {
+    console.error('Error in clockIn:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Clock Out
+ *
+ * Ends the staff member's running shift.
+ *
+ * @param req - Authenticated staff request
+ * @param res - Response with the finished shift and its hours
+ */
+export const clockOut = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const running = await prisma.staffShift.findFirst({
+      where: { userId: user.id, clockedOutAt: null }
+    });
+    if (!running) {
+      res.status(404).json({ message: 'You are not clocked in' });
+      return;
+    }
+
+    const shift = await prisma.staffShift.update({
+      where: { id: running.id },
+      data: { clockedOutAt: new Date() },
+      include: shiftInclude
+    });
+
+    res.json({
+      message: 'Clocked out successfully',
+      shift: { ...shift, hours: roundCurrency(getShiftHours(shift, shift.clockedInAt, shift.clockedOutAt!)) }
+    });
+  } catch (error) {
+    console.error('Error in clockOut:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Shifts
+ *
+ * Query Parameters:
+ * - date (optional): Day in YYYY-MM-DD format, defaults to today
+ * - branchId (ADMIN/GENERAL_MANAGER only): Branch filter
+ *
+ * Hours are counted within the day; running shifts count until now.
+ *
+ * @param req - Authenticated manager request
+ * @param res - Response with the shifts overlapping the day
+ */
+export const getShifts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { date, branchId } = req.query;
+    const user = req.user!;
+
+    const now = new Date();
+    const day = date ? parseLocalDate(String(date)) : new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (!day) {
+      res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+      return;
+    }
+    const dayEnd = getNextLocalDay(day);
+
+    const where: Prisma.StaffShiftWhereInput = {
+      clockedInAt: { lt: dayEnd },
+      OR: [{ clockedOutAt: null }, { clockedOutAt: { gt: day } }]
+    };
+    if (user.role === 'BRANCH_MANAGER') {
+      where.branchId = user.branchId;
+    } else if (branchId) {
+      where.branchId = Number(branchId);
+    }
+
+    const shifts = await prisma.staffShift.findMany({
+      where,
+      include: shiftInclude,
+      orderBy: { clockedInAt: 'asc' }
+    });
+
+    res.json({
+      date: formatLocalDate(day),
+      shifts: shifts.map(shift => ({ ...shift, hours: roundCurrency(getShiftHours(shift, day, dayEnd)) }))
+    });
+  } catch (error) {
+    console.error('Error in getShifts:', error);
+    handleError(error, res);
+  }
+};
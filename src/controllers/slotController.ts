@@ -0,0 +1,189 @@
+/**
+ * Scheduled Order Slot Controller
+ *
+ * This module exposes the pickup/delivery time slots of a branch so customers
+ * can schedule orders ahead, and lets managers configure slot capacity.
+ *
+ * Features:
+ * - Slot listing per day with booked and remaining capacity
+ * - Slots closer than the kitchen lead time or beyond the booking horizon are omitted
+ * - Branch slot settings (opening hours, slot length, capacity, lead time,
+ *   reservation grid, duration and booking horizon)
+ */
+
+import { Request, Response } from 'express';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { formatLocalDate, generateDaySlots, getEarliestSlotStart, parseClockTime, parseLocalDate } from '../utils/scheduling';
+
+/**
+ * Get Available Slots
+ *
+ * Query Parameters:
+ * - date (optional): Day in YYYY-MM-DD format, defaults to today
+ *
+ * @param req - Request with branch ID parameter and optional date
+ * @param res - Response with slot list including remaining capacity
+ */
+export const getAvailableSlots = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId } = req.params;
+    const { date } = req.query;
+
+    const branch = await prisma.branch.findUnique({ where: { id: Number(branchId) } });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const now = new Date();
+    let day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (date) {
+      const parsed = parseLocalDate(String(date));
+      if (!parsed) {
+        res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+        return;
+      }
+      day = parsed;
+    }
+
+    const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    const horizon = new Date(now.getFullYear(), now.getMonth(), now.getDate() + branch.maxScheduleDaysAhead + 1);
+    const earliest = getEarliestSlotStart(branch, now);
+
+    // Count scheduled orders per slot start for the requested day
+    const bookings = await prisma.order.groupBy({
+      by: ['scheduledFor'],
+      where: {
+        branchId: branch.id,
+        scheduledFor: { gte: day, lt: nextDay },
+        status: { not: 'CANCELLED' }
+      },
+      _count: { id: true }
+    });
+
+    const bookedBySlot = new Map<number, number>();
+    bookings.forEach(booking => {
+      if (booking.scheduledFor) {
+        bookedBySlot.set(booking.scheduledFor.getTime(), booking._count.id);
+      }
+    });
+
+    const slots = generateDaySlots(branch, day)
+      .filter(start => start >= earliest && start < horizon)
+      .map(start => {
+        const booked = bookedBySlot.get(start.getTime()) || 0;
+        const available = Math.max(branch.slotCapacity - booked, 0);
+        return {
+          start,
+          end: new Date(start.getTime() + branch.slotIntervalMinutes * 60 * 1000),
+          booked,
+          available,
+          isAvailable: available > 0
+        };
+      });
+
+    res.json({
+      branchId: branch.id,
+      date: formatLocalDate(day),
+      openTime: branch.openTime,
+      closeTime: branch.closeTime,
+      slotIntervalMinutes: branch.slotIntervalMinutes,
+      slotCapacity: branch.slotCapacity,
+      slots
+    });
+  } catch (error) {
+    console.error('Error in getAvailableSlots:', error);
+    handleError(error, res);
+  }
+};
+
+// Update branch opening hours, scheduled order slot, reservation, kitchen capacity and cancel window settings
+export const updateSlotSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId } = req.params;
+    const {
+      openTime,
+      closeTime,
+      slotIntervalMinutes,
+      slotCapacity,
+      scheduleLeadMinutes,
+      maxScheduleDaysAhead,
+      reservationSlotMinutes,
+      reservationDurationMinutes,
+      reservationDaysAhead,
+      kitchenCapacity,
+      customerCancelWindowMinutes
+    } = req.body;
+
+    const branch = await prisma.branch.findUnique({ where: { id: Number(branchId) } });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const nextOpen = openTime ?? branch.openTime;
+    const nextClose = closeTime ?? branch.closeTime;
+    const openMinutes = parseClockTime(nextOpen);
+    const closeMinutes = parseClockTime(nextClose);
+
+    if (openMinutes === null || closeMinutes === null) {
+      res.status(400).json({ message: 'openTime and closeTime must be in HH:MM format' });
+      return;
+    }
+
+    if (closeMinutes <= openMinutes) {
+      res.status(400).json({ message: 'closeTime must be later than openTime' });
+      return;
+    }
+
+    const numericSettings: Record<string, { value: unknown; min: number }> = {
+      slotIntervalMinutes: { value: slotIntervalMinutes, min: 5 },
+      slotCapacity: { value: slotCapacity, min: 1 },
+      scheduleLeadMinutes: { value: scheduleLeadMinutes, min: 0 },
+      maxScheduleDaysAhead: { value: maxScheduleDaysAhead, min: 0 },
+      reservationSlotMinutes: { value: reservationSlotMinutes, min: 5 },
+      reservationDurationMinutes: { value: reservationDurationMinutes, min: 15 },
+      reservationDaysAhead: { value: reservationDaysAhead, min: 0 },
+      kitchenCapacity: { value: kitchenCapacity, min: 1 },
+      customerCancelWindowMinutes: { value: customerCancelWindowMinutes, min: 0 }
+    };
+
+    const updateData: any = { openTime: nextOpen, closeTime: nextClose };
+    for (const [field, { value, min }] of Object.entries(numericSettings)) {
+      if (value === undefined) continue;
+      if (!Number.isInteger(Number(value)) || Number(value) < min) {
+        res.status(400).json({ message: `${field} must be a whole number of at least ${min}` });
+        return;
+      }
+      updateData[field] = Number(value);
+    }
+
+    const updated = await prisma.branch.update({
+      where: { id: branch.id },
+      data: updateData,
+      select: {
+        id: true,
+        openTime: true,
+        closeTime: true,
+        slotIntervalMinutes: true,
+        slotCapacity: true,
+        scheduleLeadMinutes: true,
+        maxScheduleDaysAhead: true,
+        reservationSlotMinutes: true,
+        reservationDurationMinutes: true,
+        reservationDaysAhead: true,
+        kitchenCapacity: true,
+        customerCancelWindowMinutes: true
+      }
+    });
+
+    res.json({
+      message: 'Slot settings updated successfully',
+      settings: updated
+    });
+  } catch (error) {
+    console.error('Error in updateSlotSettings:', error);
+    handleError(error, res);
+  }
+};
@@ -15,13 +15,14 @@
  * 
  * Role Hierarchy and Permissions:
  * - ADMIN: Can create and manage all staff roles across all branches
- * - GENERAL_MANAGER: Can create and manage CHEF, CASHIER, and BRANCH_MANAGER roles
- * - BRANCH_MANAGER: Can only create CHEF and CASHIER roles within their branch
+ * - GENERAL_MANAGER: Can create and manage CHEF, CASHIER, DRIVER, and BRANCH_MANAGER roles
+ * - BRANCH_MANAGER: Can only create CHEF, CASHIER and DRIVER roles within their branch
  * 
  * Staff Roles Available:
  * - BRANCH_MANAGER: Manages individual restaurant branches
  * - CHEF: Kitchen staff responsible for food preparation
  * - CASHIER: Front-of-house staff handling orders and payments
+ * - DRIVER: Delivers delivery orders to customers
  */
 
 import { Request, Response } from 'express';
@@ -36,8 +37,8 @@ import { hashPassword } from '../utils/hash';
  * 
  * Authorization Rules:
  * - ADMIN: Can create any staff role for any branch
- * - GENERAL_MANAGER: Can create CHEF, CASHIER, and BRANCH_MANAGER roles
- * - BRANCH_MANAGER: Can only create CHEF and CASHIER for their own branch
+ * - GENERAL_MANAGER: Can create CHEF, CASHIER, DRIVER, and BRANCH_MANAGER roles
+ * - BRANCH_MANAGER: Can only create CHEF, CASHIER and DRIVER for their own branch
  * 
  * Validation:
  * - All required fields must be provided
@@ -60,15 +61,15 @@ export const createStaffMember = async (req: Request, res: Response): Promise<vo
     }
 
     // Role authorization check - validate creator can assign the requested role
-    const validRoles = ['CHEF', 'CASHIER', 'BRANCH_MANAGER'];
+    const validRoles = ['CHEF', 'CASHIER', 'DRIVER', 'BRANCH_MANAGER'];
     if (adminUser.role === 'GENERAL_MANAGER' && !validRoles.includes(role)) {
       res.status(403).json({ message: 'Invalid role specified for staff member' });
       return;
     }
 
     // Branch managers have restricted role creation permissions
-    if (adminUser.role === 'BRANCH_MANAGER' && !['CHEF', 'CASHIER'].includes(role)) {
-      res.status(403).json({ message: 'Branch managers can only create Chef and Cashier roles' });
+    if (adminUser.role === 'BRANCH_MANAGER' && !['CHEF', 'CASHIER', 'DRIVER'].includes(role)) {
+      res.status(403).json({ message: 'Branch managers can only create Chef, Cashier and Driver roles' });
       return;
     }
 
@@ -0,0 +1,675 @@
+/**
+ * Table Management Controller
+ *
+ * This module manages branch floor plans and open dine-in tabs. Seating a
+ * party opens a tab: a dine-in order linked to the table that staff keep
+ * adding rounds of items to until the bill is settled.
+ *
+ * Features:
+ * - Tables per branch with number, seats, section and status
+ * - Table status: FREE → SEATED (tab opened) → DIRTY (tab closed) → FREE (cleaned)
+ * - Open a tab, add rounds (sent to the kitchen like any order), close with one
+ *   payment or a split bill
+ * - Live floor state per branch with open tab totals
+ *
+ * Role-Based Access:
+ * - CASHIER: Tables, tabs and floor state of their branch
+ * - BRANCH_MANAGER: Everything above plus table management for their branch
+ * - ADMIN/GENERAL_MANAGER: All branches
+ */
+
+import { Request, Response } from 'express';
+import { OrderStatus, Prisma, TableStatus } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { buildOrderItems } from '../utils/orderItems';
+import { recordOrderStatusEvent } from '../utils/orderHistory';
+import { publishOrderEvent } from '../utils/orderEvents';
+import { balancePaymentsArgs, getBalanceDue, PAYMENT_TOLERANCE, recordPaymentLegs, resolvePaymentLegs } from '../utils/payments';
+import { deductStock, InsufficientStockError } from '../utils/stock';
+import { linkCashPayments } from '../utils/cashSessions';
+
+const TABLE_STATUSES: TableStatus[] = ['FREE', 'SEATED', 'DIRTY'];
+
+// Thrown inside the close transaction when another request closed the tab first
+class TabClosedError extends Error {}
+
+// Thrown inside the close transaction when the tab cannot be settled as requested
+class TabPaymentError extends Error {}
+
+// Orders linked to a table count as an open tab until settled or cancelled
+const openTabWhere = {
+  tabClosedAt: null,
+  status: { not: 'CANCELLED' as OrderStatus }
+} satisfies Prisma.OrderWhereInput;
+
+/**
+ * Load a table and check the user may work with it.
+ * Sends the error response itself and returns null when access is denied.
+ */
+const getAccessibleTable = async (req: Request, res: Response) => {
+  const user = req.user!;
+  const table = await prisma.diningTable.findUnique({
+    where: { id: Number(req.params.tableId) }
+  });
+
+  if (!table) {
+    res.status(404).json({ message: 'Table not found' });
+    return null;
+  }
+
+  if (['CASHIER', 'BRANCH_MANAGER'].includes(user.role) && table.branchId !== user.branchId) {
+    res.status(403).json({ message: 'Unauthorized to access this table' });
+    return null;
+  }
+
+  return table;
+};
+
+// Find the open tab of a table, if any
+const findOpenTab = (db: Prisma.TransactionClient, tableId: number) =>
+  db.order.findFirst({
+    where: { tableId, ...openTabWhere },
+    orderBy: { createdAt: 'desc' }
+  });
+
+// Get tables for a branch
+export const getTables = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const branchId = ['ADMIN', 'GENERAL_MANAGER'].includes(user.role) && req.query.branchId
+      ? Number(req.query.branchId)
+      : user.branchId;
+
+    if (!branchId) {
+      res.status(400).json({ message: 'Branch ID is required' });
+      return;
+    }
+
+    const tables = await prisma.diningTable.findMany({
+      where: { branchId },
+      orderBy: [{ section: 'asc' }, { number: 'asc' }]
+    });
+
+    res.json(tables);
+  } catch (error) {
+    console.error('Error in getTables:', error);
+    handleError(error, res);
+  }
+};
+
+// Create table (branch managers and above)
+export const createTable = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { number, seats, section, branchId } = req.body;
+    const user = req.user!;
+    const targetBranchId = user.role === 'BRANCH_MANAGER' ? user.branchId : Number(branchId);
+    const tableNumber = number !== undefined && number !== null ? String(number).trim() : '';
+
+    if (!tableNumber || !targetBranchId) {
+      res.status(400).json({ message: 'Table number and branch ID are required' });
+      return;
+    }
+
+    if (!Number.isInteger(Number(seats)) || Number(seats) < 1) {
+      res.status(400).json({ message: 'seats must be a whole number of at least 1' });
+      return;
+    }
+
+    const existing = await prisma.diningTable.findUnique({
+      where: { number_branchId: { number: tableNumber, branchId: targetBranchId } }
+    });
+
+    if (existing) {
+      res.status(400).json({ message: 'A table with this number already exists for the branch' });
+      return;
+    }
+
+    const table = await prisma.diningTable.create({
+      data: {
+        number: tableNumber,
+        seats: Number(seats),
+        section: typeof section === 'string' && section.trim() ? section.trim() : null,
+        branchId: targetBranchId
+      }
+    });
+
+    res.status(201).json({
+      message: 'Table created successfully',
+      table
+    });
+  } catch (error) {
+    console.error('Error in createTable:', error);
+    handleError(error, res);
+  }
+};
+
+// Update table number, seats or section
+export const updateTable = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { number, seats, section } = req.body;
+
+    const table = await getAccessibleTable(req, res);
+    if (!table) return;
+
+    const updateData: Prisma.DiningTableUpdateInput = {};
+
+    if (number !== undefined) {
+      const tableNumber = String(number).trim();
+      if (!tableNumber) {
+        res.status(400).json({ message: 'Table number cannot be empty' });
+        return;
+      }
+      const existing = await prisma.diningTable.findUnique({
+        where: { number_branchId: { number: tableNumber, branchId: table.branchId } }
+      });
+      if (existing && existing.id !== table.id) {
+        res.status(400).json({ message: 'A table with this number already exists for the branch' });
+        return;
+      }
+      updateData.number = tableNumber;
+    }
+
+    if (seats !== undefined) {
+      if (!Number.isInteger(Number(seats)) || Number(seats) < 1) {
+        res.status(400).json({ message: 'seats must be a whole number of at least 1' });
+        return;
+      }
+      updateData.seats = Number(seats);
+    }
+
+    if (section !== undefined) {
+      updateData.section = typeof section === 'string' && section.trim() ? section.trim() : null;
+    }
+
+    const updated = await prisma.diningTable.update({
+      where: { id: table.id },
+      data: updateData
+    });
+
+    res.json({
+      message: 'Table updated successfully',
+      table: updated
+    });
+  } catch (error) {
+    console.error('Error in updateTable:', error);
+    handleError(error, res);
+  }
+};
+
+// Delete table - past orders keep their table number
+export const deleteTable = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const table = await getAccessibleTable(req, res);
+    if (!table) return;
+
+    if (await findOpenTab(prisma, table.id)) {
+      res.status(400).json({ message: 'Cannot delete a table with an open tab' });
+      return;
+    }
+
+    const upcomingReservations = await prisma.reservation.count({
+      where: { tableId: table.id, status: 'BOOKED', reservedFor: { gte: new Date() } }
+    });
+    if (upcomingReservations > 0) {
+      res.status(400).json({ message: 'Cannot delete a table with upcoming reservations' });
+      return;
+    }
+
+    await prisma.diningTable.delete({ where: { id: table.id } });
+
+    res.json({ message: 'Table deleted successfully' });
+  } catch (error) {
+    console.error('Error in deleteTable:', error);
+    handleError(error, res);
+  }
+};
+
+// Set table status, e.g. DIRTY → FREE once the table has been cleaned
+export const updateTableStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status } = req.body;
+
+    if (!TABLE_STATUSES.includes(status)) {
+      res.status(400).json({ message: `status must be one of ${TABLE_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const table = await getAccessibleTable(req, res);
+    if (!table) return;
+
+    if (status !== 'SEATED' && await findOpenTab(prisma, table.id)) {
+      res.status(400).json({ message: 'Close the open tab before releasing the table' });
+      return;
+    }
+
+    const updated = await prisma.diningTable.update({
+      where: { id: table.id },
+      data: { status }
+    });
+
+    res.json({
+      message: 'Table status updated successfully',
+      table: updated
+    });
+  } catch (error) {
+    console.error('Error in updateTableStatus:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Open Tab
+ *
+ * @param req - Request with table ID parameter
+ * @param res - Response with the open tab order including items by round
+ */
+export const getTab = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const table = await getAccessibleTable(req, res);
+    if (!table) return;
+
+    const tab = await prisma.order.findFirst({
+      where: { tableId: table.id, ...openTabWhere },
+      include: {
+        items: {
+          include: {
+            menuItem: true,
+            modifiers: true
+          },
+          orderBy: [{ round: 'asc' }, { id: 'asc' }]
+        }
+      }
+    });
+
+    if (!tab) {
+      res.status(404).json({ message: 'No open tab for this table' });
+      return;
+    }
+
+    res.json({ table, tab });
+  } catch (error) {
+    console.error('Error in getTab:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Open Tab
+ *
+ * Seats a party at a free table and opens a dine-in order for it. The first
+ * round of items is optional.
+ *
+ * Request Body:
+ * - customerId (optional): Customer the tab belongs to (defaults to the staff member, like walk-in orders)
+ * - items (optional): First round of items
+ *
+ * @param req - Request with table ID parameter
+ * @param res - Response with the new tab order
+ */
+export const openTab = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { customerId, items = [] } = req.body;
+    const user = req.user!;
+
+    if (!Array.isArray(items)) {
+      res.status(400).json({ message: 'items must be an array' });
+      return;
+    }
+
+    const table = await getAccessibleTable(req, res);
+    if (!table) return;
+
+    const built = await buildOrderItems(items, table.branchId);
+    if (built.error !== undefined) {
+      res.status(built.status).json({ message: built.error });
+      return;
+    }
+
+    // Claim the table, create the tab and take its stock together so a table is never seated twice
+    const tab = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.diningTable.updateMany({
+        where: { id: table.id, status: 'FREE' },
+        data: { status: 'SEATED' }
+      });
+      if (claimed.count === 0) return null;
+
+      const created = await tx.order.create({
+        data: {
+          branchId: table.branchId,
+          customerId: customerId ? Number(customerId) : user.id,
+          status: 'PENDING',
+          totalAmount: built.totalAmount,
+          fulfillmentType: 'DINE_IN',
+          tableId: table.id,
+          tableNumber: table.number,
+          items: {
+            create: built.orderItems
+          },
+          statusEvents: {
+            create: {
+              toStatus: 'PENDING',
+              actorId: user.id,
+              actorRole: user.role,
+              reason: `Tab opened at table ${table.number}`
+            }
+          }
+        },
+        include: {
+          items: {
+            include: {
+              menuItem: true,
+              modifiers: true
+            }
+          }
+        }
+      });
+
+      await deductStock(tx, created.id, built.orderItems);
+
+      return created;
+    });
+
+    if (!tab) {
+      res.status(400).json({ message: `Table ${table.number} is not free` });
+      return;
+    }
+
+    publishOrderEvent('order.created', tab);
+
+    res.status(201).json({
+      message: 'Tab opened successfully',
+      tab
+    });
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      res.status(409).json({ message: error.message, shortages: error.shortages });
+      return;
+    }
+    console.error('Error in openTab:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Add Round to Tab
+ *
+ * Adds another round of items to the open tab. If the earlier rounds were
+ * already ready or served, the order goes back to PREPARING so the new items
+ * show up on the kitchen screens.
+ *
+ * @param req - Request with table ID parameter and items
+ * @param res - Response with the updated tab order
+ */
+export const addTabRound = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { items } = req.body;
+    const user = req.user!;
+
+    if (!Array.isArray(items) || !items.length) {
+      res.status(400).json({ message: 'A round must contain at least one item' });
+      return;
+    }
+
+    const table = await getAccessibleTable(req, res);
+    if (!table) return;
+
+    const built = await buildOrderItems(items, table.branchId);
+    if (built.error !== undefined) {
+      res.status(built.status).json({ message: built.error });
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const tab = await findOpenTab(tx, table.id);
+      if (!tab) return null;
+
+      const lastRound = await tx.orderItem.aggregate({
+        where: { orderId: tab.id },
+        _max: { round: true }
+      });
+      const round = (lastRound._max.round ?? 0) + 1;
+
+      for (const item of built.orderItems) {
+        await tx.orderItem.create({
+          data: { ...item, round, orderId: tab.id }
+        });
+      }
+      await deductStock(tx, tab.id, built.orderItems);
+
+      // Served or ready tabs go back to the kitchen for the new round
+      const nextStatus: OrderStatus = ['READY', 'DELIVERED'].includes(tab.status) ? 'PREPARING' : tab.status;
+      if (nextStatus !== tab.status) {
+        await recordOrderStatusEvent(tx, tab.id, tab.status, nextStatus, user, `Round ${round} added to tab`);
+      }
+
+      const updated = await tx.order.update({
+        where: { id: tab.id },
+        data: {
+          status: nextStatus,
+          totalAmount: { increment: built.totalAmount }
+        },
+        include: {
+          items: {
+            include: {
+              menuItem: true,
+              modifiers: true
+            },
+            orderBy: [{ round: 'asc' }, { id: 'asc' }]
+          }
+        }
+      });
+
+      return { tab: updated, previousStatus: tab.status, round };
+    });
+
+    if (!result) {
+      res.status(404).json({ message: 'No open tab for this table' });
+      return;
+    }
+
+    if (result.tab.status !== result.previousStatus) {
+      publishOrderEvent('order.status_changed', result.tab, result.previousStatus);
+    }
+
+    res.status(201).json({
+      message: `Round ${result.round} added to tab`,
+      round: result.round,
+      tab: result.tab
+    });
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      res.status(409).json({ message: error.message, shortages: error.shortages });
+      return;
+    }
+    console.error('Error in addTabRound:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Close Tab
+ *
+ * Settles the open tab: takes payment for the remaining balance, marks the
+ * order as DELIVERED and leaves the table DIRTY until it has been cleaned.
+ * All rounds must have left the kitchen (order READY or DELIVERED).
+ *
+ * Request Body (either form):
+ * - { method, tipAmount?, tipPercentage? }: One payment for the whole balance
+ * - { payments: [{ method, amount } | { method, orderItemIds }, ...] }: Split bill,
+ *   the legs must cover the balance (each leg may carry a tip)
+ *
+ * @param req - Request with table ID parameter and payment details
+ * @param res - Response with the settled order and payment legs
+ */
+export const closeTab = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { method, tipAmount, tipPercentage, payments } = req.body;
+    const user = req.user!;
+
+    const table = await getAccessibleTable(req, res);
+    if (!table) return;
+
+    const tab = await findOpenTab(prisma, table.id);
+    if (!tab) {
+      res.status(404).json({ message: 'No open tab for this table' });
+      return;
+    }
+
+    // The tab is claimed first, so a concurrent close cannot pay it a second time
+    const result = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.order.updateMany({
+        where: { id: tab.id, ...openTabWhere },
+        data: { tabClosedAt: new Date() }
+      });
+      if (claimed.count === 0) throw new TabClosedError();
+
+      const current = await tx.order.findUniqueOrThrow({
+        where: { id: tab.id },
+        include: { items: true, payments: balancePaymentsArgs }
+      });
+
+      if (!['READY', 'DELIVERED'].includes(current.status)) {
+        throw new TabPaymentError('All rounds must be served before closing the tab');
+      }
+
+      // Nothing to pay for tabs without items (e.g. the party left before ordering)
+      const balanceDue = getBalanceDue(current);
+      const resolved = !payments && balanceDue === 0
+        ? { legs: [], total: 0 }
+        : resolvePaymentLegs(current, payments ?? [{ method, amount: balanceDue, tipAmount, tipPercentage }]);
+      if (resolved.error !== undefined) throw new TabPaymentError(resolved.error);
+
+      if (Math.abs(resolved.total - balanceDue) > PAYMENT_TOLERANCE) {
+        throw new TabPaymentError(`Payments must cover the balance due of ${balanceDue.toFixed(2)}`);
+      }
+
+      const recorded = await recordPaymentLegs(tx, current.id, resolved.legs);
+      await linkCashPayments(tx, user.id, current.branchId, recorded.payments);
+
+      if (current.status !== 'DELIVERED') {
+        await recordOrderStatusEvent(tx, current.id, current.status, 'DELIVERED', user, 'Tab closed');
+      }
+
+      const order = await tx.order.update({
+        where: { id: current.id },
+        data: { status: 'DELIVERED' }
+      });
+
+      await tx.diningTable.update({
+        where: { id: table.id },
+        data: { status: 'DIRTY' }
+      });
+
+      return { order, recorded, previousStatus: current.status };
+    });
+
+    if (result.previousStatus !== 'DELIVERED') {
+      publishOrderEvent('order.status_changed', result.order, result.previousStatus);
+    }
+
+    res.json({
+      message: 'Tab closed successfully',
+      order: result.order,
+      payments: result.recorded.payments
+    });
+  } catch (error) {
+    if (error instanceof TabClosedError) {
+      res.status(409).json({ message: 'The tab has already been closed' });
+      return;
+    }
+    if (error instanceof TabPaymentError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    console.error('Error in closeTab:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Floor State
+ *
+ * Live view of a branch floor: every table with its status and open tab,
+ * grouped by section, plus seat occupancy totals.
+ *
+ * Query Parameters:
+ * - branchId (ADMIN/GENERAL_MANAGER only): Branch to show, defaults to the user's branch
+ *
+ * @param req - Authenticated request
+ * @param res - Response with sections, tables and summary counts
+ */
+export const getFloorState = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const branchId = ['ADMIN', 'GENERAL_MANAGER'].includes(user.role) && req.query.branchId
+      ? Number(req.query.branchId)
+      : user.branchId;
+
+    if (!branchId) {
+      res.status(400).json({ message: 'Branch ID is required' });
+      return;
+    }
+
+    const tables = await prisma.diningTable.findMany({
+      where: { branchId },
+      include: {
+        orders: {
+          where: openTabWhere,
+          include: {
+            items: { select: { quantity: true, round: true } }
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: [{ section: 'asc' }, { number: 'asc' }]
+    });
+
+    const now = Date.now();
+    const sections = new Map<string, any[]>();
+
+    for (const table of tables) {
+      const tab = table.orders[0];
+      const section = table.section || 'Main';
+
+      if (!sections.has(section)) sections.set(section, []);
+      sections.get(section)!.push({
+        id: table.id,
+        number: table.number,
+        seats: table.seats,
+        status: table.status,
+        tab: tab ? {
+          orderId: tab.id,
+          status: tab.status,
+          totalAmount: tab.totalAmount,
+          itemCount: tab.items.reduce((sum, item) => sum + item.quantity, 0),
+          rounds: tab.items.reduce((max, item) => Math.max(max, item.round), 0),
+          openedAt: tab.createdAt,
+          minutesOpen: Math.floor((now - tab.createdAt.getTime()) / 60000)
+        } : null
+      });
+    }
+
+    const countByStatus = (status: TableStatus) => tables.filter(table => table.status === status).length;
+
+    res.json({
+      branchId,
+      summary: {
+        totalTables: tables.length,
+        free: countByStatus('FREE'),
+        seated: countByStatus('SEATED'),
+        dirty: countByStatus('DIRTY'),
+        totalSeats: tables.reduce((sum, table) => sum + table.seats, 0),
+        occupiedSeats: tables
+          .filter(table => table.status === 'SEATED')
+          .reduce((sum, table) => sum + table.seats, 0),
+        openTabsTotal: tables.reduce((sum, table) => sum + (table.orders[0]?.totalAmount || 0), 0)
+      },
+      sections: Array.from(sections, ([name, sectionTables]) => ({ name, tables: sectionTables }))
+    });
+  } catch (error) {
+    console.error('Error in getFloorState:', error);
+    handleError(error, res);
+  }
+};
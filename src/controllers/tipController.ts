@@ -0,0 +1,299 @@
+/**
+ * Tip Controller
+ *
+ * This module handles tip settings and the tip pool. Guests add tips when
+ * paying (see paymentController); tips collected at a branch are shared
+ * between the staff who worked, according to the branch's pool rules.
+ *
+ * Features:
+ * - Suggested tips for an order from the branch's presets
+ * - Tip settings per branch: presets, pool method and role weights
+ * - Tip distribution report for a day or a shift (time window)
+ *
+ * Role-Based Access:
+ * - CUSTOMER/CASHIER: Suggested tips for an order (own orders / own branch)
+ * - BRANCH_MANAGER: Settings and distribution report for their branch
+ * - ADMIN/GENERAL_MANAGER: All branches
+ */
+
+import { Request, Response } from 'express';
+import { Role, TipPoolMethod } from '@prisma/client';
+import { handleError } from '../utils/errorHandler';
+import prisma from '../utils/prisma';
+import { balancePaymentsArgs, COLLECTED_PAYMENT_STATUSES, getBalanceDue, roundCurrency } from '../utils/payments';
+import { ISSUED_REFUND_STATUSES } from '../utils/refunds';
+import { formatLocalDate, getNextLocalDay, parseLocalDate } from '../utils/scheduling';
+import { distributeTips, getShiftHours, getSuggestedTips, TipPoolParticipant } from '../utils/tips';
+
+const MAX_TIP_PRESETS = 6;
+
+// Roles that can work shifts and share the tip pool
+const STAFF_ROLES: Role[] = ['CHEF', 'CASHIER', 'DRIVER', 'BRANCH_MANAGER'];
+
+/**
+ * Get Tip Suggestions
+ *
+ * @param req - Request with order ID parameter
+ * @param res - Response with the branch's presets worked out on the balance due
+ */
+export const getTipSuggestions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orderId } = req.params;
+    const user = req.user!;
+
+    const order = await prisma.order.findUnique({
+      where: { id: Number(orderId) },
+      include: {
+        payments: balancePaymentsArgs,
+        branch: { select: { tipPresets: true } }
+      }
+    });
+
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    if (user.role === 'CUSTOMER' && order.customerId !== user.id) {
+      res.status(403).json({ message: 'Unauthorized to view this order' });
+      return;
+    }
+
+    if (user.role === 'CASHIER' && order.branchId !== user.branchId) {
+      res.status(403).json({ message: 'Unauthorized to view this order' });
+      return;
+    }
+
+    const balanceDue = getBalanceDue(order);
+
+    res.json({
+      orderId: order.id,
+      balanceDue,
+      suggestedTips: getSuggestedTips(order.branch.tipPresets, balanceDue)
+    });
+  } catch (error) {
+    console.error('Error in getTipSuggestions:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Update Tip Settings
+ *
+ * Request Body (all optional):
+ * - tipPresets: Suggested tip percentages, e.g. [10, 15, 20]
+ * - tipPoolMethod: EQUAL, HOURS_WORKED or ROLE_WEIGHTED
+ * - roleWeights: { ROLE: weight } for ROLE_WEIGHTED; replaces the current weights
+ *
+ * @param req - Request with branch ID parameter
+ * @param res - Response with the branch's tip settings
+ */
+export const updateTipSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { branchId } = req.params;
+    const { tipPresets, tipPoolMethod, roleWeights } = req.body;
+
+    const branch = await prisma.branch.findUnique({ where: { id: Number(branchId) } });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    if (tipPresets !== undefined) {
+      if (
+        !Array.isArray(tipPresets)
+        || tipPresets.length > MAX_TIP_PRESETS
+        || tipPresets.some(value => !Number.isInteger(value) || value <= 0 || value > 100)
+      ) {
+        res.status(400).json({ message: `tipPresets must be a list of up to ${MAX_TIP_PRESETS} whole percentages between 1 and 100` });
+        return;
+      }
+    }
+
+    if (tipPoolMethod !== undefined && !Object.values(TipPoolMethod).includes(tipPoolMethod)) {
+      res.status(400).json({ message: `tipPoolMethod must be one of ${Object.values(TipPoolMethod).join(', ')}` });
+      return;
+    }
+
+    let weights: { role: Role; weight: number }[] | undefined;
+    if (roleWeights !== undefined) {
+      if (typeof roleWeights !== 'object' || roleWeights === null || Array.isArray(roleWeights)) {
+        res.status(400).json({ message: 'roleWeights must be an object of role weights' });
+        return;
+      }
+      weights = [];
+      for (const [role, weight] of Object.entries(roleWeights)) {
+        if (!STAFF_ROLES.includes(role as Role)) {
+          res.status(400).json({ message: `roleWeights roles must be among ${STAFF_ROLES.join(', ')}` });
+          return;
+        }
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+          res.status(400).json({ message: `Weight of ${role} must be a number of at least 0` });
+          return;
+        }
+        weights.push({ role: role as Role, weight });
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (weights) {
+        await tx.tipPoolRoleWeight.deleteMany({ where: { branchId: branch.id } });
+        await tx.tipPoolRoleWeight.createMany({
+          data: weights.map(entry => ({ ...entry, branchId: branch.id }))
+        });
+      }
+
+      return tx.branch.update({
+        where: { id: branch.id },
+        data: {
+          ...(tipPresets !== undefined && { tipPresets }),
+          ...(tipPoolMethod !== undefined && { tipPoolMethod })
+        },
+        select: {
+          id: true,
+          name: true,
+          tipPresets: true,
+          tipPoolMethod: true,
+          tipRoleWeights: { select: { role: true, weight: true } }
+        }
+      });
+    });
+
+    res.json({
+      message: 'Tip settings updated successfully',
+      branch: updated
+    });
+  } catch (error) {
+    console.error('Error in updateTipSettings:', error);
+    handleError(error, res);
+  }
+};
+
+/**
+ * Get Tip Distribution
+ *
+ * Shares the tips collected at a branch in a period between the staff who
+ * worked in it. The period is a day, or a shift given as a time window.
+ * Tips returned with refunds are left out of the pool.
+ *
+ * Query Parameters:
+ * - date: Day in YYYY-MM-DD format (defaults to today), or
+ * - from, to: Start and end of a shift (ISO date-times)
+ * - branchId: Branch (BRANCH_MANAGER: their own branch)
+ *
+ * @param req - Authenticated manager request
+ * @param res - Response with the pool and each staff member's share
+ */
+export const getTipDistribution = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { date, from, to } = req.query;
+    const user = req.user!;
+
+    const branchId = user.role === 'BRANCH_MANAGER' ? user.branchId : Number(req.query.branchId);
+    if (!branchId) {
+      res.status(400).json({ message: 'branchId is required' });
+      return;
+    }
+
+    let start: Date;
+    let end: Date;
+    if (from !== undefined || to !== undefined) {
+      start = new Date(String(from));
+      end = new Date(String(to));
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+        res.status(400).json({ message: 'from and to must be valid date-times with to later than from' });
+        return;
+      }
+    } else {
+      const now = new Date();
+      const day = date ? parseLocalDate(String(date)) : new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      if (!day) {
+        res.status(400).json({ message: 'date must be in YYYY-MM-DD format' });
+        return;
+      }
+      start = day;
+      end = getNextLocalDay(day);
+    }
+
+    const branch = await prisma.branch.findUnique({
+      where: { id: branchId },
+      select: {
+        id: true,
+        name: true,
+        tipPoolMethod: true,
+        tipRoleWeights: { select: { role: true, weight: true } }
+      }
+    });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const [payments, shifts] = await Promise.all([
+      prisma.payment.findMany({
+        where: {
+          order: { branchId },
+          status: { in: COLLECTED_PAYMENT_STATUSES },
+          tipAmount: { gt: 0 },
+          createdAt: { gte: start, lt: end }
+        },
+        select: {
+          method: true,
+          tipAmount: true,
+          refunds: { where: { status: { in: ISSUED_REFUND_STATUSES } }, select: { tipAmount: true } }
+        }
+      }),
+      prisma.staffShift.findMany({
+        where: {
+          branchId,
+          clockedInAt: { lt: end },
+          OR: [{ clockedOutAt: null }, { clockedOutAt: { gt: start } }]
+        },
+        include: { user: { select: { id: true, username: true, role: true } } }
+      })
+    ]);
+
+    const byMethod: Record<string, number> = {};
+    let totalTips = 0;
+    for (const payment of payments) {
+      const net = payment.tipAmount - payment.refunds.reduce((sum, refund) => sum + refund.tipAmount, 0);
+      if (net <= 0) continue;
+      byMethod[payment.method] = roundCurrency((byMethod[payment.method] ?? 0) + net);
+      totalTips += net;
+    }
+    totalTips = roundCurrency(totalTips);
+
+    const participants = new Map<number, TipPoolParticipant>();
+    for (const shift of shifts) {
+      const entry = participants.get(shift.user.id)
+        ?? { userId: shift.user.id, username: shift.user.username, role: shift.user.role, hours: 0 };
+      entry.hours += getShiftHours(shift, start, end);
+      participants.set(shift.user.id, entry);
+    }
+
+    const roleWeights = Object.fromEntries(branch.tipRoleWeights.map(entry => [entry.role, entry.weight]));
+    const distribution = distributeTips(totalTips, [...participants.values()], branch.tipPoolMethod, roleWeights);
+    const distributed = roundCurrency(distribution.reduce((sum, share) => sum + share.amount, 0));
+
+    res.json({
+      branch: { id: branch.id, name: branch.name },
+      period: {
+        start,
+        end,
+        date: from === undefined && to === undefined ? formatLocalDate(start) : null
+      },
+      tipPoolMethod: branch.tipPoolMethod,
+      roleWeights,
+      totalTips,
+      tipsByMethod: byMethod,
+      tippedPayments: payments.length,
+      distributed,
+      // Nobody eligible worked in the period (e.g. no shifts recorded)
+      undistributed: roundCurrency(totalTips - distributed),
+      distribution
+    });
+  } catch (error) {
+    console.error('Error in getTipDistribution:', error);
+    handleError(error, res);
+  }
+};
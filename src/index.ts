@@ -18,6 +18,15 @@ import categoryRoutes from './routes/categoryRoutes';   // Menu categories
 import receiptRoutes from './routes/receipts';          // Receipt management
 import postRoutes from './routes/postRoutes';           // Customer reviews/posts
 import commentRoutes from './routes/commentRoutes';     // Comments on posts
+import kitchenRoutes from './routes/kitchenRoutes';     // Kitchen display system
+import tableRoutes from './routes/tableRoutes';         // Tables and dine-in tabs
+import reservationRoutes from './routes/reservationRoutes'; // Table reservations
+import refundRoutes from './routes/refundRoutes';       // Partial and full refunds
+import deliveryRoutes from './routes/deliveryRoutes';   // Delivery dispatch and tracking
+import cartRoutes from './routes/cartRoutes';           // Customer carts and checkout
+import tipRoutes from './routes/tipRoutes';             // Tip suggestions and tip pool
+import cashSessionRoutes from './routes/cashSessionRoutes'; // Cash drawer sessions
+import giftCardRoutes from './routes/giftCardRoutes';   // Gift cards and balances
 import dotenv from 'dotenv';                            // Environment variable management
 import cors from 'cors';                                // Cross-Origin Resource Sharing
 import { seedAdminUser } from './utils/seedAdmin';      // Create default admin user
@@ -32,9 +41,14 @@ const port = 3001; // Server will run on localhost:3001
 // === MIDDLEWARE SETUP ===
 // CORS: Allow frontend (React) to communicate with backend from different port
 app.use(cors({
-  origin: process.env.FRONTEND_URL || 'https://steakz-final-frontend.onrender.com'
+  origin: process.env.FRONTEND_URL || 'https://steakz-final-frontend.onrender.com',
+  exposedHeaders: ['Idempotent-Replayed']  // Lets clients detect replayed responses
 }));
 
+// Raw Parser: Payment webhooks are signed over the exact bytes received,
+// so they skip the JSON parser
+app.use('/api/payments/webhooks', express.raw({ type: '*/*' }));
+
 // JSON Parser: Parse incoming JSON request bodies
 app.use(express.json());
 
@@ -55,13 +69,22 @@ app.use('/api/menu', menuRoutes);               // Menu management
 app.use('/api/menu-items', menuRoutes);         // Alias for frontend compatibility
 app.use('/api/inventory', inventoryRoutes);     // Inventory tracking
 app.use('/api/orders', orderRoutes);            // Order processing
+app.use('/api/deliveries', deliveryRoutes);     // Driver dispatch and delivery tracking
+app.use('/api/cart', cartRoutes);               // Customer carts per branch
 app.use('/api/payments', paymentRoutes);        // Payment handling
+app.use('/api/refunds', refundRoutes);          // Refunds against payments
+app.use('/api/tips', tipRoutes);                // Tip suggestions and tip pool distribution
+app.use('/api/cash-sessions', cashSessionRoutes); // Cash drawers and end-of-shift reconciliation
+app.use('/api/gift-cards', giftCardRoutes);     // Gift cards, ledger and liability report
 app.use('/api/data-export', dataExportRoutes);  // Export reports/data
 app.use('/api/admin-dashboard', adminDashboardRoutes); // Admin dashboard
 app.use('/api/categories', categoryRoutes);     // Menu categories
 app.use('/api/receipts', receiptRoutes);        // Receipt management
 app.use('/api/posts', postRoutes);              // Customer reviews/feedback
 app.use('/api/comments', commentRoutes);        // Comments on reviews
+app.use('/api/kitchen', kitchenRoutes);         // Kitchen display system (stations, bump, recall)
+app.use('/api/tables', tableRoutes);            // Floor plan, table status and open tabs
+app.use('/api/reservations', reservationRoutes); // Table reservations and availability
 
 // === SERVER STARTUP ===
 // Start the server and seed initial admin user
@@ -75,7 +98,13 @@ app.listen(port, async () => {
     console.log('   - Branch Dashboard: /api/branch-dashboard/*');
     console.log('   - Menu Management: /api/menu/*');
     console.log('   - Orders: /api/orders/*');
+    console.log('   - Deliveries: /api/deliveries/*');
+    console.log('   - Cart: /api/cart/*');
+    console.log('   - Kitchen Display: /api/kitchen/*');
+    console.log('   - Tables & Tabs: /api/tables/*');
+    console.log('   - Reservations: /api/reservations/*');
     console.log('   - Payments: /api/payments/*');
+    console.log('   - Refunds: /api/refunds/*');
     console.log('   - Inventory: /api/inventory/*');
     console.log('   - Admin Dashboard: /api/admin-dashboard/*');
     console.log('   - Reviews/Posts: /api/posts/*');
@@ -0,0 +1,187 @@
+/**
+ * Idempotency Middleware
+ *
+ * Protects non-idempotent endpoints (order creation, payments, receipts)
+ * against double-submits from flaky connections. Clients send a unique
+ * `Idempotency-Key` header per logical request and reuse it on retries.
+ *
+ * Behaviour:
+ * - No header: the request is processed normally
+ * - First request for a key: processed, and the response is stored per key and user
+ * - Retry with the same key and body: the stored response is replayed
+ *   (with an `Idempotent-Replayed: true` header)
+ * - Same key with a different request: 422
+ * - Same key while the first request is still running: 409
+ * - Server errors (5xx) and retryable client errors (408, 409 conflicts such as
+ *   "please try again", 429) are not stored, so the client can retry with the
+ *   same key
+ * - The response is only sent once it is stored, so an immediate retry is
+ *   replayed instead of seeing the key as still running
+ *
+ * Stored responses are kept for IDEMPOTENCY_TTL_HOURS (default 24 hours).
+ * Must run after authenticateToken.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+
+const HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+const TTL_MS = Number(process.env.IDEMPOTENCY_TTL_HOURS || 24) * 60 * 60 * 1000;
+
+// Client errors that may succeed when retried; the key is released instead of storing them
+const RETRYABLE_STATUSES = [408, 409, 429];
+
+// Expired keys are purged at most this often per process
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPurge = 0;
+
+/**
+ * Serialize a value with sorted object keys so equal bodies hash equally
+ */
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const purgeExpiredKeys = async (): Promise<void> => {
+  const now = Date.now();
+  if (now - lastPurge < PURGE_INTERVAL_MS) return;
+  lastPurge = now;
+  await prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lt: new Date(now) } } });
+};
+
+/**
+ * Idempotency Key Middleware
+ *
+ * @example
+ * router.post('/', authorizeRole(['CUSTOMER']), idempotent(), asyncHandler(createOrder));
+ *
+ * @returns Middleware that stores and replays responses per Idempotency-Key
+ */
+export const idempotent = () => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = req.header(HEADER);
+    if (!key) {
+      next();
+      return;
+    }
+
+    (async () => {
+      const user = req.user;
+      if (!user) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      if (key.length > MAX_KEY_LENGTH) {
+        res.status(400).json({ message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+        return;
+      }
+
+      await purgeExpiredKeys();
+
+      const path = req.originalUrl.split('?')[0];
+      const requestHash = crypto
+        .createHash('sha256')
+        .update(`${req.method} ${path} ${canonicalize(req.body ?? null)}`)
+        .digest('hex');
+
+      let record;
+      try {
+        record = await prisma.idempotencyKey.create({
+          data: {
+            key,
+            userId: user.id,
+            method: req.method,
+            path,
+            requestHash,
+            expiresAt: new Date(Date.now() + TTL_MS)
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        const existing = await prisma.idempotencyKey.findUnique({
+          where: { key_userId: { key, userId: user.id } }
+        });
+
+        if (!existing) {
+          // Released between the insert and the lookup (the first request failed)
+          res.status(409).json({ message: 'A request with this Idempotency-Key is still being processed' });
+          return;
+        }
+
+        if (existing.expiresAt < new Date()) {
+          // Past the retention window the key starts over as a new request
+          record = await prisma.idempotencyKey.update({
+            where: { id: existing.id },
+            data: {
+              method: req.method,
+              path,
+              requestHash,
+              responseStatus: null,
+              responseBody: Prisma.DbNull,
+              createdAt: new Date(),
+              expiresAt: new Date(Date.now() + TTL_MS)
+            }
+          });
+        } else if (existing.requestHash !== requestHash) {
+          res.status(422).json({ message: 'Idempotency-Key was already used with a different request' });
+          return;
+        } else if (existing.responseStatus === null) {
+          res.status(409).json({ message: 'A request with this Idempotency-Key is still being processed' });
+          return;
+        } else {
+          res.setHeader('Idempotent-Replayed', 'true');
+          res.status(existing.responseStatus).json(existing.responseBody);
+          return;
+        }
+      }
+
+      const recordId = record.id;
+
+      // Capture the first JSON response for this key and send it once stored
+      let stored = false;
+      const originalJson = res.json.bind(res);
+      res.json = (body: any) => {
+        if (stored) return originalJson(body);
+        stored = true;
+
+        const persist = res.statusCode < 500 && !RETRYABLE_STATUSES.includes(res.statusCode)
+          ? prisma.idempotencyKey.update({
+            where: { id: recordId },
+            data: { responseStatus: res.statusCode, responseBody: body ?? Prisma.DbNull }
+          })
+          : prisma.idempotencyKey.delete({ where: { id: recordId } });
+        persist
+          .catch(error => console.error('Failed to store idempotent response:', error))
+          .finally(() => originalJson(body));
+        return res;
+      };
+
+      // Release the key if the request ends without a JSON response (e.g. an unhandled error)
+      res.on('finish', () => {
+        if (!stored) {
+          stored = true;
+          prisma.idempotencyKey.delete({ where: { id: recordId } })
+            .catch(error => console.error('Failed to release idempotency key:', error));
+        }
+      });
+
+      next();
+    })().catch(next);
+  };
+};
@@ -1,6 +1,17 @@
 import { Router } from 'express';
 import prisma from '../utils/prisma';
-import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+import { authenticateToken, authorizeRole, authorizeBranchAccess } from '../middleware/authMiddleware';
+import { getAvailableSlots, updateSlotSettings } from '../controllers/slotController';
+import {
+  createDeliveryZone,
+  deleteDeliveryZone,
+  findClosestBranch,
+  getDeliveryZones,
+  updateBranchLocation,
+  updateDeliveryZone
+} from '../controllers/deliveryZoneController';
+import { updateBranchPaymentProvider } from '../controllers/paymentController';
+import { updateTipSettings } from '../controllers/tipController';
 
 const router = Router();
 
@@ -105,41 +116,94 @@ router.post('/', authenticateToken, authorizeRole(['ADMIN', 'GENERAL_MANAGER']),
   })().catch(next);
 });
 
-// POST /api/branches/closest - find the closest branch by address
+// POST /api/branches/closest - find the branch delivering to an address (by delivery zone and distance)
 router.post('/closest', (req, res, next) => {
-  (async () => {
-    try {
-      const { address } = req.body;
-      if (!address || typeof address !== 'string') {
-        return res.status(400).json({ error: 'Address is required' });
-      }
-      // Fetch all branches
-      const branches = await prisma.branch.findMany();
-      if (!branches.length) {
-        return res.status(404).json({ error: 'No branches found' });
-      }
-      // Simple string similarity for demo; replace with geocoding in production
-      const normalize = (str: string) => str.toLowerCase().replace(/[^a-z0-9]/g, '');
-      const input = normalize(address);
-      let best = branches[0];
-      let bestScore = 0;
-      for (const branch of branches) {
-        const branchNorm = normalize(branch.address || '');
-        // Count matching characters from start
-        let score = 0;
-        for (let i = 0; i < Math.min(branchNorm.length, input.length); i++) {
-          if (branchNorm[i] === input[i]) score++;
-        }
-        if (score > bestScore) {
-          best = branch;
-          bestScore = score;
-        }
-      }
-      return res.json({ id: best.id, name: best.name, address: best.address });
-    } catch (error) {
-      return res.status(500).json({ error: 'Failed to find closest branch' });
-    }
-  })().catch(next);
+  findClosestBranch(req, res).catch(next);
+});
+
+// GET /api/branches/:branchId/slots - list scheduled pickup/delivery slots for a day (no auth required)
+router.get('/:branchId/slots', (req, res, next) => {
+  getAvailableSlots(req, res).catch(next);
 });
 
+// PUT /api/branches/:branchId/slot-settings - update opening hours and slot capacity
+router.put('/:branchId/slot-settings',
+  authenticateToken,
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  authorizeBranchAccess(),
+  (req, res, next) => {
+    updateSlotSettings(req, res).catch(next);
+  }
+);
+
+// PUT /api/branches/:branchId/payment-provider - choose the gateway used for card and mobile payments
+router.put('/:branchId/payment-provider',
+  authenticateToken,
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  authorizeBranchAccess(),
+  (req, res, next) => {
+    updateBranchPaymentProvider(req, res).catch(next);
+  }
+);
+
+// PUT /api/branches/:branchId/tip-settings - suggested tips and tip pool rules
+router.put('/:branchId/tip-settings',
+  authenticateToken,
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  authorizeBranchAccess(),
+  (req, res, next) => {
+    updateTipSettings(req, res).catch(next);
+  }
+);
+
+// PUT /api/branches/:branchId/location - set the branch map location used for delivery routing
+router.put('/:branchId/location',
+  authenticateToken,
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  authorizeBranchAccess(),
+  (req, res, next) => {
+    updateBranchLocation(req, res).catch(next);
+  }
+);
+
+// GET /api/branches/:branchId/delivery-zones - list the delivery zones of a branch
+router.get('/:branchId/delivery-zones',
+  authenticateToken,
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  authorizeBranchAccess(),
+  (req, res, next) => {
+    getDeliveryZones(req, res).catch(next);
+  }
+);
+
+// POST /api/branches/:branchId/delivery-zones - add a radius or polygon delivery zone
+router.post('/:branchId/delivery-zones',
+  authenticateToken,
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  authorizeBranchAccess(),
+  (req, res, next) => {
+    createDeliveryZone(req, res).catch(next);
+  }
+);
+
+// PUT /api/branches/:branchId/delivery-zones/:zoneId - update or (de)activate a delivery zone
+router.put('/:branchId/delivery-zones/:zoneId',
+  authenticateToken,
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  authorizeBranchAccess(),
+  (req, res, next) => {
+    updateDeliveryZone(req, res).catch(next);
+  }
+);
+
+// DELETE /api/branches/:branchId/delivery-zones/:zoneId - remove a delivery zone
+router.delete('/:branchId/delivery-zones/:zoneId',
+  authenticateToken,
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  authorizeBranchAccess(),
+  (req, res, next) => {
+    deleteDeliveryZone(req, res).catch(next);
+  }
+);
+
 export default router;
@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import {
+  getCarts,
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+  checkoutCart
+} from '../controllers/cartController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotency';
+
+const router = Router();
+
+// Carts belong to customers
+router.use(authenticateToken);
+router.use(authorizeRole(['CUSTOMER']));
+
+// Active carts of the customer (one per branch)
+router.get('/', (req, res, next) => {
+  getCarts(req, res).catch(next);
+});
+
+// Cart for a branch with current prices
+router.get('/:branchId', (req, res, next) => {
+  getCart(req, res).catch(next);
+});
+
+// Empty the cart for a branch
+router.delete('/:branchId', (req, res, next) => {
+  clearCart(req, res).catch(next);
+});
+
+// Add an item to the cart
+router.post('/:branchId/items', (req, res, next) => {
+  addCartItem(req, res).catch(next);
+});
+
+// Update quantity, modifiers or notes of a cart line
+router.patch('/:branchId/items/:itemId', (req, res, next) => {
+  updateCartItem(req, res).catch(next);
+});
+
+// Remove a cart line
+router.delete('/:branchId/items/:itemId', (req, res, next) => {
+  removeCartItem(req, res).catch(next);
+});
+
+// Convert the cart into an order
+router.post('/:branchId/checkout', idempotent(), (req, res, next) => {
+  checkoutCart(req, res).catch(next);
+});
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import {
+  openCashSession,
+  getCurrentCashSession,
+  addCashMovement,
+  closeCashSession,
+  getCashSession,
+  getCashSessions,
+  getCashVariances
+} from '../controllers/cashSessionController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All cash session routes require authentication
+router.use(authenticateToken);
+
+// Open a cash drawer with a float
+router.post('/',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER']),
+  (req, res, next) => {
+    openCashSession(req, res).catch(next);
+  }
+);
+
+// List cash sessions
+router.get('/',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getCashSessions(req, res).catch(next);
+  }
+);
+
+// The user's open cash session with the expected cash so far
+router.get('/current',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER']),
+  (req, res, next) => {
+    getCurrentCashSession(req, res).catch(next);
+  }
+);
+
+// Closed sessions with large variances
+router.get('/variances',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getCashVariances(req, res).catch(next);
+  }
+);
+
+// Get a cash session with its movements and reconciliation
+router.get('/:id',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getCashSession(req, res).catch(next);
+  }
+);
+
+// Record a pay-in or pay-out
+router.post('/:id/movements',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER']),
+  (req, res, next) => {
+    addCashMovement(req, res).catch(next);
+  }
+);
+
+// Count the drawer and close the session
+router.post('/:id/close',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER']),
+  (req, res, next) => {
+    closeCashSession(req, res).catch(next);
+  }
+);
+
+export default router;
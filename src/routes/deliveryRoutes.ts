@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import {
+  getDispatchBoard,
+  assignDriver,
+  getMyDeliveries,
+  pickUpDelivery,
+  completeDelivery,
+  recordDriverLocation,
+  getDeliveryStatus
+} from '../controllers/deliveryController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All delivery routes require authentication
+router.use(authenticateToken);
+
+// Dispatch board (open delivery orders and driver workloads) - accessible by front-of-house staff and management
+router.get('/',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getDispatchBoard(req, res).catch(next);
+  }
+);
+
+// Active deliveries of the logged-in driver
+router.get('/my',
+  authorizeRole(['DRIVER']),
+  (req, res, next) => {
+    getMyDeliveries(req, res).catch(next);
+  }
+);
+
+// Driver location ping
+router.post('/location',
+  authorizeRole(['DRIVER']),
+  (req, res, next) => {
+    recordDriverLocation(req, res).catch(next);
+  }
+);
+
+// Assign a driver (or auto-assign the least busy one) - accessible by front-of-house staff and management
+router.post('/:orderId/assign',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    assignDriver(req, res).catch(next);
+  }
+);
+
+// Driver picks up a ready order
+router.post('/:orderId/pickup',
+  authorizeRole(['DRIVER']),
+  (req, res, next) => {
+    pickUpDelivery(req, res).catch(next);
+  }
+);
+
+// Mark an order as delivered - the assigned driver or branch management
+router.post('/:orderId/delivered',
+  authorizeRole(['DRIVER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    completeDelivery(req, res).catch(next);
+  }
+);
+
+// Delivery status and driver location - customers for their own orders, staff for their branch
+router.get('/:orderId/status',
+  authorizeRole(['CUSTOMER', 'DRIVER', 'CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getDeliveryStatus(req, res).catch(next);
+  }
+);
+
+export default router;
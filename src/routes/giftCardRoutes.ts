@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import {
+  issueGiftCard,
+  getGiftCardBalance,
+  getGiftCard,
+  reloadGiftCard,
+  expireGiftCardByCode,
+  expireDueCards,
+  getGiftCardLiability
+} from '../controllers/giftCardController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All gift card routes require authentication
+router.use(authenticateToken);
+
+// Sell a gift card
+router.post('/',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    issueGiftCard(req, res).catch(next);
+  }
+);
+
+// Outstanding balances report
+router.get('/liability',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getGiftCardLiability(req, res).catch(next);
+  }
+);
+
+// Expire all cards past their expiry date
+router.post('/expire-due',
+  authorizeRole(['GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    expireDueCards(req, res).catch(next);
+  }
+);
+
+// Check the balance of a card
+router.get('/:code/balance', (req, res, next) => {
+  getGiftCardBalance(req, res).catch(next);
+});
+
+// Get a card with its ledger
+router.get('/:code',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getGiftCard(req, res).catch(next);
+  }
+);
+
+// Add to the balance of a card
+router.post('/:code/reload',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    reloadGiftCard(req, res).catch(next);
+  }
+);
+
+// Expire a card and write off its balance
+router.post('/:code/expire',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    expireGiftCardByCode(req, res).catch(next);
+  }
+);
+
+export default router;
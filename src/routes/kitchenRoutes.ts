@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import {
+  getStations,
+  createStation,
+  deleteStation,
+  assignStationMenuItems,
+  getStationQueue,
+  getRecentlyBumped,
+  bumpItem,
+  bumpTicket,
+  recallTicket
+} from '../controllers/kitchenController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All kitchen routes require authentication
+router.use(authenticateToken);
+
+// Station list - accessible by kitchen staff and management
+router.get('/stations',
+  authorizeRole(['CHEF', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getStations(req, res).catch(next);
+  }
+);
+
+// Create station - accessible by branch managers and above
+router.post('/stations',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    createStation(req, res).catch(next);
+  }
+);
+
+// Delete station - accessible by branch managers and above
+router.delete('/stations/:stationId',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    deleteStation(req, res).catch(next);
+  }
+);
+
+// Route menu items to a station - accessible by branch managers and above
+router.put('/stations/:stationId/menu-items',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    assignStationMenuItems(req, res).catch(next);
+  }
+);
+
+// Station ticket queue - accessible by kitchen staff and management
+router.get('/stations/:stationId/queue',
+  authorizeRole(['CHEF', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getStationQueue(req, res).catch(next);
+  }
+);
+
+// Recently bumped tickets available for recall
+router.get('/stations/:stationId/bumped',
+  authorizeRole(['CHEF', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getRecentlyBumped(req, res).catch(next);
+  }
+);
+
+// Bump all open items of an order at a station
+router.post('/stations/:stationId/tickets/:orderId/bump',
+  authorizeRole(['CHEF', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    bumpTicket(req, res).catch(next);
+  }
+);
+
+// Recall a bumped ticket back onto the station queue
+router.post('/stations/:stationId/tickets/:orderId/recall',
+  authorizeRole(['CHEF', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    recallTicket(req, res).catch(next);
+  }
+);
+
+// Bump a single order item
+router.post('/items/:orderItemId/bump',
+  authorizeRole(['CHEF', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    bumpItem(req, res).catch(next);
+  }
+);
+
+export default router;
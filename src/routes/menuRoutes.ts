@@ -5,6 +5,14 @@ import {
     updateMenuItem,
     deleteMenuItem
 } from '../controllers/menuController';
+import {
+    createModifierGroup,
+    updateModifierGroup,
+    deleteModifierGroup,
+    addModifierOption,
+    updateModifierOption,
+    deleteModifierOption
+} from '../controllers/modifierController';
 import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
 
 const router = Router();
@@ -35,4 +43,41 @@ router.delete('/:id',
     deleteMenuItem
 );
 
+// Modifier groups and options - accessible by ADMIN, GENERAL_MANAGER, and BRANCH_MANAGER
+router.post('/:id/modifier-groups',
+    authenticateToken,
+    authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+    createModifierGroup
+);
+
+router.put('/modifier-groups/:groupId',
+    authenticateToken,
+    authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+    updateModifierGroup
+);
+
+router.delete('/modifier-groups/:groupId',
+    authenticateToken,
+    authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+    deleteModifierGroup
+);
+
+router.post('/modifier-groups/:groupId/options',
+    authenticateToken,
+    authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+    addModifierOption
+);
+
+router.put('/modifier-options/:optionId',
+    authenticateToken,
+    authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+    updateModifierOption
+);
+
+router.delete('/modifier-options/:optionId',
+    authenticateToken,
+    authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+    deleteModifierOption
+);
+
 export default router;
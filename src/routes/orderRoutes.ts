@@ -3,10 +3,16 @@ import {
     getOrders,
     createOrder,
     updateOrderStatus,
-    deleteOrder
+    deleteOrder,
+    getOrderHistory,
+    reorderOrder,
+    streamOrders,
+    getOrderQueuePosition
 } from '../controllers/orderController';
+import { addOrderItems, updateOrderItem, removeOrderItem } from '../controllers/orderAmendmentController';
+import { cancelOwnOrder, getCancellationAnalytics } from '../controllers/cancellationController';
 import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
-import prisma from '../utils/prisma';
+import { idempotent } from '../middleware/idempotency';
 
 const router = Router();
 
@@ -17,6 +23,12 @@ router.use(authenticateToken);
 // Different roles get different views based on controller logic
 router.get('/', authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER', 'CHEF', 'CASHIER', 'CUSTOMER']), asyncHandler(getOrders));
 
+// Stream order events (Server-Sent Events) - same role-based visibility as GET /
+router.get('/stream', authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER', 'CHEF', 'CASHIER', 'CUSTOMER']), streamOrders);
+
+// Cancellation analytics by reason, branch and staff member - accessible by managers
+router.get('/cancellations', authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']), asyncHandler(getCancellationAnalytics));
+
 // Create order - accessible by customers and cashiers
 function asyncHandler(fn: any) {
     return function (req: any, res: any, next: any) {
@@ -26,6 +38,7 @@ function asyncHandler(fn: any) {
 
 router.post('/',
     authorizeRole(['CUSTOMER', 'CASHIER']),
+    idempotent(),
     asyncHandler(createOrder)
 );
 
@@ -35,93 +48,52 @@ router.patch('/:id/status',
     updateOrderStatus
 );
 
+// Cancel own pending order within the branch's cancel window - accessible by customers
+router.post('/:id/cancel',
+    authorizeRole(['CUSTOMER']),
+    asyncHandler(cancelOwnOrder)
+);
+
+// Reorder a past order at current prices - accessible by customers and cashiers
+router.post('/:id/reorder',
+    authorizeRole(['CUSTOMER', 'CASHIER']),
+    idempotent(),
+    asyncHandler(reorderOrder)
+);
+
+// Amend items of a pending order - accessible by the customer and branch staff
+router.post('/:id/items',
+    authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+    idempotent(),
+    asyncHandler(addOrderItems)
+);
+
+router.patch('/:id/items/:itemId',
+    authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+    asyncHandler(updateOrderItem)
+);
+
+router.delete('/:id/items/:itemId',
+    authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+    asyncHandler(removeOrderItem)
+);
+
+// Get queue position and estimated ready time - accessible by the customer and branch staff
+router.get('/:id/queue',
+    authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+    asyncHandler(getOrderQueuePosition)
+);
+
+// Get order status history - accessible by cashiers and managers
+router.get('/:id/history',
+    authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+    asyncHandler(getOrderHistory)
+);
+
 // Delete order - accessible by admin and branch manager
 router.delete('/:id',
     authorizeRole(['ADMIN', 'BRANCH_MANAGER']),
     deleteOrder
 );
 
-// POST /api/cart - sync local cart to DB for logged-in customer
-router.post('/cart', authenticateToken, authorizeRole(['CUSTOMER']), (req, res, next) => {
-  (async () => {
-    try {
-      const userId = req.user?.id;
-      const items = req.body.items as Array<{ id: number; quantity: number }>;
-
-      if (!userId || !Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ error: 'No items to add to cart' });
-      }
-
-      // Create a new order with status PENDING (or update existing PENDING order)
-      let order = await prisma.order.findFirst({
-        where: { customerId: userId, status: 'PENDING' },
-      });
-
-      if (!order) {
-        order = await prisma.order.create({
-          data: {
-            customerId: userId,
-            branchId: 1, // TODO: choose branch logic if needed
-            status: 'PENDING',
-            totalAmount: 0,
-          },
-        });
-      }
-
-      // Remove existing items for this order
-      await prisma.orderItem.deleteMany({ where: { orderId: order.id } });
-
-      // Add new items
-      let totalAmount = 0;
-      for (const item of items) {
-        const menuItem = await prisma.menuItem.findUnique({ where: { id: item.id } });
-        const price = menuItem ? menuItem.price : 0;
-        const subtotal = price * item.quantity;
-        totalAmount += subtotal;
-        await prisma.orderItem.create({
-          data: {
-            orderId: order.id,
-            menuItemId: item.id,
-            quantity: item.quantity,
-            unitPrice: price,
-            subtotal,
-          },
-        });
-      }
-      // Update order total
-      await prisma.order.update({ where: { id: order.id }, data: { totalAmount } });
-      res.status(200).json({ success: true });
-      return;
-    } catch (err) {
-      return res.status(500).json({ error: 'Failed to sync cart' });
-    }
-  })().catch(next);
-});
-
-// GET /api/cart - get current cart for logged-in customer
-router.get('/cart', authenticateToken, authorizeRole(['CUSTOMER']), (req, res, next) => {
-  (async () => {
-    try {
-      const userId = req.user?.id;
-      if (!userId) return res.status(401).json({ error: 'Not authenticated' });
-      // Find the PENDING order for this customer
-      const order = await prisma.order.findFirst({
-        where: { customerId: userId, status: 'PENDING' },
-        include: {
-          items: true,
-        },
-      });
-      if (!order || !order.items.length) return res.json({ items: [] });
-      // Return cart items in the same format as the frontend expects
-      res.json({
-        items: order.items.map(item => ({ id: item.menuItemId, quantity: item.quantity }))
-      });
-      return;
-    } catch (err) {
-      res.status(500).json({ error: 'Failed to fetch cart' });
-      return;
-    }
-  })().catch(next);
-});
-
 export default router;
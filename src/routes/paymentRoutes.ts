@@ -1,21 +1,69 @@
 import { Router } from 'express';
-import { processPayment, getPayment, reprintReceipt, emailReceipt } from '../controllers/paymentController';
+import {
+  processPayment,
+  getSplitPlan,
+  getPayment,
+  reprintReceipt,
+  emailReceipt
+} from '../controllers/paymentController';
+import {
+  handleProviderWebhook,
+  completeMockPaymentChallenge,
+  getWebhookEvents,
+  replayWebhookEvent
+} from '../controllers/paymentWebhookController';
 import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotency';
 
 const router = Router();
 
-// All payment routes require authentication
+// Payment provider callbacks (no authentication; signed by the provider, raw body parsed in index.ts)
+router.post('/webhooks/:provider', (req, res, next) => {
+  handleProviderWebhook(req, res).catch(next);
+});
+
+// Complete a mock provider 3-D Secure challenge (development only)
+router.post('/mock/:providerPaymentId/challenge', (req, res, next) => {
+  completeMockPaymentChallenge(req, res).catch(next);
+});
+
+// All other payment routes require authentication
 router.use(authenticateToken);
 
+// List unprocessed or failed webhook events
+router.get('/webhook-events',
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER']),
+  (req, res, next) => {
+    getWebhookEvents(req, res).catch(next);
+  }
+);
+
+// Replay a webhook event from its stored payload
+router.post('/webhook-events/:id/replay',
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER']),
+  (req, res, next) => {
+    replayWebhookEvent(req, res).catch(next);
+  }
+);
+
 // Process payment for an order
 router.post('/:orderId', 
   authorizeRole(['CUSTOMER', 'CASHIER']),
+  idempotent(),
   (req, res, next) => {
     processPayment(req, res).catch(next);
   }
 );
 
-// Get payment details for an order
+// Work out split bill legs (evenly, by item or custom amounts) without paying
+router.post('/:orderId/split',
+  authorizeRole(['CUSTOMER', 'CASHIER']),
+  (req, res, next) => {
+    getSplitPlan(req, res).catch(next);
+  }
+);
+
+// Get all payment legs for an order
 router.get('/:orderId',
   authorizeRole(['CUSTOMER', 'CASHIER', 'ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
   (req, res, next) => {
@@ -1,6 +1,7 @@
 import express from 'express';
 import { createReceipt, getReceipts, getReceiptById, getReceiptStats } from '../controllers/receiptController';
 import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotency';
 
 const router = express.Router();
 
@@ -15,7 +16,7 @@ function asyncHandler(fn: any) {
 router.use(authenticateToken);
 
 // Create receipt for an order - accessible by customers, cashiers and management
-router.post('/', authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'ADMIN']), asyncHandler(createReceipt));
+router.post('/', authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'ADMIN']), idempotent(), asyncHandler(createReceipt));
 
 // Get all receipts (with filtering) - accessible by cashiers and management
 router.get('/', authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'ADMIN']), asyncHandler(getReceipts));
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { createRefund, getOrderRefunds, getRefunds } from '../controllers/refundController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All refund routes require authentication
+router.use(authenticateToken);
+
+// Issue a refund - requires manager approval
+router.post('/',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    createRefund(req, res).catch(next);
+  }
+);
+
+// List refunds with totals per reason
+router.get('/',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getRefunds(req, res).catch(next);
+  }
+);
+
+// Refunds of a single order
+router.get('/order/:orderId',
+  authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getOrderRefunds(req, res).catch(next);
+  }
+);
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import {
+  getAvailability,
+  createReservation,
+  getMyReservations,
+  cancelReservation,
+  updateReservationStatus,
+  getDayView
+} from '../controllers/reservationController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// Availability search - public so guests can check before signing in
+router.get('/availability', (req, res, next) => {
+  getAvailability(req, res).catch(next);
+});
+
+// Book a reservation - customers for themselves, front-of-house staff for guests
+router.post('/',
+  authenticateToken,
+  authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    createReservation(req, res).catch(next);
+  }
+);
+
+// Customer's own reservations
+router.get('/my',
+  authenticateToken,
+  authorizeRole(['CUSTOMER']),
+  (req, res, next) => {
+    getMyReservations(req, res).catch(next);
+  }
+);
+
+// Day view of a branch - accessible by front-of-house staff and management
+router.get('/day',
+  authenticateToken,
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getDayView(req, res).catch(next);
+  }
+);
+
+// Cancel a reservation
+router.post('/:id/cancel',
+  authenticateToken,
+  authorizeRole(['CUSTOMER', 'CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    cancelReservation(req, res).catch(next);
+  }
+);
+
+// Update reservation status (seated, no-show, cancelled)
+router.patch('/:id/status',
+  authenticateToken,
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    updateReservationStatus(req, res).catch(next);
+  }
+);
+
+export default router;
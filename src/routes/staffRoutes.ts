@@ -5,6 +5,7 @@ import {
   updateStaffMember,
   deleteStaffMember
 } from '../controllers/staffController';
+import { clockIn, clockOut, getShifts } from '../controllers/shiftController';
 import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
 
 const router = Router();
@@ -19,6 +20,26 @@ router.get(
   getStaffMembers
 );
 
+// Shifts of a day - accessible by ADMIN, GENERAL_MANAGER, and BRANCH_MANAGER
+router.get(
+  '/shifts',
+  authorizeRole(['ADMIN', 'GENERAL_MANAGER', 'BRANCH_MANAGER']),
+  getShifts
+);
+
+// Clock in and out - accessible by branch staff
+router.post(
+  '/shifts/clock-in',
+  authorizeRole(['CHEF', 'CASHIER', 'DRIVER', 'BRANCH_MANAGER']),
+  clockIn
+);
+
+router.post(
+  '/shifts/clock-out',
+  authorizeRole(['CHEF', 'CASHIER', 'DRIVER', 'BRANCH_MANAGER']),
+  clockOut
+);
+
 // Create staff - accessible by ADMIN, GENERAL_MANAGER, and BRANCH_MANAGER
 router.post(
   '/',
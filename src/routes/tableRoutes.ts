@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import {
+  getTables,
+  createTable,
+  updateTable,
+  deleteTable,
+  updateTableStatus,
+  getTab,
+  openTab,
+  addTabRound,
+  closeTab,
+  getFloorState
+} from '../controllers/tableController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All table routes require authentication
+router.use(authenticateToken);
+
+// Live floor state - accessible by front-of-house staff and management
+router.get('/floor',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getFloorState(req, res).catch(next);
+  }
+);
+
+// Table list - accessible by front-of-house staff and management
+router.get('/',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getTables(req, res).catch(next);
+  }
+);
+
+// Create table - accessible by branch managers and above
+router.post('/',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    createTable(req, res).catch(next);
+  }
+);
+
+// Update table - accessible by branch managers and above
+router.put('/:tableId',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    updateTable(req, res).catch(next);
+  }
+);
+
+// Delete table - accessible by branch managers and above
+router.delete('/:tableId',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    deleteTable(req, res).catch(next);
+  }
+);
+
+// Set table status (e.g. cleaned tables back to FREE)
+router.patch('/:tableId/status',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    updateTableStatus(req, res).catch(next);
+  }
+);
+
+// Open tab of a table
+router.get('/:tableId/tab',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getTab(req, res).catch(next);
+  }
+);
+
+// Seat a party and open a tab
+router.post('/:tableId/tab',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    openTab(req, res).catch(next);
+  }
+);
+
+// Add a round of items to the open tab
+router.post('/:tableId/tab/rounds',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    addTabRound(req, res).catch(next);
+  }
+);
+
+// Close the open tab with payment
+router.post('/:tableId/tab/close',
+  authorizeRole(['CASHIER', 'BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    closeTab(req, res).catch(next);
+  }
+);
+
+export default router;
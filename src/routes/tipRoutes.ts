@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { getTipDistribution, getTipSuggestions } from '../controllers/tipController';
+import { authenticateToken, authorizeRole } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// All tip routes require authentication
+router.use(authenticateToken);
+
+// Share the tip pool of a day or shift between the staff who worked
+router.get('/distribution',
+  authorizeRole(['BRANCH_MANAGER', 'GENERAL_MANAGER', 'ADMIN']),
+  (req, res, next) => {
+    getTipDistribution(req, res).catch(next);
+  }
+);
+
+// Suggested tips for the balance of an order
+router.get('/orders/:orderId/suggestions',
+  authorizeRole(['CUSTOMER', 'CASHIER']),
+  (req, res, next) => {
+    getTipSuggestions(req, res).catch(next);
+  }
+);
+
+export default router;
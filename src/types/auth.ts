@@ -148,5 +148,6 @@ export interface PaginatedResponse<T> {
         pages: number;    // Total number of pages
         current: number;  // Current page number
         perPage: number;  // Items per page
+        nextCursor?: string | null; // Cursor for the next page (cursor-paginated endpoints, null on the last page)
     };
 }
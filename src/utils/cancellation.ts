@@ -0,0 +1,68 @@
+/**
+ * Order Cancellation Utilities
+ *
+ * Every cancellation carries a reason code and settles the order in the same
+ * transaction: payments are refunded and ingredient stock is returned (or
+ * written off as waste if the kitchen had already started on the order). The
+ * user who cancelled is recorded on the order's status event. Once the
+ * transaction has committed, the caller passes the result to
+ * settleProviderRefunds so the payment provider returns the money.
+ */
+
+import { CancellationReason, OrderStatus, Prisma } from '@prisma/client';
+import { refundOrderPayments } from './refunds';
+import { restoreStock, writeOffStock } from './stock';
+
+export const CANCELLATION_REASONS = Object.values(CancellationReason);
+
+/**
+ * Parse Cancellation Reason
+ *
+ * @param value - Reason code from the request body
+ * @returns The reason code, or null if missing or unknown
+ */
+export const parseCancellationReason = (value: unknown): CancellationReason | null =>
+    CANCELLATION_REASONS.includes(value as CancellationReason) ? value as CancellationReason : null;
+
+export const cancellationReasonError = `cancellationReason is required and must be one of ${CANCELLATION_REASONS.join(', ')}`;
+
+/**
+ * Settle Cancellation
+ *
+ * Refunds what is left on the order's payment legs. Stock is returned for
+ * orders cancelled while PENDING; for orders the kitchen had started it is
+ * written off as waste.
+ * The caller records the status event and sets the returned order fields
+ * together with status CANCELLED.
+ *
+ * @param tx - Transaction client of the cancellation
+ * @param orderId - Order being cancelled
+ * @param fromStatus - Status the order is cancelled from
+ * @param approvedById - User cancelling (recorded on refunds)
+ * @param reason - Cancellation reason code
+ * @param note - Optional free-text note
+ * @returns Order fields describing the cancellation, and the payment legs to void
+ */
+export const settleCancellation = async (
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    fromStatus: OrderStatus,
+    approvedById: number | null,
+    reason: CancellationReason,
+    note?: string | null
+) => {
+    const { voidedPayments } = await refundOrderPayments(tx, orderId, 'ORDER_CANCELLED', approvedById, note);
+    if (fromStatus === 'PENDING') {
+        await restoreStock(tx, orderId);
+    } else {
+        await writeOffStock(tx, orderId);
+    }
+
+    return {
+        data: {
+            cancellationReason: reason,
+            cancelledAt: new Date()
+        } satisfies Prisma.OrderUpdateInput,
+        voidedPayments
+    };
+};
@@ -0,0 +1,171 @@
+/**
+ * Cart Utilities
+ *
+ * Customer carts hold items per branch until they are checked out (see
+ * cartController). Lines with the same item, modifiers and notes are merged,
+ * and carts expire after CART_TTL_HOURS (default 72) without changes.
+ *
+ * Used by:
+ * - The cart endpoints
+ * - Reorders into the cart (orderController.reorderOrder)
+ */
+
+import prisma from './prisma';
+import { buildOrderItems } from './orderItems';
+import { roundCurrency } from './payments';
+
+const CART_TTL_MS = Number(process.env.CART_TTL_HOURS || 72) * 60 * 60 * 1000;
+
+export const cartInclude = {
+    items: {
+        include: { menuItem: { select: { name: true } } },
+        orderBy: { createdAt: 'asc' as const }
+    }
+};
+
+/**
+ * Item to put in a cart, priced when it was added
+ */
+export interface CartLineInput {
+    menuItemId: number;
+    quantity: number;
+    modifierOptionIds: number[];
+    notes: string | null;
+    unitPrice: number;
+}
+
+export const nextExpiry = () => new Date(Date.now() + CART_TTL_MS);
+
+// Same selection regardless of the order the options were picked in
+export const normalizeOptionIds = (ids: unknown): number[] =>
+    Array.isArray(ids) ? ids.map(Number).sort((a, b) => a - b) : [];
+
+export const normalizeNotes = (notes: unknown): string | null =>
+    typeof notes === 'string' && notes.trim() ? notes.trim() : null;
+
+/**
+ * Find Active Cart
+ *
+ * Expired carts are deleted and treated as missing.
+ *
+ * @param customerId - Cart owner
+ * @param branchId - Branch of the cart
+ * @returns The cart with its items, or null
+ */
+export const findActiveCart = async (customerId: number, branchId: number) => {
+    const cart = await prisma.cart.findUnique({
+        where: { customerId_branchId: { customerId, branchId } },
+        include: cartInclude
+    });
+
+    if (cart && cart.expiresAt < new Date()) {
+        await prisma.cart.delete({ where: { id: cart.id } });
+        return null;
+    }
+
+    return cart;
+};
+
+export type ActiveCart = NonNullable<Awaited<ReturnType<typeof findActiveCart>>>;
+
+/**
+ * Add Cart Lines
+ *
+ * Adds items to the customer's cart for the branch, starting a new cart if
+ * there is none (or it expired). An item identical to an existing line is
+ * merged into it.
+ *
+ * @param customerId - Cart owner
+ * @param branchId - Branch of the cart
+ * @param lines - Validated and priced items
+ * @returns The updated cart
+ */
+export const addCartLines = async (customerId: number, branchId: number, lines: CartLineInput[]): Promise<ActiveCart> => {
+    // Expired carts are discarded first so the items start a fresh cart
+    await findActiveCart(customerId, branchId);
+    const cart = await prisma.cart.upsert({
+        where: { customerId_branchId: { customerId, branchId } },
+        create: { customerId, branchId, expiresAt: nextExpiry() },
+        update: { expiresAt: nextExpiry() },
+        include: cartInclude
+    });
+
+    const existing: { id: number; menuItemId: number; quantity: number; modifierOptionIds: number[]; notes: string | null }[] =
+        [...cart.items];
+
+    for (const line of lines) {
+        // Merge with an identical line instead of adding a duplicate
+        const sameLine = existing.find(item =>
+            item.menuItemId === line.menuItemId
+            && item.notes === line.notes
+            && item.modifierOptionIds.join(',') === line.modifierOptionIds.join(',')
+        );
+
+        if (sameLine) {
+            sameLine.quantity += line.quantity;
+            await prisma.cartItem.update({
+                where: { id: sameLine.id },
+                data: { quantity: sameLine.quantity, unitPrice: line.unitPrice }
+            });
+        } else {
+            existing.push(await prisma.cartItem.create({
+                data: { cartId: cart.id, ...line }
+            }));
+        }
+    }
+
+    return prisma.cart.findUniqueOrThrow({ where: { id: cart.id }, include: cartInclude });
+};
+
+/**
+ * Price every cart line against the current menu. Lines that no longer
+ * validate (item or modifier unavailable) get an issue instead of a price.
+ */
+export const priceCartLines = async (cart: ActiveCart) => {
+    const lines = [];
+
+    for (const item of cart.items) {
+        const built = await buildOrderItems([{
+            menuItemId: item.menuItemId,
+            quantity: item.quantity,
+            modifierOptionIds: item.modifierOptionIds,
+            notes: item.notes
+        }], cart.branchId);
+
+        const unitPrice = built.error === undefined ? built.orderItems[0].unitPrice : null;
+
+        lines.push({
+            id: item.id,
+            menuItemId: item.menuItemId,
+            name: item.menuItem.name,
+            quantity: item.quantity,
+            modifierOptionIds: item.modifierOptionIds,
+            notes: item.notes,
+            addedUnitPrice: item.unitPrice,
+            unitPrice,
+            subtotal: unitPrice === null ? null : roundCurrency(unitPrice * item.quantity),
+            priceChanged: unitPrice !== null && Math.abs(unitPrice - item.unitPrice) >= 0.005,
+            issue: built.error ?? null
+        });
+    }
+
+    return lines;
+};
+
+/**
+ * Present Cart
+ *
+ * @param cart - Cart with its items
+ * @returns Cart response with live prices
+ */
+export const presentCart = async (cart: ActiveCart) => {
+    const lines = await priceCartLines(cart);
+    return {
+        id: cart.id,
+        branchId: cart.branchId,
+        expiresAt: cart.expiresAt,
+        items: lines,
+        totalAmount: roundCurrency(lines.reduce((sum, line) => sum + (line.subtotal ?? 0), 0)),
+        hasIssues: lines.some(line => line.issue !== null)
+    };
+};
@@ -0,0 +1,217 @@
+/**
+ * Cash Session Utilities
+ *
+ * A cash session tracks one cashier's drawer from the opening float to the
+ * end-of-shift count. Cash taken or paid out while a session is open is
+ * linked to it:
+ * - CASH payment legs taken by the cashier (including cash tips)
+ * - CASH receipts issued by the cashier for orders without a CASH payment leg
+ *   (receipts for orders paid through the payment legs are not counted twice)
+ * - CASH refunds, paid from the approver's drawer, or else from the drawer the
+ *   payment went into if that session is still open
+ * - Pay-ins and pay-outs recorded on the session (gift cards sold for cash
+ *   are recorded as pay-ins)
+ *
+ * Expected cash = opening float + payments + receipts + pay-ins - pay-outs - refunds.
+ * The variance is counted cash minus expected cash (negative = short).
+ */
+
+import { Payment, Prisma } from '@prisma/client';
+import { COLLECTED_PAYMENT_STATUSES, roundCurrency } from './payments';
+
+// Sessions whose variance is at least this large (either way) are flagged for review
+export const CASH_VARIANCE_THRESHOLD = Number(process.env.CASH_VARIANCE_THRESHOLD || 5);
+
+/**
+ * Counted notes or coins of one value
+ */
+export interface DenominationCount {
+    denomination: number;
+    count: number;
+}
+
+/**
+ * Find Open Cash Session
+ *
+ * @param db - Prisma client or transaction client
+ * @param cashierId - Cashier whose drawer is looked up
+ * @param branchId - Branch the cash was taken at
+ * @returns The cashier's open session at the branch, or null
+ */
+export const findOpenCashSession = (db: Prisma.TransactionClient, cashierId: number, branchId: number) =>
+    db.cashSession.findFirst({
+        where: { cashierId, branchId, status: 'OPEN' }
+    });
+
+/**
+ * Link Cash Payments
+ *
+ * Puts the CASH legs taken by a cashier into their open drawer. Legs are left
+ * unlinked when the cashier has no open session (e.g. customers paying online).
+ *
+ * @param db - Prisma transaction client
+ * @param cashierId - User who took the payment
+ * @param branchId - Branch of the order
+ * @param payments - Payment legs just recorded
+ * @returns ID of the session the legs were linked to, or null
+ */
+export const linkCashPayments = async (
+    db: Prisma.TransactionClient,
+    cashierId: number,
+    branchId: number,
+    payments: Pick<Payment, 'id' | 'method'>[]
+): Promise<number | null> => {
+    const cashIds = payments.filter(payment => payment.method === 'CASH').map(payment => payment.id);
+    if (!cashIds.length) return null;
+
+    const session = await findOpenCashSession(db, cashierId, branchId);
+    if (!session) return null;
+
+    await db.payment.updateMany({
+        where: { id: { in: cashIds } },
+        data: { cashSessionId: session.id }
+    });
+    return session.id;
+};
+
+/**
+ * Record Cash Pay-In
+ *
+ * Records cash taken outside of order payments (e.g. a gift card sale) in the
+ * user's open drawer.
+ *
+ * @param db - Prisma transaction client
+ * @param userId - User who took the cash
+ * @param branchId - Branch the cash was taken at
+ * @param amount - Cash taken
+ * @param reason - What the cash was for
+ * @returns The recorded pay-in, or null if the user has no open session
+ */
+export const recordCashPayIn = async (
+    db: Prisma.TransactionClient,
+    userId: number,
+    branchId: number,
+    amount: number,
+    reason: string
+) => {
+    const session = await findOpenCashSession(db, userId, branchId);
+    if (!session) return null;
+
+    return db.cashMovement.create({
+        data: { sessionId: session.id, type: 'PAY_IN', amount: roundCurrency(amount), reason, recordedById: userId }
+    });
+};
+
+/**
+ * Find Cash Refund Session
+ *
+ * @param db - Prisma transaction client
+ * @param approvedById - User issuing the refund
+ * @param payment - Payment leg being refunded
+ * @returns ID of the open drawer the refund is paid from, or null
+ */
+export const findCashRefundSession = async (
+    db: Prisma.TransactionClient,
+    approvedById: number | null,
+    payment: Pick<Payment, 'orderId' | 'cashSessionId'>
+): Promise<number | null> => {
+    if (approvedById !== null) {
+        const order = await db.order.findUniqueOrThrow({ where: { id: payment.orderId }, select: { branchId: true } });
+        const session = await findOpenCashSession(db, approvedById, order.branchId);
+        if (session) return session.id;
+    }
+
+    if (payment.cashSessionId !== null) {
+        const session = await db.cashSession.findFirst({
+            where: { id: payment.cashSessionId, status: 'OPEN' }
+        });
+        if (session) return session.id;
+    }
+    return null;
+};
+
+/**
+ * Parse Denominations
+ *
+ * @param value - Counted denominations from the request body ([{ denomination, count }, ...])
+ * @returns The counts and their total, or a validation error message
+ */
+export const parseDenominations = (
+    value: unknown
+): { denominations: DenominationCount[]; total: number; error?: undefined } | { error: string } => {
+    if (!Array.isArray(value) || !value.length) {
+        return { error: 'denominations must be a non-empty array of { denomination, count }' };
+    }
+
+    const denominations: DenominationCount[] = [];
+    const seen = new Set<number>();
+    for (const entry of value) {
+        const denomination = Number(entry?.denomination);
+        const count = Number(entry?.count);
+        if (!Number.isFinite(denomination) || denomination <= 0) {
+            return { error: 'Every denomination must be a positive amount' };
+        }
+        if (!Number.isInteger(count) || count < 0) {
+            return { error: `Count of ${denomination} must be a whole number of at least 0` };
+        }
+        if (seen.has(denomination)) {
+            return { error: `Denomination ${denomination} is listed more than once` };
+        }
+        seen.add(denomination);
+        denominations.push({ denomination, count });
+    }
+
+    const total = roundCurrency(denominations.reduce((sum, entry) => sum + entry.denomination * entry.count, 0));
+    return { denominations: denominations.sort((a, b) => b.denomination - a.denomination), total };
+};
+
+/**
+ * Get Expected Cash
+ *
+ * @param db - Prisma client or transaction client
+ * @param sessionId - Cash session
+ * @returns Cash the drawer should hold, with the amounts it is made of
+ */
+export const getExpectedCash = async (db: Prisma.TransactionClient, sessionId: number) => {
+    const session = await db.cashSession.findUniqueOrThrow({
+        where: { id: sessionId },
+        include: {
+            payments: {
+                where: { method: 'CASH', status: { in: COLLECTED_PAYMENT_STATUSES } },
+                select: { amount: true, tipAmount: true }
+            },
+            receipts: {
+                where: {
+                    paymentMethod: 'CASH',
+                    order: { payments: { none: { method: 'CASH', status: { in: COLLECTED_PAYMENT_STATUSES } } } }
+                },
+                select: { total: true }
+            },
+            refunds: {
+                where: { method: 'CASH' },
+                select: { amount: true, tipAmount: true }
+            },
+            movements: { select: { type: true, amount: true } }
+        }
+    });
+
+    const sum = (values: number[]) => roundCurrency(values.reduce((total, value) => total + value, 0));
+
+    const cashPayments = sum(session.payments.map(payment => payment.amount));
+    const cashTips = sum(session.payments.map(payment => payment.tipAmount));
+    const cashReceipts = sum(session.receipts.map(receipt => receipt.total));
+    const cashRefunds = sum(session.refunds.map(refund => refund.amount + refund.tipAmount));
+    const payIns = sum(session.movements.filter(movement => movement.type === 'PAY_IN').map(movement => movement.amount));
+    const payOuts = sum(session.movements.filter(movement => movement.type === 'PAY_OUT').map(movement => movement.amount));
+
+    return {
+        openingFloat: session.openingFloat,
+        cashPayments,
+        cashTips,
+        cashReceipts,
+        payIns,
+        payOuts,
+        cashRefunds,
+        expectedCash: roundCurrency(session.openingFloat + cashPayments + cashTips + cashReceipts + payIns - payOuts - cashRefunds)
+    };
+};
@@ -0,0 +1,236 @@
+/**
+ * Delivery Zone Utilities
+ *
+ * Delivery orders are routed to a branch by location instead of by address
+ * text. Addresses are geocoded locally through the postcode centroid table,
+ * and a branch delivers to every point inside one of its active zones.
+ *
+ * Conventions:
+ * - Coordinates are WGS84 latitude/longitude in degrees
+ * - RADIUS zones are measured from the branch location, so branches without
+ *   coordinates only deliver through POLYGON zones
+ * - POLYGON zones are stored as [[latitude, longitude], ...] (at least 3 points)
+ * - When several branches cover an address, the nearest one wins
+ */
+
+import { Branch, DeliveryZone, Prisma, PrismaClient } from '@prisma/client';
+
+export interface GeoPoint {
+    latitude: number;
+    longitude: number;
+}
+
+export type GeocodeResult = GeoPoint & { postcode: string };
+
+export type DeliveryRouting =
+    | { branch: Branch; zone: DeliveryZone; distanceKm: number | null; location: GeocodeResult; error?: undefined }
+    | { error: string; status: 400 | 422 };
+
+const OUTSIDE_DELIVERY_AREA = 'Address is outside our delivery area';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Swedish postcodes: "123 45", "12345" or "SE-123 45"
+const POSTCODE_PATTERN = /\b(\d{3})\s?(\d{2})\b/g;
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+/**
+ * Is Valid Coordinate
+ *
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @returns True if both values are finite and within range
+ */
+export const isValidCoordinate = (latitude: number, longitude: number): boolean =>
+    Number.isFinite(latitude) && Number.isFinite(longitude)
+    && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+/**
+ * Distance Km
+ *
+ * Great-circle (haversine) distance between two points.
+ *
+ * @param from - Start point
+ * @param to - End point
+ * @returns Distance in kilometres
+ */
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+    const dLat = toRadians(to.latitude - from.latitude);
+    const dLng = toRadians(to.longitude - from.longitude);
+    const a = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Parse Polygon
+ *
+ * @param value - Polygon as submitted or stored ([[latitude, longitude], ...])
+ * @returns Polygon points, or a validation error message
+ */
+export const parsePolygon = (value: unknown): { points: GeoPoint[]; error?: undefined } | { error: string } => {
+    if (!Array.isArray(value) || value.length < 3) {
+        return { error: 'polygon must be an array of at least 3 [latitude, longitude] points' };
+    }
+
+    const points: GeoPoint[] = [];
+    for (const point of value) {
+        const [latitude, longitude] = Array.isArray(point) ? point.map(Number) : [NaN, NaN];
+        if (!Array.isArray(point) || point.length !== 2 || !isValidCoordinate(latitude, longitude)) {
+            return { error: 'polygon must be an array of at least 3 [latitude, longitude] points' };
+        }
+        points.push({ latitude, longitude });
+    }
+
+    return { points };
+};
+
+/**
+ * Is Point In Polygon
+ *
+ * Ray casting on latitude/longitude, which is accurate enough for city-sized zones.
+ *
+ * @param point - Point to test
+ * @param polygon - Polygon points in order
+ * @returns True if the point lies inside the polygon
+ */
+export const isPointInPolygon = (point: GeoPoint, polygon: GeoPoint[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude)
+            && point.longitude < (b.longitude - a.longitude) * (point.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude;
+        if (crosses) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * Get Branch Location
+ *
+ * @param branch - Branch with optional coordinates
+ * @returns The branch location, or null if it has not been set
+ */
+export const getBranchLocation = (branch: Pick<Branch, 'latitude' | 'longitude'>): GeoPoint | null =>
+    branch.latitude !== null && branch.longitude !== null
+        ? { latitude: branch.latitude, longitude: branch.longitude }
+        : null;
+
+/**
+ * Is In Zone
+ *
+ * @param zone - Delivery zone
+ * @param branch - Branch the zone belongs to
+ * @param point - Delivery location
+ * @returns True if the zone is active and covers the point
+ */
+export const isInZone = (
+    zone: DeliveryZone,
+    branch: Pick<Branch, 'latitude' | 'longitude'>,
+    point: GeoPoint
+): boolean => {
+    if (!zone.isActive) return false;
+
+    if (zone.type === 'RADIUS') {
+        const origin = getBranchLocation(branch);
+        return origin !== null && zone.radiusKm !== null && distanceKm(origin, point) <= zone.radiusKm;
+    }
+
+    const polygon = parsePolygon(zone.polygon);
+    return polygon.error === undefined && isPointInPolygon(point, polygon.points);
+};
+
+/**
+ * Extract Postcode
+ *
+ * Uses the last postcode-like number in the address, since street numbers
+ * come before the postcode.
+ *
+ * @param address - Free-text address
+ * @returns Postcode digits (e.g. "11122"), or null if none was found
+ */
+export const extractPostcode = (address: string): string | null => {
+    const matches = [...address.matchAll(POSTCODE_PATTERN)];
+    const last = matches[matches.length - 1];
+    return last ? `${last[1]}${last[2]}` : null;
+};
+
+/**
+ * Geocode Address
+ *
+ * Looks up the postcode centroid of the address. Unknown postcodes fall back
+ * to the average of known postcodes in the same 3-digit area.
+ *
+ * @param db - Prisma client or transaction client
+ * @param address - Free-text address containing a postcode
+ * @returns Approximate location, or null if the address cannot be located
+ */
+export const geocodeAddress = async (db: Db, address: string): Promise<GeocodeResult | null> => {
+    const postcode = extractPostcode(address);
+    if (!postcode) return null;
+
+    const exact = await db.postcodeCentroid.findUnique({ where: { postcode } });
+    if (exact) {
+        return { postcode, latitude: exact.latitude, longitude: exact.longitude };
+    }
+
+    const area = await db.postcodeCentroid.aggregate({
+        where: { postcode: { startsWith: postcode.slice(0, 3) } },
+        _avg: { latitude: true, longitude: true }
+    });
+    if (area._avg.latitude === null || area._avg.longitude === null) return null;
+
+    return { postcode, latitude: area._avg.latitude, longitude: area._avg.longitude };
+};
+
+/**
+ * Route Delivery
+ *
+ * Geocodes the address and picks the nearest branch with a zone covering it.
+ *
+ * @param db - Prisma client or transaction client
+ * @param address - Delivery address
+ * @param branchId - Only consider this branch (the customer picked a branch)
+ * @returns The delivering branch and zone, or an error with its HTTP status
+ */
+export const routeDelivery = async (db: Db, address: string, branchId?: number): Promise<DeliveryRouting> => {
+    const location = await geocodeAddress(db, address);
+    if (!location) {
+        return { error: 'Could not locate the delivery address; please include a valid postcode', status: 400 };
+    }
+
+    const branches = await db.branch.findMany({
+        where: {
+            ...(branchId ? { id: branchId } : {}),
+            deliveryZones: { some: { isActive: true } }
+        },
+        include: { deliveryZones: { where: { isActive: true } } }
+    });
+
+    let best: Extract<DeliveryRouting, { branch: Branch }> | null = null;
+    for (const { deliveryZones, ...branch } of branches) {
+        const zone = deliveryZones.find(candidate => isInZone(candidate, branch, location));
+        if (!zone) continue;
+
+        const origin = getBranchLocation(branch);
+        const distance = origin ? Math.round(distanceKm(origin, location) * 100) / 100 : null;
+
+        // Branches without coordinates only win when no located branch covers the address
+        if (!best || (distance !== null && (best.distanceKm === null || distance < best.distanceKm))) {
+            best = { branch, zone, distanceKm: distance, location };
+        }
+    }
+
+    if (!best) {
+        return {
+            error: branchId ? 'Address is outside this branch\'s delivery area' : OUTSIDE_DELIVERY_AREA,
+            status: 422
+        };
+    }
+
+    return best;
+};
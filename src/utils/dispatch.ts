@@ -0,0 +1,75 @@
+/**
+ * Delivery Dispatch Utilities
+ *
+ * Helpers for assigning delivery orders to drivers. A driver is busy with
+ * every assignment that has not been delivered yet, unless the order was
+ * cancelled.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Assignments a driver still has to complete
+export const ACTIVE_ASSIGNMENT_WHERE = {
+    deliveredAt: null,
+    order: { status: { notIn: ['DELIVERED', 'CANCELLED'] } }
+} satisfies Prisma.DeliveryAssignmentWhereInput;
+
+/**
+ * Get Driver Workloads
+ *
+ * @param db - Prisma client or transaction client
+ * @param branchId - Branch whose drivers are listed
+ * @returns Drivers of the branch with their number of active deliveries
+ */
+export const getDriverWorkloads = async (db: Db, branchId: number) => {
+    const drivers = await db.user.findMany({
+        where: { role: 'DRIVER', branchId },
+        select: {
+            id: true,
+            username: true,
+            deliveryAssignments: {
+                where: ACTIVE_ASSIGNMENT_WHERE,
+                select: { orderId: true, pickedUpAt: true }
+            }
+        },
+        orderBy: { username: 'asc' }
+    });
+
+    const lastAssignments = await db.deliveryAssignment.groupBy({
+        by: ['driverId'],
+        where: { driverId: { in: drivers.map(driver => driver.id) } },
+        _max: { assignedAt: true }
+    });
+
+    return drivers.map(({ deliveryAssignments, ...driver }) => ({
+        ...driver,
+        activeDeliveries: deliveryAssignments.length,
+        activeOrderIds: deliveryAssignments.map(assignment => assignment.orderId),
+        onTheRoad: deliveryAssignments.some(assignment => assignment.pickedUpAt !== null),
+        lastAssignedAt: lastAssignments.find(entry => entry.driverId === driver.id)?._max.assignedAt ?? null
+    }));
+};
+
+/**
+ * Find Least Busy Driver
+ *
+ * Picks the driver with the fewest active deliveries; ties go to the driver
+ * who was assigned longest ago, so work rotates between idle drivers.
+ *
+ * @param db - Prisma client or transaction client
+ * @param branchId - Branch the order belongs to
+ * @returns The chosen driver, or null if the branch has no drivers
+ */
+export const findLeastBusyDriver = async (db: Db, branchId: number) => {
+    const workloads = await getDriverWorkloads(db, branchId);
+
+    const sorted = workloads.sort((a, b) =>
+        a.activeDeliveries - b.activeDeliveries
+        || (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0)
+        || a.id - b.id
+    );
+
+    return sorted[0] ?? null;
+};
@@ -18,6 +18,9 @@
  */
 
 import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { PaymentProviderError } from './paymentProviders';
+import { GiftCardError } from './giftCards';
 
 /**
  * Handle and Respond to Errors
@@ -39,6 +42,21 @@ import { Response } from 'express';
 export const handleError = (error: any, res: Response) => {
     // Log the full error details for debugging (server-side only)
     console.error('Error:', error);
+
+    // Payment provider failures are safe to describe and are not our fault
+    if (error instanceof PaymentProviderError) {
+        return res.status(error.timedOut ? 504 : 502).json({ message: error.message });
+    }
+
+    // A concurrent request changed the same rows; the client can simply retry
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+        return res.status(409).json({ message: 'The request conflicted with another change, please try again' });
+    }
+
+    // Gift card problems (expired, insufficient balance, ...) are the client's to resolve
+    if (error instanceof GiftCardError) {
+        return res.status(409).json({ message: error.message });
+    }
     
     // Return generic error message to client for security
     return res.status(500).json({ error: 'Internal server error' });
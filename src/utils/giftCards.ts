@@ -0,0 +1,290 @@
+/**
+ * Gift Card Utilities
+ *
+ * Gift cards hold a stored balance that can be redeemed at any branch as a
+ * GIFT_CARD payment leg. Every change of a balance is written to the card's
+ * ledger (GiftCardTransaction) in the same transaction, so the balance always
+ * equals the sum of its ledger entries.
+ *
+ * Balance changes use conditional updates (e.g. only redeem while the balance
+ * covers the amount), so concurrent redemptions cannot overdraw a card.
+ *
+ * Refunds always go back on the card, so a cancellation never fails because
+ * the card has expired in the meantime; an expired card is reactivated for
+ * REFUND_REACTIVATION_DAYS to let the customer use the money.
+ */
+
+import { randomInt } from 'crypto';
+import { GiftCard, GiftCardTransactionType, Prisma } from '@prisma/client';
+import { roundCurrency } from './payments';
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I look-alikes
+const CODE_GROUPS = 4;
+const CODE_GROUP_LENGTH = 4;
+
+// Largest balance a card may hold
+export const MAX_GIFT_CARD_BALANCE = Number(process.env.MAX_GIFT_CARD_BALANCE || 10000);
+
+// Days an expired card stays usable after a refund reactivates it
+export const REFUND_REACTIVATION_DAYS = Number(process.env.GIFT_CARD_REFUND_REACTIVATION_DAYS || 90);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gift card cannot be used for the requested change (unknown, expired,
+ * insufficient balance, ...)
+ */
+export class GiftCardError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GiftCardError';
+    }
+}
+
+/**
+ * Generate Gift Card Code
+ *
+ * @returns Random code like "K7QM-4XZP-9HRT-2WNB"
+ */
+export const generateGiftCardCode = (): string =>
+    Array.from({ length: CODE_GROUPS }, () =>
+        Array.from({ length: CODE_GROUP_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('')
+    ).join('-');
+
+/**
+ * Normalize Gift Card Code
+ *
+ * @param code - Code as typed (any case, with or without dashes or spaces)
+ * @returns Code in the stored format
+ */
+export const normalizeGiftCardCode = (code: string): string => {
+    const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return compact.match(new RegExp(`.{1,${CODE_GROUP_LENGTH}}`, 'g'))?.join('-') ?? '';
+};
+
+/**
+ * Is Gift Card Usable
+ *
+ * @param card - Gift card
+ * @param now - Reference time
+ * @returns Whether the card is active and not past its expiry date
+ */
+export const isGiftCardUsable = (card: Pick<GiftCard, 'status' | 'expiresAt'>, now: Date = new Date()): boolean =>
+    card.status === 'ACTIVE' && (!card.expiresAt || card.expiresAt > now);
+
+/**
+ * Record Gift Card Change
+ *
+ * Applies a balance change and writes its ledger entry. The change is only
+ * applied while the card is usable and the balance stays within bounds.
+ * REFUND entries are always applied and reactivate an expired card.
+ *
+ * @param db - Prisma transaction client
+ * @param giftCardId - Gift card
+ * @param type - Ledger entry type
+ * @param amount - Signed change of the balance
+ * @param details - Related payment/refund, user and note
+ * @returns The updated card
+ * @throws GiftCardError if the card cannot take the change
+ */
+export const recordGiftCardChange = async (
+    db: Prisma.TransactionClient,
+    giftCardId: number,
+    type: GiftCardTransactionType,
+    amount: number,
+    details: { paymentId?: number; refundId?: number; performedById?: number | null; note?: string | null } = {}
+): Promise<GiftCard> => {
+    const change = roundCurrency(amount);
+    const now = new Date();
+
+    if (type === 'REFUND') {
+        return refundToGiftCard(db, giftCardId, change, details, now);
+    }
+
+    const where: Prisma.GiftCardWhereInput = {
+        id: giftCardId,
+        status: 'ACTIVE',
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+    };
+    if (change < 0) {
+        where.balance = { gte: -change - 0.001 };
+    } else {
+        where.balance = { lte: MAX_GIFT_CARD_BALANCE - change + 0.001 };
+    }
+
+    const updated = await db.giftCard.updateMany({
+        where,
+        data: { balance: { increment: change } }
+    });
+
+    if (updated.count === 0) {
+        const card = await db.giftCard.findUnique({ where: { id: giftCardId } });
+        if (!card) throw new GiftCardError('Gift card not found');
+        if (!isGiftCardUsable(card, now)) throw new GiftCardError(`Gift card ${card.code} has expired`);
+        if (change < 0) {
+            throw new GiftCardError(`Gift card balance of ${card.balance.toFixed(2)} does not cover ${(-change).toFixed(2)}`);
+        }
+        throw new GiftCardError(`Gift card balance may not exceed ${MAX_GIFT_CARD_BALANCE.toFixed(2)}`);
+    }
+
+    const card = await db.giftCard.findUniqueOrThrow({ where: { id: giftCardId } });
+    await db.giftCardTransaction.create({
+        data: {
+            giftCardId,
+            type,
+            amount: change,
+            balanceAfter: roundCurrency(card.balance),
+            paymentId: details.paymentId,
+            refundId: details.refundId,
+            performedById: details.performedById ?? null,
+            note: details.note || null
+        }
+    });
+
+    return card;
+};
+
+/**
+ * Put a refund back on a card, reactivating it if it can no longer be used.
+ */
+const refundToGiftCard = async (
+    db: Prisma.TransactionClient,
+    giftCardId: number,
+    change: number,
+    details: { refundId?: number; performedById?: number | null; note?: string | null },
+    now: Date
+): Promise<GiftCard> => {
+    const current = await db.giftCard.findUnique({ where: { id: giftCardId } });
+    if (!current) throw new GiftCardError('Gift card not found');
+
+    const reactivate = !isGiftCardUsable(current, now);
+    const card = await db.giftCard.update({
+        where: { id: giftCardId },
+        data: {
+            balance: { increment: change },
+            ...(reactivate && {
+                status: 'ACTIVE',
+                expiredAt: null,
+                expiresAt: new Date(now.getTime() + REFUND_REACTIVATION_DAYS * DAY_MS)
+            })
+        }
+    });
+
+    await db.giftCardTransaction.create({
+        data: {
+            giftCardId,
+            type: 'REFUND',
+            amount: change,
+            balanceAfter: roundCurrency(card.balance),
+            refundId: details.refundId,
+            performedById: details.performedById ?? null,
+            note: reactivate
+                ? [details.note, `Card reactivated until ${card.expiresAt!.toISOString().slice(0, 10)}`].filter(Boolean).join('; ')
+                : details.note || null
+        }
+    });
+
+    return card;
+};
+
+/**
+ * Redeem Gift Card
+ *
+ * Pays a GIFT_CARD leg from the card with the given code and links the leg
+ * to the card. Must run in the transaction that records the leg.
+ *
+ * @param db - Prisma transaction client
+ * @param code - Gift card code from the payment request
+ * @param payment - GIFT_CARD leg just created (amount plus tip is redeemed)
+ * @returns The updated card
+ * @throws GiftCardError if the code is unknown or the card cannot cover the leg
+ */
+export const redeemGiftCard = async (
+    db: Prisma.TransactionClient,
+    code: string,
+    payment: { id: number; amount: number; tipAmount: number }
+): Promise<GiftCard> => {
+    const card = await db.giftCard.findUnique({ where: { code: normalizeGiftCardCode(code) } });
+    if (!card) throw new GiftCardError('Gift card not found');
+
+    const updated = await recordGiftCardChange(db, card.id, 'REDEEM', -(payment.amount + payment.tipAmount), {
+        paymentId: payment.id
+    });
+
+    await db.payment.update({
+        where: { id: payment.id },
+        data: { giftCardId: card.id }
+    });
+
+    return updated;
+};
+
+/**
+ * Expire Gift Card
+ *
+ * Writes off the remaining balance and marks the card EXPIRED.
+ *
+ * @param db - Prisma transaction client
+ * @param card - Gift card to expire
+ * @param performedById - User expiring the card (null for automatic expiry)
+ * @param note - Optional note
+ * @returns The expired card
+ */
+export const expireGiftCard = async (
+    db: Prisma.TransactionClient,
+    card: GiftCard,
+    performedById: number | null,
+    note?: string | null
+): Promise<GiftCard> => {
+    const claimed = await db.giftCard.updateMany({
+        where: { id: card.id, status: 'ACTIVE' },
+        data: { status: 'EXPIRED', expiredAt: new Date(), balance: 0 }
+    });
+    if (claimed.count === 0) throw new GiftCardError(`Gift card ${card.code} has already expired`);
+
+    const current = await db.giftCard.findUniqueOrThrow({ where: { id: card.id } });
+    const writtenOff = await db.giftCardTransaction.aggregate({
+        where: { giftCardId: card.id },
+        _sum: { amount: true }
+    });
+
+    // The ledger entry takes the balance from what the ledger holds to zero
+    await db.giftCardTransaction.create({
+        data: {
+            giftCardId: card.id,
+            type: 'EXPIRE',
+            amount: roundCurrency(-(writtenOff._sum.amount ?? 0)),
+            balanceAfter: 0,
+            performedById,
+            note: note || null
+        }
+    });
+
+    return current;
+};
+
+/**
+ * Expire Due Gift Cards
+ *
+ * Expires every active card whose expiry date has passed.
+ *
+ * @param db - Prisma client
+ * @param performedById - User running the expiry
+ * @returns The expired cards
+ */
+export const expireDueGiftCards = async (db: Prisma.TransactionClient, performedById: number | null) => {
+    const due = await db.giftCard.findMany({
+        where: { status: 'ACTIVE', expiresAt: { lte: new Date() } }
+    });
+
+    const expired = [];
+    for (const card of due) {
+        try {
+            expired.push(await expireGiftCard(db, card, performedById, 'Expiry date passed'));
+        } catch (error) {
+            // Expired concurrently
+            if (!(error instanceof GiftCardError)) throw error;
+        }
+    }
+    return expired;
+};
@@ -0,0 +1,93 @@
+/**
+ * Menu Item Modifier Utilities
+ *
+ * This module validates and prices the modifiers a customer selects for an
+ * order item (doneness, sauce choice, extras, ...). All pricing happens
+ * server-side so clients cannot tamper with modifier prices.
+ *
+ * Validation Rules:
+ * - Every selected option must belong to one of the menu item's groups
+ * - Options may not be selected twice and must be available
+ * - Required groups need at least one selection (or minSelections, if higher)
+ * - Optional groups with selections must respect minSelections
+ * - No group may exceed maxSelections
+ */
+
+import { ModifierGroup, ModifierOption } from '@prisma/client';
+
+/**
+ * Modifier snapshot stored on the order item
+ */
+export interface ResolvedModifier {
+    optionId: number;
+    groupName: string;
+    optionName: string;
+    priceDelta: number;
+}
+
+export type ModifierResolution =
+    | { modifiers: ResolvedModifier[]; priceDelta: number; error?: undefined }
+    | { error: string };
+
+/**
+ * Resolve Item Modifiers
+ *
+ * Validates the selected option IDs against the menu item's modifier groups
+ * and returns the modifier snapshots plus the total price delta per unit.
+ *
+ * @param itemName - Menu item name (used in error messages)
+ * @param groups - Modifier groups of the menu item, including their options
+ * @param selectedOptionIds - Option IDs chosen by the customer
+ * @returns Resolved modifiers and price delta, or a validation error message
+ */
+export const resolveItemModifiers = (
+    itemName: string,
+    groups: (ModifierGroup & { options: ModifierOption[] })[],
+    selectedOptionIds: unknown
+): ModifierResolution => {
+    if (selectedOptionIds !== undefined && !Array.isArray(selectedOptionIds)) {
+        return { error: `Modifiers for ${itemName} must be an array of option IDs` };
+    }
+
+    const selected = ((selectedOptionIds as unknown[]) || []).map(Number);
+
+    if (new Set(selected).size !== selected.length) {
+        return { error: `Duplicate modifier selected for ${itemName}` };
+    }
+
+    const modifiers: ResolvedModifier[] = [];
+
+    for (const group of groups) {
+        const chosen = group.options.filter(option => selected.includes(option.id));
+        const minimum = group.isRequired ? Math.max(group.minSelections, 1) : group.minSelections;
+
+        if ((group.isRequired || chosen.length > 0) && chosen.length < minimum) {
+            return { error: `Select at least ${minimum} option(s) for ${group.name} on ${itemName}` };
+        }
+
+        if (chosen.length > group.maxSelections) {
+            return { error: `Select at most ${group.maxSelections} option(s) for ${group.name} on ${itemName}` };
+        }
+
+        for (const option of chosen) {
+            if (!option.isAvailable) {
+                return { error: `${option.name} is not available for ${itemName}` };
+            }
+            modifiers.push({
+                optionId: option.id,
+                groupName: group.name,
+                optionName: option.name,
+                priceDelta: option.priceDelta
+            });
+        }
+    }
+
+    if (modifiers.length !== selected.length) {
+        return { error: `Invalid modifier selected for ${itemName}` };
+    }
+
+    return {
+        modifiers,
+        priceDelta: modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0)
+    };
+};
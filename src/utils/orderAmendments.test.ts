@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Payment, Prisma, Refund } from '@prisma/client';
+import { settleAmendedOrder } from './orderAmendments';
+import { getBalanceDue } from './payments';
+
+// Just enough of a transaction client for settleAmendedOrder with card payments
+const createFakeDb = (totalAmount: number, paid: number) => {
+    const order = { id: 1, totalAmount, paidAt: (paid >= totalAmount ? new Date() : null) as Date | null };
+    const payments: Payment[] = [{
+        id: 1, orderId: 1, amount: paid, refundedAmount: 0, tipAmount: 0, method: 'CREDIT_CARD', status: 'COMPLETED',
+        provider: null, providerPaymentId: null, failureReason: null, giftCardId: null, cashSessionId: null,
+        createdAt: new Date(), updatedAt: new Date()
+    }];
+    const refunds: Refund[] = [];
+
+    const withPayments = () => ({
+        ...order,
+        payments: payments.map(payment => ({
+            ...payment,
+            refunds: refunds.filter(refund => refund.paymentId === payment.id)
+        }))
+    });
+
+    const db = {
+        order: {
+            findUniqueOrThrow: async () => withPayments(),
+            update: async ({ data }: { data: Partial<typeof order> }) => Object.assign(order, data)
+        },
+        refund: {
+            create: async ({ data }: { data: Refund }) => {
+                const refund = { ...data, id: refunds.length + 1, items: [] };
+                refunds.push(refund);
+                return refund;
+            }
+        },
+        payment: {
+            update: async ({ where, data }: { where: { id: number }; data: Partial<Payment> }) =>
+                Object.assign(payments.find(payment => payment.id === where.id)!, data)
+        }
+    };
+
+    return { db: db as unknown as Prisma.TransactionClient, order, withPayments };
+};
+
+test('items added back after an amendment refund are charged again', async () => {
+    const { db, order, withPayments } = createFakeDb(100, 100);
+
+    // Reduced to 70: the 30 paid over the new total is refunded
+    order.totalAmount = 70;
+    const reduced = await settleAmendedOrder(db, order.id, 1);
+    assert.deepEqual(reduced.refunds.map(refund => refund.amount), [30]);
+    assert.equal(reduced.balanceDue, 0);
+    assert.notEqual(order.paidAt, null);
+
+    // Grown back to 100: the refunded 30 is due again and the order is no longer paid
+    order.totalAmount = 100;
+    const grown = await settleAmendedOrder(db, order.id, 1);
+    assert.equal(grown.refunds.length, 0);
+    assert.equal(grown.balanceDue, 30);
+    assert.equal(order.paidAt, null);
+    assert.equal(getBalanceDue(withPayments()), 30);
+});
+
+test('refunds that did not amend the order still count as paid', () => {
+    const balanceDue = getBalanceDue({
+        totalAmount: 100,
+        payments: [{
+            amount: 100,
+            status: 'COMPLETED',
+            refunds: [{ amount: 20, reason: 'CUSTOMER_COMPLAINT', status: 'COMPLETED' }]
+        }]
+    });
+
+    assert.equal(balanceDue, 0);
+});
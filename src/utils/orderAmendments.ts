@@ -0,0 +1,86 @@
+/**
+ * Order Amendment Utilities
+ *
+ * Pending orders can have items added, removed or changed in quantity until
+ * the kitchen starts on them. Once the items have changed, the payments are
+ * brought in line with the new total:
+ * - Collected more than the new total: the difference is refunded, newest leg first
+ * - Otherwise the balance due follows the new total; a paid order that grew
+ *   is no longer marked paid and the difference is topped up like any balance
+ *   due (see paymentController.processPayment). Amendment refunds no longer
+ *   count as paid, so items added back after a refund are charged again
+ */
+
+import { Prisma } from '@prisma/client';
+import { balancePaymentsArgs, getAmountPaidTowardsTotal, PAYMENT_TOLERANCE, refreshPaidState, roundCurrency } from './payments';
+import { getRefundableAmount, issueRefund } from './refunds';
+
+/**
+ * Recalculate Order Total
+ *
+ * @param db - Prisma transaction client
+ * @param orderId - Amended order
+ * @returns The new total (sum of item subtotals)
+ */
+export const recalculateOrderTotal = async (db: Prisma.TransactionClient, orderId: number): Promise<number> => {
+    const sum = await db.orderItem.aggregate({
+        where: { orderId },
+        _sum: { subtotal: true }
+    });
+    const totalAmount = roundCurrency(sum._sum.subtotal ?? 0);
+
+    await db.order.update({
+        where: { id: orderId },
+        data: { totalAmount }
+    });
+
+    return totalAmount;
+};
+
+/**
+ * Settle Amended Order
+ *
+ * Refunds what was paid over the new total and updates the order's paid
+ * state. Must run in the amendment's transaction, after recalculateOrderTotal.
+ *
+ * @param db - Prisma transaction client
+ * @param orderId - Amended order
+ * @param approvedById - User making the amendment (recorded on refunds)
+ * @returns Refunds issued and the balance left to pay
+ */
+export const settleAmendedOrder = async (
+    db: Prisma.TransactionClient,
+    orderId: number,
+    approvedById: number
+) => {
+    const order = await db.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { payments: { ...balancePaymentsArgs, orderBy: { id: 'desc' } } }
+    });
+
+    const balance = roundCurrency(order.totalAmount - getAmountPaidTowardsTotal(order.payments));
+    const refunds = [];
+
+    if (balance < -PAYMENT_TOLERANCE) {
+        let remaining = -balance;
+        for (const payment of order.payments) {
+            const amount = Math.min(getRefundableAmount(payment), remaining);
+            if (amount <= 0) continue;
+
+            refunds.push(await issueRefund(db, payment, {
+                amount,
+                reason: 'ORDER_AMENDED',
+                method: payment.method,
+                approvedById,
+                note: 'Items removed or reduced before preparation'
+            }));
+            remaining = roundCurrency(remaining - amount);
+            if (remaining <= 0) break;
+        }
+    }
+
+    // Paid orders that grew are unpaid again; earlier partial payments may now cover a smaller total
+    const { balanceDue } = await refreshPaidState(db, orderId);
+
+    return { refunds, balanceDue };
+};
@@ -0,0 +1,174 @@
+/**
+ * Order Event Bus
+ *
+ * This module provides an in-process publish/subscribe channel for order
+ * lifecycle events. It powers the Server-Sent Events stream used by kitchen,
+ * cashier and customer screens so they no longer need to poll for new orders.
+ *
+ * Features:
+ * - Sequential event IDs for Server-Sent Events `id:` fields
+ * - Bounded replay buffer for `Last-Event-ID` reconnects
+ * - Role-based visibility matching the getOrders access rules, including the
+ *   kitchen release of scheduled orders for chefs
+ *
+ * Limitations:
+ * - Events live in memory, so replay only covers the current server process.
+ *   Clients reconnecting with an ID the buffer no longer holds are told to
+ *   resync by fetching the order list again.
+ */
+
+import { EventEmitter } from 'events';
+import { OrderStatus } from '@prisma/client';
+import { AuthenticatedUser } from '../types/auth';
+import { getKitchenReleaseTime } from './scheduling';
+
+export type OrderEventType = 'order.created' | 'order.status_changed' | 'order.cancelled' | 'order.amended';
+
+/**
+ * Order Event
+ *
+ * Payload pushed to stream subscribers whenever an order changes.
+ */
+export interface OrderEvent {
+    id: number;                         // Sequential event ID (used for Last-Event-ID replay)
+    type: OrderEventType;
+    orderId: number;
+    branchId: number;
+    customerId: number;
+    status: OrderStatus;
+    previousStatus: OrderStatus | null; // Null for newly created orders
+    scheduledFor: string | null;        // ISO slot start of scheduled orders
+    occurredAt: string;                 // ISO timestamp
+    order: unknown;                     // Order snapshot as returned by the API
+}
+
+type OrderSnapshot = {
+    id: number;
+    branchId: number;
+    customerId: number;
+    status: OrderStatus;
+    scheduledFor?: Date | null;
+};
+
+// Number of recent events kept for reconnecting clients
+const REPLAY_BUFFER_SIZE = 500;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open stream, no artificial cap
+
+const replayBuffer: OrderEvent[] = [];
+let lastEventId = 0;
+
+/**
+ * Publish Order Event
+ *
+ * Stores the event in the replay buffer and notifies all open streams.
+ * Call this after the database change has been committed.
+ *
+ * @param type - Kind of change
+ * @param order - Order after the change
+ * @param previousStatus - Status before the change (null on creation)
+ * @returns The published event
+ */
+export const publishOrderEvent = (
+    type: OrderEventType,
+    order: OrderSnapshot,
+    previousStatus: OrderStatus | null = null
+): OrderEvent => {
+    const event: OrderEvent = {
+        id: ++lastEventId,
+        type,
+        orderId: order.id,
+        branchId: order.branchId,
+        customerId: order.customerId,
+        status: order.status,
+        previousStatus,
+        scheduledFor: order.scheduledFor ? order.scheduledFor.toISOString() : null,
+        occurredAt: new Date().toISOString(),
+        order
+    };
+
+    replayBuffer.push(event);
+    if (replayBuffer.length > REPLAY_BUFFER_SIZE) {
+        replayBuffer.shift();
+    }
+
+    emitter.emit('order', event);
+    return event;
+};
+
+/**
+ * Subscribe to Order Events
+ *
+ * @param listener - Called for every published event
+ * @returns Function that removes the listener
+ */
+export const subscribeToOrderEvents = (listener: (event: OrderEvent) => void): (() => void) => {
+    emitter.on('order', listener);
+    return () => {
+        emitter.off('order', listener);
+    };
+};
+
+/**
+ * Get Events Since
+ *
+ * Returns buffered events published after the given ID. `complete` is false
+ * when some of the missed events are no longer buffered (or the ID comes
+ * from a previous server process), meaning the client must resync.
+ *
+ * @param sinceId - Last event ID the client received
+ * @returns Missed events and whether the replay is complete
+ */
+export const getOrderEventsSince = (sinceId: number): { events: OrderEvent[]; complete: boolean } => {
+    const oldestId = replayBuffer.length ? replayBuffer[0].id : lastEventId + 1;
+    const complete = sinceId <= lastEventId && sinceId >= oldestId - 1;
+
+    return {
+        events: replayBuffer.filter(event => event.id > sinceId),
+        complete
+    };
+};
+
+/**
+ * Check Order Event Visibility
+ *
+ * Applies the same role rules as getOrders:
+ * - CUSTOMER: Only their own orders
+ * - CHEF/CASHIER/BRANCH_MANAGER: Orders from their assigned branch; chefs only
+ *   see scheduled orders once they are released to the kitchen
+ * - ADMIN/GENERAL_MANAGER: All orders, optionally narrowed to one branch
+ *
+ * @param user - Authenticated stream subscriber
+ * @param event - Event to check
+ * @param branchFilter - Optional branch filter (admins and general managers only)
+ * @param scheduleLeadMinutes - Lead time of the chef's branch (see kitchenReleaseFilter)
+ * @param now - Current time
+ * @returns True if the user may receive the event
+ */
+export const canViewOrderEvent = (
+    user: AuthenticatedUser,
+    event: OrderEvent,
+    branchFilter?: number,
+    scheduleLeadMinutes: number = 0,
+    now: Date = new Date()
+): boolean => {
+    if (user.role === 'CHEF') {
+        const releaseAt = getKitchenReleaseTime(event.scheduledFor ? new Date(event.scheduledFor) : null, scheduleLeadMinutes);
+        if (releaseAt && releaseAt > now) return false;
+    }
+
+    if (user.role === 'CUSTOMER') {
+        return event.customerId === user.id;
+    }
+
+    if (user.role === 'CHEF' || user.role === 'CASHIER' || user.role === 'BRANCH_MANAGER') {
+        return !user.branchId || event.branchId === user.branchId;
+    }
+
+    if (branchFilter && (user.role === 'ADMIN' || user.role === 'GENERAL_MANAGER')) {
+        return event.branchId === branchFilter;
+    }
+
+    return true;
+};
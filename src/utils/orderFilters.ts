@@ -0,0 +1,165 @@
+/**
+ * Order List Filters
+ *
+ * Parses the query string of the orders list (filters, sorting, page size
+ * and cursor) into Prisma query parts. Role-based visibility is applied by
+ * the controller on top of these filters.
+ */
+
+import { FulfillmentType, OrderStatus, Prisma } from '@prisma/client';
+import { COLLECTED_PAYMENT_STATUSES } from './payments';
+import { ISSUED_REFUND_STATUSES } from './refunds';
+import { CursorPosition, decodeCursor, parsePageSize } from './pagination';
+
+export const ORDER_SORT_FIELDS = ['createdAt', 'updatedAt', 'totalAmount'] as const;
+
+// Payment state of an order as seen by the list filter
+export const ORDER_PAYMENT_STATUSES = ['PAID', 'PARTIALLY_PAID', 'UNPAID', 'REFUNDED'] as const;
+
+type OrderPaymentStatus = typeof ORDER_PAYMENT_STATUSES[number];
+
+const collectedPayment = { status: { in: COLLECTED_PAYMENT_STATUSES } } satisfies Prisma.PaymentWhereInput;
+
+const paymentStatusFilters: Record<OrderPaymentStatus, Prisma.OrderWhereInput> = {
+    PAID: { paidAt: { not: null } },
+    PARTIALLY_PAID: { paidAt: null, payments: { some: collectedPayment } },
+    UNPAID: { paidAt: null, payments: { none: collectedPayment } },
+    REFUNDED: { refunds: { some: { status: { in: ISSUED_REFUND_STATUSES } } } }
+};
+
+// Fields returned in summary mode (no nested items or payments)
+export const orderSummarySelect = {
+    id: true,
+    status: true,
+    fulfillmentType: true,
+    totalAmount: true,
+    createdAt: true,
+    updatedAt: true,
+    scheduledFor: true,
+    paidAt: true,
+    tableNumber: true,
+    branchId: true,
+    customerId: true,
+    _count: { select: { items: true } }
+} satisfies Prisma.OrderSelect;
+
+/**
+ * Parsed orders list query
+ */
+export interface OrderListQuery {
+    filters: Prisma.OrderWhereInput[];
+    orderBy: Prisma.OrderOrderByWithRelationInput[];
+    perPage: number;
+    cursor: CursorPosition | null;
+    summary: boolean;
+}
+
+/**
+ * Parse Date
+ *
+ * @param value - Date from a query parameter
+ * @returns The date, or null if it is not a valid date
+ */
+export const parseDate = (value: unknown): Date | null => {
+    const date = new Date(String(value));
+    return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parse Order List Query
+ *
+ * Query Parameters (all optional):
+ * - status, fulfillmentType: Exact match
+ * - paymentStatus: PAID, PARTIALLY_PAID, UNPAID or REFUNDED
+ * - startDate, endDate: Creation date range
+ * - minTotal, maxTotal: Total amount range
+ * - sortBy: createdAt (default), updatedAt or totalAmount
+ * - sortOrder: desc (default) or asc
+ * - limit: Page size (default 20, max 100)
+ * - cursor: nextCursor from the previous page
+ * - summary: true for order fields only, without items and payments
+ *
+ * @param query - Request query
+ * @returns Parsed query parts, or a validation error message
+ */
+export const parseOrderListQuery = (
+    query: Record<string, unknown>
+): OrderListQuery | { error: string } => {
+    const filters: Prisma.OrderWhereInput[] = [];
+
+    if (query.status !== undefined) {
+        if (!Object.values(OrderStatus).includes(query.status as OrderStatus)) {
+            return { error: `status must be one of ${Object.values(OrderStatus).join(', ')}` };
+        }
+        filters.push({ status: query.status as OrderStatus });
+    }
+
+    if (query.fulfillmentType !== undefined) {
+        if (!Object.values(FulfillmentType).includes(query.fulfillmentType as FulfillmentType)) {
+            return { error: `fulfillmentType must be one of ${Object.values(FulfillmentType).join(', ')}` };
+        }
+        filters.push({ fulfillmentType: query.fulfillmentType as FulfillmentType });
+    }
+
+    if (query.paymentStatus !== undefined) {
+        if (!ORDER_PAYMENT_STATUSES.includes(query.paymentStatus as OrderPaymentStatus)) {
+            return { error: `paymentStatus must be one of ${ORDER_PAYMENT_STATUSES.join(', ')}` };
+        }
+        filters.push(paymentStatusFilters[query.paymentStatus as OrderPaymentStatus]);
+    }
+
+    if (query.startDate !== undefined || query.endDate !== undefined) {
+        const startDate = query.startDate !== undefined ? parseDate(query.startDate) : undefined;
+        const endDate = query.endDate !== undefined ? parseDate(query.endDate) : undefined;
+        if (startDate === null || endDate === null) {
+            return { error: 'startDate and endDate must be valid dates' };
+        }
+        if (startDate && endDate && startDate > endDate) {
+            return { error: 'startDate must be before endDate' };
+        }
+        filters.push({ createdAt: { gte: startDate, lte: endDate } });
+    }
+
+    if (query.minTotal !== undefined || query.maxTotal !== undefined) {
+        const minTotal = query.minTotal !== undefined ? Number(query.minTotal) : undefined;
+        const maxTotal = query.maxTotal !== undefined ? Number(query.maxTotal) : undefined;
+        if ([minTotal, maxTotal].some(value => value !== undefined && (!Number.isFinite(value) || value < 0))) {
+            return { error: 'minTotal and maxTotal must be non-negative numbers' };
+        }
+        if (minTotal !== undefined && maxTotal !== undefined && minTotal > maxTotal) {
+            return { error: 'minTotal must not exceed maxTotal' };
+        }
+        filters.push({ totalAmount: { gte: minTotal, lte: maxTotal } });
+    }
+
+    const sortBy = query.sortBy ?? 'createdAt';
+    if (!ORDER_SORT_FIELDS.includes(sortBy as typeof ORDER_SORT_FIELDS[number])) {
+        return { error: `sortBy must be one of ${ORDER_SORT_FIELDS.join(', ')}` };
+    }
+    const sortOrder = query.sortOrder ?? 'desc';
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+        return { error: 'sortOrder must be asc or desc' };
+    }
+
+    const perPage = parsePageSize(query.limit);
+    if (perPage === null) {
+        return { error: 'limit must be a whole number between 1 and 100' };
+    }
+
+    let cursor: CursorPosition | null = null;
+    if (query.cursor !== undefined) {
+        cursor = decodeCursor(String(query.cursor));
+        if (!cursor) {
+            return { error: 'Invalid cursor' };
+        }
+    }
+
+    return {
+        filters,
+        // ID breaks ties so the cursor position is unique
+        orderBy: [{ [sortBy as string]: sortOrder }, { id: sortOrder }],
+        perPage,
+        cursor,
+        summary: query.summary === 'true'
+    };
+};
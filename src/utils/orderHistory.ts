@@ -0,0 +1,55 @@
+/**
+ * Order Status History Utilities
+ *
+ * This module records order status changes in the OrderStatusEvent table so
+ * that every transition can be traced back to the user who made it.
+ *
+ * Features:
+ * - Works with the shared Prisma client or inside a transaction
+ * - Captures the actor's role at the time of the change
+ * - Optional free-text reason (e.g. why an order was cancelled)
+ */
+
+import { OrderStatus, Prisma, Role } from '@prisma/client';
+
+/**
+ * User responsible for a status change
+ */
+export interface StatusChangeActor {
+    id: number;
+    role: Role;
+}
+
+/**
+ * Record Order Status Event
+ *
+ * Writes a single status event. Pass the transaction client when the status
+ * update itself runs in a transaction so both writes succeed or fail together.
+ *
+ * @param db - Prisma client or transaction client
+ * @param orderId - Order whose status changed
+ * @param fromStatus - Previous status (null when the order is created)
+ * @param toStatus - New status
+ * @param actor - Authenticated user making the change, if any
+ * @param reason - Optional reason supplied by the actor
+ * @returns Promise with the created event
+ */
+export const recordOrderStatusEvent = (
+    db: Prisma.TransactionClient,
+    orderId: number,
+    fromStatus: OrderStatus | null,
+    toStatus: OrderStatus,
+    actor?: StatusChangeActor,
+    reason?: string | null
+) => {
+    return db.orderStatusEvent.create({
+        data: {
+            orderId,
+            fromStatus,
+            toStatus,
+            actorId: actor?.id ?? null,
+            actorRole: actor?.role ?? null,
+            reason: reason?.trim() || null
+        }
+    });
+};
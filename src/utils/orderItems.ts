@@ -0,0 +1,195 @@
+/**
+ * Order Item Utilities
+ *
+ * This module turns the items a client submits ({ menuItemId, quantity,
+ * modifierOptionIds, notes }) into order item rows. Prices always come from
+ * the current menu and modifier options, never from the client.
+ *
+ * Used by:
+ * - Order creation
+ * - Rounds added to open dine-in tabs
+ * - Reorders (rebuildOrderItems maps a past order onto the current menu)
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { resolveItemModifiers } from './modifiers';
+
+export type OrderItemsBuild =
+    | { orderItems: Prisma.OrderItemUncheckedCreateWithoutOrderInput[]; totalAmount: number; error?: undefined }
+    | { error: string; status: 400 | 404 };
+
+/**
+ * Build Order Items
+ *
+ * Validates every requested item (menu item exists and is available, quantity
+ * is a positive whole number, modifiers are valid) and prices it server-side.
+ *
+ * @param items - Items as submitted by the client
+ * @param branchId - When given, every menu item must belong to this branch
+ * @returns Order item create inputs and their total, or an error with HTTP status
+ */
+export const buildOrderItems = async (items: any[], branchId?: number): Promise<OrderItemsBuild> => {
+    const orderItems: Prisma.OrderItemUncheckedCreateWithoutOrderInput[] = [];
+    let totalAmount = 0;
+
+    for (const item of items) {
+        // Validate menu item exists and is available
+        const menuItem = await prisma.menuItem.findUnique({
+            where: { id: Number(item.menuItemId) },
+            include: {
+                modifierGroups: {
+                    include: { options: true }
+                }
+            }
+        });
+
+        if (!menuItem || (branchId !== undefined && menuItem.branchId !== branchId)) {
+            return { error: `Menu item ${item.menuItemId} not found`, status: 404 };
+        }
+
+        if (!menuItem.isAvailable) {
+            return { error: `Menu item ${menuItem.name} is not available`, status: 400 };
+        }
+
+        const quantity = Number(item.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            return { error: `Quantity for ${menuItem.name} must be a whole number of at least 1`, status: 400 };
+        }
+
+        // Validate selected modifiers (doneness, sauce, ...) and price them
+        const resolved = resolveItemModifiers(menuItem.name, menuItem.modifierGroups, item.modifierOptionIds);
+        if (resolved.error !== undefined) {
+            return { error: resolved.error, status: 400 };
+        }
+
+        // Calculate subtotal using current menu pricing (server-side calculation for security)
+        const unitPrice = menuItem.price + resolved.priceDelta;
+        const subtotal = unitPrice * quantity;
+        totalAmount += subtotal;
+
+        orderItems.push({
+            menuItemId: menuItem.id,
+            quantity,
+            unitPrice,
+            subtotal,
+            notes: typeof item.notes === 'string' && item.notes.trim() ? item.notes.trim() : null,
+            stationId: menuItem.stationId, // Route to the kitchen station preparing this item
+            modifiers: {
+                create: resolved.modifiers
+            }
+        });
+    }
+
+    return { orderItems, totalAmount };
+};
+
+/**
+ * Item of a past order, as loaded for a reorder
+ */
+export interface PastOrderItem {
+    id: number;
+    menuItemId: number;
+    quantity: number;
+    unitPrice: number;
+    notes: string | null;
+    modifiers: { optionId: number | null; optionName: string }[];
+}
+
+/**
+ * Result of rebuilding a past order against the current menu
+ */
+export interface ReorderPlan {
+    items: { menuItemId: number; quantity: number; modifierOptionIds: number[]; notes: string | null }[];
+    dropped: { orderItemId: number; menuItemId: number; name: string; quantity: number; reason: string }[];
+    repriced: { menuItemId: number; name: string; quantity: number; previousUnitPrice: number; unitPrice: number }[];
+    removedModifiers: { menuItemId: number; name: string; modifiers: string[] }[];
+}
+
+/**
+ * Rebuild Order Items
+ *
+ * Maps the items of a past order onto the current menu. Items that no longer
+ * exist, are unavailable or whose modifiers no longer validate are dropped;
+ * modifier options that were removed or switched off are left out; items are
+ * priced at current menu prices. The returned items use the same format as
+ * client submissions, so they can go straight into buildOrderItems.
+ *
+ * @param pastItems - Items of the past order including their modifiers
+ * @param branchId - Branch the new order is placed at
+ * @returns Items to order plus what was dropped or changed
+ */
+export const rebuildOrderItems = async (pastItems: PastOrderItem[], branchId: number): Promise<ReorderPlan> => {
+    const plan: ReorderPlan = { items: [], dropped: [], repriced: [], removedModifiers: [] };
+
+    const menuItems = await prisma.menuItem.findMany({
+        where: { id: { in: pastItems.map(item => item.menuItemId) } },
+        include: {
+            modifierGroups: {
+                include: { options: true }
+            }
+        }
+    });
+
+    for (const pastItem of pastItems) {
+        const menuItem = menuItems.find(candidate => candidate.id === pastItem.menuItemId);
+        const drop = (name: string, reason: string) => plan.dropped.push({
+            orderItemId: pastItem.id,
+            menuItemId: pastItem.menuItemId,
+            name,
+            quantity: pastItem.quantity,
+            reason
+        });
+
+        if (!menuItem || menuItem.branchId !== branchId) {
+            drop(menuItem?.name ?? `Menu item ${pastItem.menuItemId}`, 'No longer on the menu');
+            continue;
+        }
+
+        if (!menuItem.isAvailable) {
+            drop(menuItem.name, 'Currently unavailable');
+            continue;
+        }
+
+        // Keep the modifier options that still exist and are available
+        const currentOptions = menuItem.modifierGroups.flatMap(group => group.options);
+        const kept = pastItem.modifiers.filter(modifier =>
+            currentOptions.some(option => option.id === modifier.optionId && option.isAvailable)
+        );
+        const modifierOptionIds = kept.map(modifier => modifier.optionId as number);
+
+        const resolved = resolveItemModifiers(menuItem.name, menuItem.modifierGroups, modifierOptionIds);
+        if (resolved.error !== undefined) {
+            drop(menuItem.name, resolved.error);
+            continue;
+        }
+
+        if (kept.length < pastItem.modifiers.length) {
+            plan.removedModifiers.push({
+                menuItemId: menuItem.id,
+                name: menuItem.name,
+                modifiers: pastItem.modifiers.filter(modifier => !kept.includes(modifier)).map(modifier => modifier.optionName)
+            });
+        }
+
+        const unitPrice = menuItem.price + resolved.priceDelta;
+        if (Math.abs(unitPrice - pastItem.unitPrice) >= 0.005) {
+            plan.repriced.push({
+                menuItemId: menuItem.id,
+                name: menuItem.name,
+                quantity: pastItem.quantity,
+                previousUnitPrice: pastItem.unitPrice,
+                unitPrice
+            });
+        }
+
+        plan.items.push({
+            menuItemId: menuItem.id,
+            quantity: pastItem.quantity,
+            modifierOptionIds,
+            notes: pastItem.notes
+        });
+    }
+
+    return plan;
+};
@@ -0,0 +1,187 @@
+/**
+ * Order Placement
+ *
+ * Shared path for creating a new order from a list of items, used by order
+ * creation, reorders and cart checkout. It validates the fulfillment details,
+ * routes delivery orders, checks scheduled slots, prices the items and writes
+ * the order with its initial status event and ingredient stock deduction.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { buildOrderItems } from './orderItems';
+import { StatusChangeActor } from './orderHistory';
+import { publishOrderEvent } from './orderEvents';
+import { validateFulfillment } from './orderWorkflow';
+import { validateScheduledTime } from './scheduling';
+import { GeoPoint, routeDelivery } from './deliveryZones';
+import { deductStock, InsufficientStockError, StockShortage } from './stock';
+
+/**
+ * Order to place
+ */
+export interface OrderPlacementRequest {
+    customerId: number;
+    actor: StatusChangeActor;
+    items: any[];
+    branchId?: number;              // Optional for delivery orders (routed by address)
+    fulfillmentType?: unknown;      // Defaults to DELIVERY with an address, TAKEAWAY otherwise
+    deliveryAddress?: string | null;
+    tableNumber?: string | null;
+    scheduledFor?: unknown;
+    restrictMenuToBranch?: boolean; // Items must belong to the order's branch
+    reason?: string;                // Note on the initial status event
+    // Runs first in the order's transaction (e.g. claiming the cart being checked out);
+    // throwing rolls the order back
+    claim?: (tx: Prisma.TransactionClient) => Promise<void>;
+}
+
+const orderInclude = {
+    items: {
+        include: {
+            menuItem: true,
+            modifiers: true
+        }
+    }
+} satisfies Prisma.OrderInclude;
+
+export type OrderPlacement =
+    | { order: Prisma.OrderGetPayload<{ include: typeof orderInclude }>; error?: undefined }
+    | { error: string; status: 400 | 404 | 409 | 422; shortages?: StockShortage[] };
+
+/**
+ * Place Order
+ *
+ * Publishes the `order.created` event once the order is committed.
+ *
+ * @param request - Items, customer and fulfillment details
+ * @returns The created order, or an error with its HTTP status
+ */
+export const placeOrder = async (request: OrderPlacementRequest): Promise<OrderPlacement> => {
+    const { items, deliveryAddress, tableNumber, scheduledFor } = request;
+    let branchId = request.branchId;
+
+    if (!Array.isArray(items) || !items.length) {
+        return { error: 'Order must contain at least one item', status: 400 };
+    }
+
+    // Fulfillment type defaults to delivery when an address is given (older clients)
+    const fulfillmentType = request.fulfillmentType || (deliveryAddress ? 'DELIVERY' : 'TAKEAWAY');
+    const fulfillmentError = validateFulfillment(fulfillmentType, deliveryAddress, tableNumber);
+    if (fulfillmentError) {
+        return { error: fulfillmentError, status: 400 };
+    }
+    if (fulfillmentType === 'DINE_IN' && scheduledFor) {
+        return { error: 'Dine-in orders cannot be scheduled', status: 400 };
+    }
+
+    // Delivery orders go to the nearest branch whose delivery zones cover the address;
+    // a chosen branch must cover the address itself
+    let deliveryLocation: GeoPoint | null = null;
+    if (fulfillmentType === 'DELIVERY') {
+        const routing = await routeDelivery(prisma, deliveryAddress as string, branchId);
+        if (routing.error !== undefined) {
+            return { error: routing.error, status: routing.status };
+        }
+        branchId = routing.branch.id;
+        deliveryLocation = routing.location;
+    }
+
+    if (!branchId) {
+        return { error: 'No branchId or delivery address provided', status: 400 };
+    }
+
+    // Scheduled orders must target a free slot within the branch opening hours
+    let slotStart: Date | null = null;
+    let slotCapacity = 0;
+    if (scheduledFor) {
+        const branch = await prisma.branch.findUnique({ where: { id: branchId } });
+        if (!branch) {
+            return { error: 'Branch not found', status: 404 };
+        }
+
+        slotStart = new Date(scheduledFor as string);
+        const scheduleError = validateScheduledTime(branch, slotStart);
+        if (scheduleError) {
+            return { error: scheduleError, status: 400 };
+        }
+        slotCapacity = branch.slotCapacity;
+    }
+
+    // Validate items and calculate totals with current menu prices
+    const built = await buildOrderItems(items, request.restrictMenuToBranch ? branchId : undefined);
+    if (built.error !== undefined) {
+        return { error: built.error, status: built.status };
+    }
+
+    const orderBranchId = branchId;
+
+    // Create order (slot capacity is re-checked in the same transaction to avoid overbooking;
+    // stock is deducted in it too, so an order without enough stock is never written)
+    let order;
+    try {
+        order = await prisma.$transaction(async (tx) => {
+            if (request.claim) {
+                await request.claim(tx);
+            }
+
+            if (slotStart) {
+                // Lock the branch so concurrent bookings count the slot one after another
+                await tx.$queryRaw`SELECT "id" FROM "Branch" WHERE "id" = ${orderBranchId} FOR UPDATE`;
+                const booked = await tx.order.count({
+                    where: {
+                        branchId: orderBranchId,
+                        scheduledFor: slotStart,
+                        status: { not: 'CANCELLED' }
+                    }
+                });
+                if (booked >= slotCapacity) return null;
+            }
+
+            const created = await tx.order.create({
+                data: {
+                    branchId: orderBranchId,
+                    customerId: request.customerId,
+                    status: 'PENDING',
+                    totalAmount: built.totalAmount,
+                    fulfillmentType: fulfillmentType as Prisma.OrderCreateInput['fulfillmentType'],
+                    deliveryAddress: fulfillmentType === 'DELIVERY' ? deliveryAddress : null,
+                    deliveryLatitude: deliveryLocation?.latitude ?? null,
+                    deliveryLongitude: deliveryLocation?.longitude ?? null,
+                    tableNumber: fulfillmentType === 'DINE_IN' ? String(tableNumber).trim() : null,
+                    scheduledFor: slotStart,
+                    items: {
+                        create: built.orderItems
+                    },
+                    // Initial history entry so the timeline starts at creation
+                    statusEvents: {
+                        create: {
+                            toStatus: 'PENDING',
+                            actorId: request.actor.id,
+                            actorRole: request.actor.role,
+                            reason: request.reason ?? null
+                        }
+                    }
+                },
+                include: orderInclude
+            });
+
+            await deductStock(tx, created.id, created.items);
+
+            return created;
+        });
+    } catch (error) {
+        if (error instanceof InsufficientStockError) {
+            return { error: error.message, status: 409, shortages: error.shortages };
+        }
+        throw error;
+    }
+
+    if (!order) {
+        return { error: 'The selected time slot is fully booked', status: 409 };
+    }
+
+    publishOrderEvent('order.created', order);
+
+    return { order };
+};
@@ -0,0 +1,93 @@
+/**
+ * Order Workflow Rules
+ *
+ * This module defines which order status transitions are allowed for each
+ * fulfillment type. Every order must pass through the kitchen
+ * (PREPARING → READY) before it can be handed over.
+ *
+ * Workflows:
+ * - DINE_IN:  PENDING → PREPARING → READY → DELIVERED (served at the table)
+ * - TAKEAWAY: PENDING → PREPARING → READY → DELIVERED (picked up)
+ * - DELIVERY: PENDING → PREPARING → READY → OUT_FOR_DELIVERY → DELIVERED
+ *   (picked up and handed to the customer by the assigned driver)
+ *
+ * Cancellation is possible until the order is handed over, except for dine-in
+ * orders that are already ready to be served. OUT_FOR_DELIVERY is only used by
+ * delivery orders.
+ */
+
+import { FulfillmentType, OrderStatus } from '@prisma/client';
+
+export const ORDER_STATUS_TRANSITIONS: Record<FulfillmentType, Record<OrderStatus, OrderStatus[]>> = {
+    DINE_IN: {
+        PENDING: ['PREPARING', 'CANCELLED'],
+        PREPARING: ['READY', 'CANCELLED'],
+        READY: ['DELIVERED'],
+        OUT_FOR_DELIVERY: [],
+        DELIVERED: [],
+        CANCELLED: []
+    },
+    TAKEAWAY: {
+        PENDING: ['PREPARING', 'CANCELLED'],
+        PREPARING: ['READY', 'CANCELLED'],
+        READY: ['DELIVERED', 'CANCELLED'], // Cancelled when never collected
+        OUT_FOR_DELIVERY: [],
+        DELIVERED: [],
+        CANCELLED: []
+    },
+    DELIVERY: {
+        PENDING: ['PREPARING', 'CANCELLED'],
+        PREPARING: ['READY', 'CANCELLED'],
+        READY: ['OUT_FOR_DELIVERY', 'CANCELLED'],
+        OUT_FOR_DELIVERY: ['DELIVERED', 'CANCELLED'], // Cancelled when the delivery fails
+        DELIVERED: [],
+        CANCELLED: []
+    }
+};
+
+/**
+ * Check Status Transition
+ *
+ * @param fulfillmentType - How the order is fulfilled
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the transition is allowed
+ */
+export const canTransitionOrder = (fulfillmentType: FulfillmentType, from: OrderStatus, to: OrderStatus): boolean => {
+    return ORDER_STATUS_TRANSITIONS[fulfillmentType][from]?.includes(to) ?? false;
+};
+
+/**
+ * Validate Fulfillment Details
+ *
+ * - DELIVERY requires a delivery address
+ * - DINE_IN requires a table
+ * - A delivery address must be text and a table text or a number
+ *
+ * @param fulfillmentType - Requested fulfillment type
+ * @param deliveryAddress - Delivery address from the request
+ * @param tableNumber - Table from the request
+ * @returns Error message, or null when the details are complete
+ */
+export const validateFulfillment = (
+    fulfillmentType: unknown,
+    deliveryAddress?: unknown,
+    tableNumber?: unknown
+): string | null => {
+    if (!Object.values(FulfillmentType).includes(fulfillmentType as FulfillmentType)) {
+        return `fulfillmentType must be one of ${Object.values(FulfillmentType).join(', ')}`;
+    }
+    if (deliveryAddress !== undefined && deliveryAddress !== null && typeof deliveryAddress !== 'string') {
+        return 'deliveryAddress must be a string';
+    }
+    if (tableNumber !== undefined && tableNumber !== null && !['string', 'number'].includes(typeof tableNumber)) {
+        return 'tableNumber must be a string or a number';
+    }
+    if (fulfillmentType === 'DELIVERY' && !deliveryAddress?.trim()) {
+        return 'Delivery orders require a delivery address';
+    }
+    if (fulfillmentType === 'DINE_IN' && !tableNumber?.toString().trim()) {
+        return 'Dine-in orders require a table';
+    }
+    return null;
+};
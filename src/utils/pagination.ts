@@ -0,0 +1,94 @@
+/**
+ * Cursor Pagination Utilities
+ *
+ * List endpoints page through results with an opaque cursor instead of an
+ * offset, so rows inserted while a client is paging do not shift or repeat
+ * items. The cursor holds the ID of the last row returned and the page
+ * number, which lets responses keep the PaginatedResponse shape.
+ */
+
+import { PaginatedResponse } from '../types/auth';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Position encoded in a cursor
+ */
+export interface CursorPosition {
+    id: number;   // Last row of the previous page
+    page: number; // Page the cursor leads to
+}
+
+/**
+ * Encode Cursor
+ *
+ * @param position - Last row ID and the next page number
+ * @returns Opaque URL-safe cursor
+ */
+export const encodeCursor = (position: CursorPosition): string =>
+    Buffer.from(JSON.stringify(position)).toString('base64url');
+
+/**
+ * Decode Cursor
+ *
+ * @param cursor - Cursor from the query string
+ * @returns The position, or null if the cursor is malformed
+ */
+export const decodeCursor = (cursor: string): CursorPosition | null => {
+    try {
+        const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (Number.isInteger(position?.id) && Number.isInteger(position?.page) && position.page > 1) {
+            return { id: position.id, page: position.page };
+        }
+    } catch {
+        // Fall through to the invalid cursor result
+    }
+    return null;
+};
+
+/**
+ * Parse Page Size
+ *
+ * @param limit - Limit from the query string
+ * @returns Page size (default when omitted), or null if invalid
+ */
+export const parsePageSize = (limit: unknown): number | null => {
+    if (limit === undefined) return DEFAULT_PAGE_SIZE;
+
+    const size = Number(limit);
+    return Number.isInteger(size) && size >= 1 && size <= MAX_PAGE_SIZE ? size : null;
+};
+
+/**
+ * Build Paginated Response
+ *
+ * Expects one row more than the page size, which tells whether there is a
+ * next page without a second query.
+ *
+ * @param rows - Rows fetched with `take: perPage + 1`
+ * @param total - Number of rows matching the filters
+ * @param perPage - Page size
+ * @param page - Current page number
+ * @returns Paginated response with the cursor of the next page
+ */
+export const toPaginatedResponse = <T extends { id: number }>(
+    rows: T[],
+    total: number,
+    perPage: number,
+    page: number
+): PaginatedResponse<T> => {
+    const data = rows.slice(0, perPage);
+    const hasMore = rows.length > perPage;
+
+    return {
+        data,
+        pagination: {
+            total,
+            pages: Math.ceil(total / perPage),
+            current: page,
+            perPage,
+            nextCursor: hasMore ? encodeCursor({ id: data[data.length - 1].id, page: page + 1 }) : null
+        }
+    };
+};
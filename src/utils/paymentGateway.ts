@@ -0,0 +1,371 @@
+/**
+ * Payment Gateway Utilities
+ *
+ * Drives PENDING payment legs through their payment provider once the
+ * transaction that created them has committed (provider calls never run
+ * inside a database transaction).
+ *
+ * Refunds recorded PENDING (see utils/refunds) are sent to the provider the
+ * same way, and legs voided when an order is cancelled are voided at the
+ * provider after the cancellation commits.
+ *
+ * Leg outcomes:
+ * - Captured: COMPLETED, and the order is marked paid once covered
+ * - 3-D Secure challenge: stays PENDING until the provider reports the
+ *   outcome through its webhook
+ * - Declined, failed or timed out: FAILED with the reason; items linked to
+ *   the leg are released so they can be paid again. Timed out
+ *   authorizations are voided (by our reference when the provider's ID never
+ *   came back) in case the provider did process them; one that cannot be
+ *   voided is never captured and expires at the provider.
+ * - Capture timed out: stays PENDING, as the provider may have captured it;
+ *   its webhook settles the leg
+ *
+ * Legs only move forward (PENDING -> COMPLETED or FAILED, COMPLETED ->
+ * REFUNDED), so late or out-of-order provider events never regress a leg.
+ */
+
+import { Payment, Prisma, Refund } from '@prisma/client';
+import prisma from './prisma';
+import { PAYMENT_TOLERANCE, refreshPaidState, roundCurrency } from './payments';
+import { completeRefund, failRefund, getRefundableAmount, issueRefund } from './refunds';
+import {
+    getPaymentProvider,
+    PAYMENT_CURRENCY,
+    PaymentProviderError,
+    PaymentProviderEvent,
+    ProviderNextAction,
+    withProviderTimeout
+} from './paymentProviders';
+
+/**
+ * Result of charging one leg
+ */
+export interface ChargeOutcome {
+    payment: Payment;
+    nextAction: ProviderNextAction | null; // Step the customer must complete (PENDING legs)
+}
+
+/**
+ * Result of applying a provider event to its payment leg
+ */
+export interface ProviderEventResult {
+    payment: Payment;
+    applied: boolean;      // False when the event is stale for the leg's current status
+    note: string | null;   // Why a stale event was ignored
+}
+
+/**
+ * Mark a pending leg as failed and release its items.
+ * Returns null if the leg is no longer pending.
+ */
+const failPaymentLeg = async (
+    db: Prisma.TransactionClient,
+    paymentId: number,
+    failureReason: string
+): Promise<Payment | null> => {
+    const claimed = await db.payment.updateMany({
+        where: { id: paymentId, status: 'PENDING' },
+        data: { status: 'FAILED', failureReason }
+    });
+    if (claimed.count === 0) return null;
+
+    await db.orderItem.updateMany({
+        where: { paymentId },
+        data: { paymentId: null }
+    });
+    const payment = await db.payment.findUniqueOrThrow({ where: { id: paymentId } });
+    await refreshPaidState(db, payment.orderId);
+    return payment;
+};
+
+/**
+ * Mark a pending leg as collected.
+ * Returns null if the leg is no longer pending.
+ */
+const completePaymentLeg = async (db: Prisma.TransactionClient, paymentId: number): Promise<Payment | null> => {
+    const claimed = await db.payment.updateMany({
+        where: { id: paymentId, status: 'PENDING' },
+        data: { status: 'COMPLETED', failureReason: null }
+    });
+    if (claimed.count === 0) return null;
+
+    const payment = await db.payment.findUniqueOrThrow({ where: { id: paymentId } });
+    await refreshPaidState(db, payment.orderId);
+    return payment;
+};
+
+/**
+ * Settle a leg after the provider's answer. A webhook may have settled it
+ * first, in which case the leg is returned as it is.
+ */
+const settlePaymentLeg = async (paymentId: number, failureReason?: string): Promise<Payment> => {
+    return prisma.$transaction(async (tx) => {
+        const settled = failureReason === undefined
+            ? await completePaymentLeg(tx, paymentId)
+            : await failPaymentLeg(tx, paymentId, failureReason);
+        return settled ?? tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+    });
+};
+
+/**
+ * Charge Payment Leg
+ *
+ * Authorizes and captures a PENDING leg with its provider. Legs without a
+ * provider are returned unchanged.
+ *
+ * @param payment - Leg created by recordPaymentLegs
+ * @param paymentToken - Card/wallet token from the client
+ * @returns The leg after the provider's answer, plus any customer action
+ */
+export const chargePaymentLeg = async (payment: Payment, paymentToken?: string): Promise<ChargeOutcome> => {
+    if (payment.status !== 'PENDING' || !payment.provider) {
+        return { payment, nextAction: null };
+    }
+
+    const provider = getPaymentProvider(payment.provider);
+    const reference = `payment-${payment.id}`;
+    let providerPaymentId: string | null = null;
+    let capturing = false;
+
+    try {
+        // The tip is charged together with the leg
+        const chargeAmount = roundCurrency(payment.amount + payment.tipAmount);
+        const authorization = await withProviderTimeout(provider.authorize({
+            amount: chargeAmount,
+            currency: PAYMENT_CURRENCY,
+            method: payment.method,
+            reference,
+            paymentToken
+        }));
+        providerPaymentId = authorization.providerPaymentId;
+
+        if (providerPaymentId) {
+            await prisma.payment.update({
+                where: { id: payment.id },
+                data: { providerPaymentId }
+            });
+        }
+
+        if (authorization.status === 'DECLINED') {
+            return { payment: await settlePaymentLeg(payment.id, authorization.declineReason), nextAction: null };
+        }
+
+        if (authorization.status === 'REQUIRES_ACTION') {
+            const pending = await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+            return { payment: pending, nextAction: authorization.nextAction };
+        }
+
+        capturing = true;
+        const capture = await withProviderTimeout(provider.capture(authorization.providerPaymentId, chargeAmount));
+        if (capture.status !== 'CAPTURED') {
+            await provider.void(authorization.providerPaymentId).catch(() => undefined);
+            const reason = capture.status === 'DECLINED' ? capture.declineReason : 'Capture failed';
+            return { payment: await settlePaymentLeg(payment.id, reason), nextAction: null };
+        }
+
+        return { payment: await settlePaymentLeg(payment.id), nextAction: null };
+    } catch (error) {
+        if (!(error instanceof PaymentProviderError)) throw error;
+
+        // A timed out capture may have gone through; the provider's webhook settles the leg
+        if (error.timedOut && capturing) {
+            return { payment: await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } }), nextAction: null };
+        }
+
+        // The provider may still have processed a timed out call, so release any authorization
+        if (providerPaymentId) {
+            await withProviderTimeout(provider.void(providerPaymentId)).catch(() => undefined);
+        } else if (error.timedOut) {
+            await withProviderTimeout(provider.voidByReference(reference)).catch(() => undefined);
+        }
+        return { payment: await settlePaymentLeg(payment.id, error.message), nextAction: null };
+    }
+};
+
+/**
+ * Charge Payment Legs
+ *
+ * @param payments - Legs created by recordPaymentLegs, in leg order
+ * @param paymentTokens - Token of each leg, in the same order
+ * @returns Outcome of each leg
+ */
+export const chargePaymentLegs = async (
+    payments: Payment[],
+    paymentTokens: (string | undefined)[] = []
+): Promise<ChargeOutcome[]> => {
+    const outcomes = [];
+    for (const [index, payment] of payments.entries()) {
+        outcomes.push(await chargePaymentLeg(payment, paymentTokens[index]));
+    }
+    return outcomes;
+};
+
+/**
+ * Send Provider Refund
+ *
+ * Returns the money of a PENDING refund through the payment provider and
+ * marks the refund COMPLETED, or FAILED if the provider declines. A refund
+ * whose call timed out stays PENDING, as the provider may have processed it;
+ * its webhook settles it.
+ *
+ * @param refundId - Refund recorded by issueRefund
+ * @returns The refund after the provider's answer
+ */
+export const sendProviderRefund = async (refundId: number): Promise<Refund> => {
+    const refund = await prisma.refund.findUniqueOrThrow({ where: { id: refundId }, include: { payment: true } });
+    const { payment, ...current } = refund;
+    if (current.status !== 'PENDING' || !payment.provider || !payment.providerPaymentId) {
+        return current;
+    }
+
+    try {
+        const result = await withProviderTimeout(
+            getPaymentProvider(payment.provider).refund(
+                payment.providerPaymentId,
+                roundCurrency(current.amount + current.tipAmount)
+            )
+        );
+        if (result.status === 'DECLINED') {
+            await prisma.$transaction(tx =>
+                failRefund(tx, current.id, `Refund declined by the payment provider: ${result.declineReason}`)
+            );
+        } else {
+            await completeRefund(prisma, current.id, result.providerRefundId);
+        }
+    } catch (error) {
+        if (!(error instanceof PaymentProviderError)) throw error;
+        if (!error.timedOut) {
+            await prisma.$transaction(tx => failRefund(tx, current.id, error.message));
+        }
+    }
+
+    return prisma.refund.findUniqueOrThrow({ where: { id: current.id } });
+};
+
+/**
+ * Settle Provider Refunds
+ *
+ * Call after a transaction that refunded an order's payments (cancellation,
+ * amendment) has committed: voids the legs it marked FAILED and sends its
+ * PENDING refunds to the provider.
+ *
+ * @param orderId - Order whose refunds are sent
+ * @param voidedPayments - Legs voided by refundOrderPayments
+ * @returns The order's refunds that were sent, after the provider's answer
+ */
+export const settleProviderRefunds = async (orderId: number, voidedPayments: Payment[] = []): Promise<Refund[]> => {
+    for (const payment of voidedPayments) {
+        if (!payment.provider || !payment.providerPaymentId) continue;
+        try {
+            await withProviderTimeout(getPaymentProvider(payment.provider).void(payment.providerPaymentId));
+        } catch (error) {
+            // The leg is already FAILED; an authorization left behind expires at the provider
+            if (!(error instanceof PaymentProviderError)) throw error;
+            console.error(`Failed to void payment ${payment.id}:`, error.message);
+        }
+    }
+
+    const pending = await prisma.refund.findMany({
+        where: { orderId, status: 'PENDING' },
+        select: { id: true }
+    });
+
+    const refunds = [];
+    for (const refund of pending) {
+        refunds.push(await sendProviderRefund(refund.id));
+    }
+    return refunds;
+};
+
+/**
+ * Apply Provider Event
+ *
+ * Moves a payment leg forward according to a provider webhook event:
+ * - payment.captured: PENDING -> COMPLETED
+ * - payment.failed: PENDING -> FAILED
+ * - payment.refunded: records a PROVIDER_INITIATED refund (a pending leg is
+ *   completed first, as the capture event may still be on its way). Refunds
+ *   we issued ourselves are recognised by their provider refund ID, or
+ *   complete our PENDING refund of the same amount.
+ *
+ * Events that would move the leg backwards are not applied.
+ *
+ * @param db - Prisma transaction client
+ * @param providerName - Provider that sent the event
+ * @param event - Parsed webhook event
+ * @returns The leg and whether the event changed it
+ * @throws Error if no payment leg matches the event
+ */
+export const applyProviderEvent = async (
+    db: Prisma.TransactionClient,
+    providerName: string,
+    event: PaymentProviderEvent
+): Promise<ProviderEventResult> => {
+    const payment = await db.payment.findUnique({
+        where: { provider_providerPaymentId: { provider: providerName, providerPaymentId: event.providerPaymentId } }
+    });
+    if (!payment) {
+        throw new Error(`No payment matches ${providerName} payment ${event.providerPaymentId}`);
+    }
+
+    const ignored = (note: string): ProviderEventResult => ({ payment, applied: false, note });
+
+    if (event.type === 'payment.captured') {
+        const completed = await completePaymentLeg(db, payment.id);
+        return completed ? { payment: completed, applied: true, note: null } : ignored(`Payment leg is already ${payment.status}`);
+    }
+
+    if (event.type === 'payment.failed') {
+        const failed = await failPaymentLeg(db, payment.id, event.failureReason ?? 'Payment failed');
+        return failed ? { payment: failed, applied: true, note: null } : ignored(`Payment leg is already ${payment.status}`);
+    }
+
+    if (payment.status === 'FAILED') {
+        return ignored('Payment leg is FAILED');
+    }
+    if (event.providerRefundId) {
+        const known = await db.refund.findFirst({
+            where: { paymentId: payment.id, providerRefundId: event.providerRefundId }
+        });
+        if (known) return ignored(`Refund ${event.providerRefundId} is already recorded`);
+    }
+
+    // Our own refund whose provider call has not returned (or timed out)
+    const pendingRefunds = await db.refund.findMany({
+        where: { paymentId: payment.id, status: 'PENDING' },
+        orderBy: { id: 'asc' }
+    });
+    const ours = pendingRefunds.find(refund =>
+        event.amount === undefined || Math.abs(refund.amount + refund.tipAmount - event.amount) < PAYMENT_TOLERANCE
+    );
+    if (ours) {
+        await completeRefund(db, ours.id, event.providerRefundId ?? null);
+        return {
+            payment: await db.payment.findUniqueOrThrow({ where: { id: payment.id } }),
+            applied: true,
+            note: null
+        };
+    }
+
+    const collected = (await completePaymentLeg(db, payment.id)) ?? payment;
+    const refundable = getRefundableAmount(collected);
+    if (refundable <= 0) {
+        return ignored('Payment leg is already refunded in full');
+    }
+
+    await issueRefund(db, collected, {
+        amount: Math.min(event.amount ?? refundable, refundable),
+        reason: 'PROVIDER_INITIATED',
+        method: collected.method,
+        approvedById: null,
+        note: 'Refunded at the payment provider',
+        providerRefundId: event.providerRefundId ?? null
+    });
+
+    return {
+        payment: await db.payment.findUniqueOrThrow({ where: { id: payment.id } }),
+        applied: true,
+        note: null
+    };
+};
@@ -0,0 +1,79 @@
+/**
+ * Payment Providers
+ *
+ * Card and mobile payments are taken through a payment provider (gateway)
+ * chosen per branch (Branch.paymentProvider). Every provider implements the
+ * same adapter interface, so the payment flow does not depend on a specific
+ * gateway. Cash is always recorded directly.
+ *
+ * Flow:
+ * - authorize: Reserve the amount; may require a customer action (3-D Secure)
+ * - capture: Collect an authorized amount
+ * - void: Release an authorization that will not be captured
+ * - voidByReference: Release an authorization by our reference, when the
+ *   authorize call timed out before the provider's ID came back
+ * - refund: Return (part of) a captured amount
+ * - verifyWebhookSignature: Check a callback was sent by the provider
+ * - parseWebhook: Turn a provider callback into a PaymentProviderEvent
+ *
+ * Adding a provider: implement PaymentProvider and register it below.
+ */
+
+import { PaymentProvider, PaymentProviderError } from './types';
+import { mockProvider } from './mockProvider';
+
+export * from './types';
+
+// Provider calls that take longer than this count as timed out (the request waits
+// for the provider, so this bounds how long a payment or refund request can hang)
+export const PROVIDER_TIMEOUT_MS = Number(process.env.PAYMENT_PROVIDER_TIMEOUT_MS || 4000);
+
+export const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || 'SEK';
+
+const providers: Record<string, PaymentProvider> = {
+    [mockProvider.name]: mockProvider
+};
+
+export const PAYMENT_PROVIDER_NAMES = Object.keys(providers);
+
+/**
+ * Get Payment Provider
+ *
+ * @param name - Provider name as stored on the branch or payment
+ * @returns The provider adapter
+ * @throws PaymentProviderError if no provider is registered under the name
+ */
+export const getPaymentProvider = (name: string): PaymentProvider => {
+    const provider = providers[name];
+    if (!provider) {
+        throw new PaymentProviderError(`Unknown payment provider "${name}"`);
+    }
+    return provider;
+};
+
+/**
+ * Get Webhook Secret
+ *
+ * Each provider's webhook signing secret is read from
+ * PAYMENT_WEBHOOK_SECRET_<NAME> (e.g. PAYMENT_WEBHOOK_SECRET_MOCK).
+ *
+ * @param name - Provider name
+ * @returns The secret, or null if none is configured
+ */
+export const getWebhookSecret = (name: string): string | null =>
+    process.env[`PAYMENT_WEBHOOK_SECRET_${name.toUpperCase()}`] || null;
+
+/**
+ * With Provider Timeout
+ *
+ * @param call - Pending provider call
+ * @returns The call's result
+ * @throws PaymentProviderError (timedOut) if the provider does not answer in time
+ */
+export const withProviderTimeout = <T>(call: Promise<T>): Promise<T> => {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new PaymentProviderError('Payment provider timed out', true)), PROVIDER_TIMEOUT_MS);
+    });
+    return Promise.race([call, timeout]).finally(() => clearTimeout(timer));
+};
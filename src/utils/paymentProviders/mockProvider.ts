@@ -0,0 +1,216 @@
+/**
+ * Mock Payment Provider
+ *
+ * Local stand-in for a card gateway so payment flows can be exercised
+ * offline. Transactions live in memory. The outcome is chosen with the
+ * payment token sent by the client, like the test cards of real gateways:
+ *
+ * - tok_approve (or no token): Authorized and captured
+ * - tok_decline: Declined ("Card declined")
+ * - tok_insufficient_funds: Declined ("Insufficient funds")
+ * - tok_timeout: Authorizes but never answers, so the call times out
+ * - tok_3ds: Requires a 3-D Secure challenge; the payment stays PENDING until
+ *   the challenge is completed (see completeMockChallenge)
+ *
+ * Webhooks are plain JSON events:
+ * { id, type, providerPaymentId, amount?, failureReason?, providerRefundId? },
+ * signed with an `X-Mock-Signature: sha256=<hex>` header holding the
+ * HMAC-SHA256 of the raw body under the webhook secret.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+    PaymentProvider,
+    PaymentProviderError,
+    PaymentProviderEvent,
+    ProviderRefundResult,
+    ProviderResult,
+    WebhookHeaders
+} from './types';
+
+type MockStatus = 'REQUIRES_ACTION' | 'AUTHORIZED' | 'CAPTURED' | 'VOIDED' | 'DECLINED';
+
+interface MockTransaction {
+    id: string;
+    reference: string;
+    amount: number;
+    status: MockStatus;
+    refunded: number;
+}
+
+const EVENT_TYPES: PaymentProviderEvent['type'][] = ['payment.captured', 'payment.failed', 'payment.refunded'];
+
+// Simulated network latency of every call
+const LATENCY_MS = Number(process.env.MOCK_PAYMENT_LATENCY_MS || 50);
+
+const transactions = new Map<string, MockTransaction>();
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms).unref());
+
+const findTransaction = (providerPaymentId: string): MockTransaction => {
+    const transaction = transactions.get(providerPaymentId);
+    if (!transaction) {
+        throw new PaymentProviderError(`Unknown mock payment ${providerPaymentId}`);
+    }
+    return transaction;
+};
+
+export const mockProvider: PaymentProvider = {
+    name: 'mock',
+
+    async authorize(request): Promise<ProviderResult> {
+        await delay(LATENCY_MS);
+
+        const transaction: MockTransaction = {
+            id: `mock_${randomUUID()}`,
+            reference: request.reference,
+            amount: request.amount,
+            status: 'AUTHORIZED',
+            refunded: 0
+        };
+        transactions.set(transaction.id, transaction);
+
+        if (request.paymentToken === 'tok_timeout') {
+            await delay(24 * 60 * 60 * 1000); // Outlasts any provider timeout
+        }
+
+        switch (request.paymentToken) {
+            case 'tok_decline':
+                transaction.status = 'DECLINED';
+                return { status: 'DECLINED', providerPaymentId: transaction.id, declineReason: 'Card declined' };
+            case 'tok_insufficient_funds':
+                transaction.status = 'DECLINED';
+                return { status: 'DECLINED', providerPaymentId: transaction.id, declineReason: 'Insufficient funds' };
+            case 'tok_3ds':
+                transaction.status = 'REQUIRES_ACTION';
+                return {
+                    status: 'REQUIRES_ACTION',
+                    providerPaymentId: transaction.id,
+                    nextAction: { type: 'THREE_D_SECURE', url: `/api/payments/mock/${transaction.id}/challenge` }
+                };
+            default:
+                return { status: 'AUTHORIZED', providerPaymentId: transaction.id };
+        }
+    },
+
+    async capture(providerPaymentId, amount): Promise<ProviderResult> {
+        await delay(LATENCY_MS);
+        const transaction = findTransaction(providerPaymentId);
+
+        if (transaction.status !== 'AUTHORIZED') {
+            return { status: 'DECLINED', providerPaymentId, declineReason: `Cannot capture a ${transaction.status} payment` };
+        }
+        if (amount > transaction.amount) {
+            return { status: 'DECLINED', providerPaymentId, declineReason: 'Capture exceeds the authorized amount' };
+        }
+
+        transaction.amount = amount;
+        transaction.status = 'CAPTURED';
+        return { status: 'CAPTURED', providerPaymentId };
+    },
+
+    async void(providerPaymentId): Promise<ProviderResult> {
+        await delay(LATENCY_MS);
+        const transaction = findTransaction(providerPaymentId);
+
+        if (!['AUTHORIZED', 'REQUIRES_ACTION'].includes(transaction.status)) {
+            return { status: 'DECLINED', providerPaymentId, declineReason: `Cannot void a ${transaction.status} payment` };
+        }
+
+        transaction.status = 'VOIDED';
+        return { status: 'VOIDED', providerPaymentId };
+    },
+
+    async voidByReference(reference): Promise<ProviderResult> {
+        const transaction = [...transactions.values()].find(entry => entry.reference === reference);
+        if (!transaction) {
+            await delay(LATENCY_MS);
+            return { status: 'DECLINED', providerPaymentId: null, declineReason: `No payment with reference ${reference}` };
+        }
+        return mockProvider.void(transaction.id);
+    },
+
+    async refund(providerPaymentId, amount): Promise<ProviderRefundResult> {
+        await delay(LATENCY_MS);
+        const transaction = findTransaction(providerPaymentId);
+
+        if (transaction.status !== 'CAPTURED') {
+            return { status: 'DECLINED', declineReason: `Cannot refund a ${transaction.status} payment` };
+        }
+        if (transaction.refunded + amount > transaction.amount + 0.001) {
+            return { status: 'DECLINED', declineReason: 'Refund exceeds the captured amount' };
+        }
+
+        transaction.refunded += amount;
+        return { status: 'REFUNDED', providerRefundId: `mock_refund_${randomUUID()}` };
+    },
+
+    verifyWebhookSignature(rawBody, headers: WebhookHeaders, secret): boolean {
+        const header = headers['x-mock-signature'];
+        const signature = typeof header === 'string' && header.startsWith('sha256=') ? header.slice(7) : null;
+        if (!signature) return false;
+
+        const expected = Buffer.from(signMockWebhook(rawBody, secret), 'hex');
+        const received = Buffer.from(signature, 'hex');
+        return received.length === expected.length && timingSafeEqual(received, expected);
+    },
+
+    parseWebhook(rawBody): PaymentProviderEvent {
+        let event: Partial<PaymentProviderEvent> | null;
+        try {
+            event = JSON.parse(rawBody);
+        } catch {
+            throw new PaymentProviderError('Mock webhook body is not valid JSON');
+        }
+
+        if (
+            typeof event?.id !== 'string'
+            || !EVENT_TYPES.includes(event.type as PaymentProviderEvent['type'])
+            || typeof event.providerPaymentId !== 'string'
+        ) {
+            throw new PaymentProviderError('Malformed mock webhook event');
+        }
+
+        return {
+            id: event.id,
+            type: event.type as PaymentProviderEvent['type'],
+            providerPaymentId: event.providerPaymentId,
+            amount: typeof event.amount === 'number' ? event.amount : undefined,
+            failureReason: typeof event.failureReason === 'string' ? event.failureReason : undefined,
+            providerRefundId: typeof event.providerRefundId === 'string' ? event.providerRefundId : undefined
+        };
+    }
+};
+
+/**
+ * Sign Mock Webhook
+ *
+ * @param rawBody - Webhook body exactly as sent
+ * @param secret - Webhook secret of the mock provider
+ * @returns Hex signature for the X-Mock-Signature header (after "sha256=")
+ */
+export const signMockWebhook = (rawBody: string, secret: string): string =>
+    createHmac('sha256', secret).update(rawBody).digest('hex');
+
+/**
+ * Complete Mock Challenge
+ *
+ * Plays the customer's side of a 3-D Secure challenge. An approved challenge
+ * is captured straight away. Returns the webhook event the provider would send.
+ *
+ * @param providerPaymentId - Mock payment waiting for a challenge
+ * @param approve - Whether the customer passed the challenge
+ * @returns Webhook event describing the outcome
+ */
+export const completeMockChallenge = (providerPaymentId: string, approve: boolean): PaymentProviderEvent => {
+    const transaction = findTransaction(providerPaymentId);
+    if (transaction.status !== 'REQUIRES_ACTION') {
+        throw new PaymentProviderError(`Mock payment ${providerPaymentId} is not waiting for a challenge`);
+    }
+
+    transaction.status = approve ? 'CAPTURED' : 'DECLINED';
+
+    return approve
+        ? { id: `evt_${randomUUID()}`, type: 'payment.captured', providerPaymentId, amount: transaction.amount }
+        : { id: `evt_${randomUUID()}`, type: 'payment.failed', providerPaymentId, failureReason: '3-D Secure authentication failed' };
+};
@@ -0,0 +1,79 @@
+/**
+ * Payment Provider Types
+ *
+ * Adapter interface and shared types implemented by every payment provider.
+ */
+
+import { PaymentMethod } from '@prisma/client';
+
+/**
+ * Amount to authorize for one payment leg
+ */
+export interface AuthorizeRequest {
+    amount: number;
+    currency: string;
+    method: PaymentMethod;
+    reference: string;       // Our payment ID, echoed in provider dashboards
+    paymentToken?: string;   // Card/wallet token from the client (provider-specific)
+}
+
+/**
+ * Step the customer must complete before the payment can continue
+ */
+export interface ProviderNextAction {
+    type: 'THREE_D_SECURE';
+    url: string;
+}
+
+/**
+ * Outcome of a provider call
+ */
+export type ProviderResult =
+    | { status: 'AUTHORIZED' | 'CAPTURED' | 'VOIDED'; providerPaymentId: string }
+    | { status: 'REQUIRES_ACTION'; providerPaymentId: string; nextAction: ProviderNextAction }
+    | { status: 'DECLINED'; providerPaymentId: string | null; declineReason: string };
+
+/**
+ * Outcome of a provider refund
+ */
+export type ProviderRefundResult =
+    | { status: 'REFUNDED'; providerRefundId: string }
+    | { status: 'DECLINED'; declineReason: string };
+
+/**
+ * Provider callback after parsing
+ */
+export interface PaymentProviderEvent {
+    id: string;                 // Provider event ID
+    type: 'payment.captured' | 'payment.failed' | 'payment.refunded';
+    providerPaymentId: string;
+    amount?: number;
+    failureReason?: string;
+    providerRefundId?: string;  // payment.refunded: the provider's refund ID
+}
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Payment Provider Adapter
+ */
+export interface PaymentProvider {
+    readonly name: string;
+    authorize(request: AuthorizeRequest): Promise<ProviderResult>;
+    capture(providerPaymentId: string, amount: number): Promise<ProviderResult>;
+    void(providerPaymentId: string): Promise<ProviderResult>;
+    voidByReference(reference: string): Promise<ProviderResult>; // For authorizations whose answer never arrived
+    refund(providerPaymentId: string, amount: number): Promise<ProviderRefundResult>;
+    verifyWebhookSignature(rawBody: string, headers: WebhookHeaders, secret: string): boolean;
+    parseWebhook(rawBody: string): PaymentProviderEvent;
+}
+
+/**
+ * Provider call failed (unreachable, timed out or rejected the request)
+ */
+export class PaymentProviderError extends Error {
+    constructor(message: string, public timedOut = false) {
+        super(message);
+        this.name = 'PaymentProviderError';
+    }
+}
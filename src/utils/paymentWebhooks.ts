@@ -0,0 +1,107 @@
+/**
+ * Payment Webhook Utilities
+ *
+ * Every verified provider webhook is stored with its raw body before it is
+ * processed, so nothing is lost when processing fails. Deliveries are
+ * deduplicated on the provider's event ID: a repeated delivery of a processed
+ * event is acknowledged without touching the payment again.
+ *
+ * Event statuses:
+ * - RECEIVED: Stored, not processed yet
+ * - PROCESSED: Applied to its payment leg
+ * - IGNORED: Stale for the leg's current status (see applyProviderEvent)
+ * - FAILED: Processing failed (e.g. the event arrived before its payment leg
+ *   was linked to the provider); replayed by the provider's retries or by an admin
+ */
+
+import { PaymentWebhookEvent, Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { applyProviderEvent } from './paymentGateway';
+import { getPaymentProvider, PaymentProviderEvent } from './paymentProviders';
+
+export const REPLAYABLE_WEBHOOK_STATUSES: PaymentWebhookEvent['status'][] = ['RECEIVED', 'FAILED'];
+
+/**
+ * Record Webhook Event
+ *
+ * @param providerName - Provider that sent the event
+ * @param rawBody - Request body exactly as received
+ * @param event - Event parsed from the body
+ * @returns The stored event, and whether it had been received before
+ */
+export const recordWebhookEvent = async (
+    providerName: string,
+    rawBody: string,
+    event: PaymentProviderEvent
+): Promise<{ event: PaymentWebhookEvent; duplicate: boolean }> => {
+    try {
+        const stored = await prisma.paymentWebhookEvent.create({
+            data: {
+                provider: providerName,
+                eventId: event.id,
+                type: event.type,
+                providerPaymentId: event.providerPaymentId,
+                payload: rawBody
+            }
+        });
+        return { event: stored, duplicate: false };
+    } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error;
+
+        const stored = await prisma.paymentWebhookEvent.findUniqueOrThrow({
+            where: { provider_eventId: { provider: providerName, eventId: event.id } }
+        });
+        return { event: stored, duplicate: true };
+    }
+};
+
+/**
+ * Process Webhook Event
+ *
+ * Applies a stored event to its payment leg from the stored payload. The
+ * event is claimed inside the transaction, so concurrent deliveries or
+ * replays apply it only once. Events that are already settled are returned
+ * unchanged.
+ *
+ * @param stored - Stored webhook event
+ * @returns The event with its new status
+ */
+export const processWebhookEvent = async (stored: PaymentWebhookEvent): Promise<PaymentWebhookEvent> => {
+    if (!REPLAYABLE_WEBHOOK_STATUSES.includes(stored.status)) return stored;
+
+    try {
+        const event = getPaymentProvider(stored.provider).parseWebhook(stored.payload);
+
+        return await prisma.$transaction(async (tx) => {
+            const claimed = await tx.paymentWebhookEvent.updateMany({
+                where: { id: stored.id, status: { in: REPLAYABLE_WEBHOOK_STATUSES } },
+                data: { attempts: { increment: 1 } }
+            });
+            if (claimed.count === 0) {
+                return tx.paymentWebhookEvent.findUniqueOrThrow({ where: { id: stored.id } });
+            }
+
+            const result = await applyProviderEvent(tx, stored.provider, event);
+
+            return tx.paymentWebhookEvent.update({
+                where: { id: stored.id },
+                data: {
+                    status: result.applied ? 'PROCESSED' : 'IGNORED',
+                    error: result.note,
+                    paymentId: result.payment.id,
+                    processedAt: new Date()
+                }
+            });
+        });
+    } catch (error) {
+        console.error(`Error processing ${stored.provider} webhook event ${stored.eventId}:`, error);
+        return prisma.paymentWebhookEvent.update({
+            where: { id: stored.id },
+            data: {
+                status: 'FAILED',
+                error: error instanceof Error ? error.message : 'Processing failed',
+                attempts: { increment: 1 }
+            }
+        });
+    }
+};
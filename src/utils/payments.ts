@@ -0,0 +1,315 @@
+/**
+ * Payment Utilities
+ *
+ * An order can be paid with several payment legs (split bills, cash plus
+ * card, ...). This module validates requested legs against the balance due
+ * and records them.
+ *
+ * Rules:
+ * - A leg pays either a custom amount or a set of order items
+ * - Items can only be paid once, and legs may not exceed the balance due
+ * - Collected legs count towards the total, even if refunded later (refunds
+ *   are tracked separately, see utils/refunds). Refunds for amended orders
+ *   (ORDER_AMENDED) are the exception: they returned money for items that are
+ *   no longer on the order, so they no longer count as paid
+ * - Card and mobile legs taken online stay PENDING until the payment provider
+ *   captures them (see utils/paymentGateway); pending legs hold their share of
+ *   the balance so it cannot be paid twice
+ * - The order is paid (Order.paidAt) once collected legs cover the total
+ * - A leg may carry a tip on top of its amount (see utils/tips); tips do not
+ *   count towards the total
+ * - GIFT_CARD legs name the card (giftCardCode) and are redeemed from it when
+ *   recorded (see utils/giftCards)
+ */
+
+import { PaymentMethod, PaymentStatus, Prisma, RefundReason, RefundStatus } from '@prisma/client';
+import { resolveTip } from './tips';
+import { redeemGiftCard } from './giftCards';
+
+// Amounts within this tolerance count as equal (floating point currency)
+export const PAYMENT_TOLERANCE = 0.01;
+
+// Methods collected directly, never through a payment provider (CASH legs are
+// only recorded by staff, see paymentController.processPayment)
+export const DIRECT_PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'GIFT_CARD'];
+
+/**
+ * Payment leg after validation
+ */
+export interface ResolvedPaymentLeg {
+    method: PaymentMethod;
+    amount: number;
+    orderItemIds: number[];
+    tipAmount: number;
+    paymentToken?: string; // Card/wallet token for the payment provider
+    giftCardCode?: string; // Card to redeem (GIFT_CARD legs)
+}
+
+export type PaymentLegResolution =
+    | { legs: ResolvedPaymentLeg[]; total: number; error?: undefined }
+    | { error: string };
+
+/**
+ * Payment leg with the refunds needed to work out the balance due
+ */
+export interface BalancePayment {
+    amount: number;
+    status: PaymentStatus;
+    refunds: { amount: number; reason: RefundReason; status: RefundStatus }[];
+}
+
+interface PayableOrder {
+    totalAmount: number;
+    items: { id: number; subtotal: number; paymentId: number | null }[];
+    payments: BalancePayment[];
+}
+
+// Loads an order's payment legs with what getBalanceDue needs
+export const balancePaymentsArgs = {
+    include: { refunds: { select: { amount: true, reason: true, status: true } } }
+} satisfies Prisma.Order$paymentsArgs;
+
+export const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Payment legs in these states were collected from the customer
+export const COLLECTED_PAYMENT_STATUSES: PaymentStatus[] = ['COMPLETED', 'REFUNDED'];
+
+/**
+ * Get Paid Amount
+ *
+ * @param payments - Payment legs of an order
+ * @returns Sum of collected legs
+ */
+export const getPaidAmount = (payments: { amount: number; status: PaymentStatus }[]): number =>
+    roundCurrency(
+        payments
+            .filter(payment => COLLECTED_PAYMENT_STATUSES.includes(payment.status))
+            .reduce((sum, payment) => sum + payment.amount, 0)
+    );
+
+/**
+ * Get Amount Paid Towards Total
+ *
+ * @param payments - Payment legs of an order with their refunds
+ * @returns Sum of collected legs minus what was refunded from them because
+ *          the order was amended
+ */
+export const getAmountPaidTowardsTotal = (payments: BalancePayment[]): number =>
+    roundCurrency(
+        payments
+            .filter(payment => COLLECTED_PAYMENT_STATUSES.includes(payment.status))
+            .reduce((sum, payment) => sum + payment.amount - payment.refunds
+                .filter(refund => refund.reason === 'ORDER_AMENDED' && refund.status !== 'FAILED')
+                .reduce((refunded, refund) => refunded + refund.amount, 0), 0)
+    );
+
+/**
+ * Get Pending Amount
+ *
+ * @param payments - Payment legs of an order
+ * @returns Sum of legs still waiting for the payment provider
+ */
+export const getPendingAmount = (payments: { amount: number; status: PaymentStatus }[]): number =>
+    roundCurrency(
+        payments
+            .filter(payment => payment.status === 'PENDING')
+            .reduce((sum, payment) => sum + payment.amount, 0)
+    );
+
+/**
+ * Get Balance Due
+ *
+ * @param order - Order with its payment legs
+ * @returns Amount still to be paid (never negative)
+ */
+export const getBalanceDue = (order: Pick<PayableOrder, 'totalAmount' | 'payments'>): number =>
+    Math.max(roundCurrency(order.totalAmount - getAmountPaidTowardsTotal(order.payments)), 0);
+
+/**
+ * Split Evenly
+ *
+ * Splits an amount into equal parts in whole cents; leftover cents go to
+ * the first parts so the parts always add up to the amount.
+ *
+ * @param amount - Amount to split
+ * @param ways - Number of parts
+ * @returns Part amounts
+ */
+export const splitEvenly = (amount: number, ways: number): number[] => {
+    const cents = Math.round(amount * 100);
+    const base = Math.floor(cents / ways);
+    const remainder = cents - base * ways;
+    return Array.from({ length: ways }, (_, index) => (base + (index < remainder ? 1 : 0)) / 100);
+};
+
+/**
+ * Resolve Payment Legs
+ *
+ * Validates the requested legs against the order and prices item legs.
+ *
+ * @param order - Order with items and existing payment legs
+ * @param requested - Legs as submitted ({ method, amount } or { method, orderItemIds }, each
+ *                    optionally with tipAmount or tipPercentage)
+ * @returns Validated legs and their total, or a validation error message
+ */
+export const resolvePaymentLegs = (order: PayableOrder, requested: unknown): PaymentLegResolution => {
+    if (!Array.isArray(requested) || !requested.length) {
+        return { error: 'At least one payment is required' };
+    }
+
+    const legs: ResolvedPaymentLeg[] = [];
+    const claimedItems = new Set<number>();
+
+    for (const leg of requested) {
+        if (!Object.values(PaymentMethod).includes(leg?.method)) {
+            return { error: `Payment method must be one of ${Object.values(PaymentMethod).join(', ')}` };
+        }
+        const paymentToken = typeof leg.paymentToken === 'string' ? leg.paymentToken : undefined;
+
+        let giftCardCode: string | undefined;
+        if (leg.method === 'GIFT_CARD') {
+            if (typeof leg.giftCardCode !== 'string' || !leg.giftCardCode.trim()) {
+                return { error: 'giftCardCode is required for GIFT_CARD payments' };
+            }
+            giftCardCode = leg.giftCardCode;
+        }
+
+        if (leg.orderItemIds !== undefined) {
+            if (!Array.isArray(leg.orderItemIds) || !leg.orderItemIds.length) {
+                return { error: 'orderItemIds must be a non-empty array' };
+            }
+
+            let amount = 0;
+            const orderItemIds: number[] = [];
+            for (const rawId of leg.orderItemIds) {
+                const item = order.items.find(orderItem => orderItem.id === Number(rawId));
+                if (!item) {
+                    return { error: `Order item ${rawId} does not belong to this order` };
+                }
+                if (item.paymentId !== null || claimedItems.has(item.id)) {
+                    return { error: `Order item ${item.id} is already paid` };
+                }
+                claimedItems.add(item.id);
+                orderItemIds.push(item.id);
+                amount += item.subtotal;
+            }
+
+            const tip = resolveTip(roundCurrency(amount), leg);
+            if (tip.error !== undefined) return { error: tip.error };
+
+            legs.push({ method: leg.method, amount: roundCurrency(amount), orderItemIds, tipAmount: tip.tipAmount, paymentToken, giftCardCode });
+            continue;
+        }
+
+        const amount = roundCurrency(Number(leg.amount));
+        if (!Number.isFinite(amount) || amount <= 0) {
+            return { error: 'Each payment needs an amount greater than 0 or a list of orderItemIds' };
+        }
+        const tip = resolveTip(amount, leg);
+        if (tip.error !== undefined) return { error: tip.error };
+
+        legs.push({ method: leg.method, amount, orderItemIds: [], tipAmount: tip.tipAmount, paymentToken, giftCardCode });
+    }
+
+    const total = roundCurrency(legs.reduce((sum, leg) => sum + leg.amount, 0));
+    const balanceDue = Math.max(roundCurrency(getBalanceDue(order) - getPendingAmount(order.payments)), 0);
+    if (total > balanceDue + PAYMENT_TOLERANCE) {
+        return { error: `Payments of ${total.toFixed(2)} exceed the balance due of ${balanceDue.toFixed(2)}` };
+    }
+
+    return { legs, total };
+};
+
+/**
+ * Refresh Paid State
+ *
+ * Sets Order.paidAt once collected legs cover the total, and clears it again
+ * if they no longer do (e.g. items were added to a paid order, or added back
+ * after removed ones were refunded).
+ *
+ * @param db - Prisma transaction client
+ * @param orderId - Order to check
+ * @returns The order's paid amount, balance due and paid timestamp
+ */
+export const refreshPaidState = async (db: Prisma.TransactionClient, orderId: number) => {
+    const order = await db.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { payments: balancePaymentsArgs }
+    });
+
+    const paidAmount = getPaidAmount(order.payments);
+    const balanceDue = getBalanceDue(order);
+    let paidAt = order.paidAt;
+
+    if (!paidAt && balanceDue <= PAYMENT_TOLERANCE) {
+        paidAt = new Date();
+    } else if (paidAt && balanceDue > PAYMENT_TOLERANCE) {
+        paidAt = null;
+    }
+
+    if (paidAt !== order.paidAt) {
+        await db.order.update({
+            where: { id: orderId },
+            data: { paidAt }
+        });
+    }
+
+    return { paidAmount, balanceDue, paidAt };
+};
+
+/**
+ * Record Payment Legs
+ *
+ * Creates the payment legs, links paid items and marks the order as paid
+ * once the total is covered. Must run inside the caller's transaction.
+ *
+ * With a payment provider, card and mobile legs are created PENDING and must
+ * be charged after the transaction commits (see chargePaymentLegs). Without
+ * one (in-person payments) every leg is recorded as collected. Gift card
+ * legs are redeemed from their card here, so a card that cannot cover its
+ * leg rolls back the caller's transaction (GiftCardError).
+ *
+ * @param db - Prisma transaction client
+ * @param orderId - Order being paid
+ * @param legs - Validated legs from resolvePaymentLegs
+ * @param provider - Payment provider for card and mobile legs (null = in person)
+ * @returns Created legs plus the order's paid amount and balance due
+ */
+export const recordPaymentLegs = async (
+    db: Prisma.TransactionClient,
+    orderId: number,
+    legs: ResolvedPaymentLeg[],
+    provider: string | null = null
+) => {
+    const payments = [];
+
+    for (const leg of legs) {
+        const viaProvider = provider !== null && !DIRECT_PAYMENT_METHODS.includes(leg.method);
+        let payment = await db.payment.create({
+            data: {
+                orderId,
+                amount: leg.amount,
+                tipAmount: leg.tipAmount,
+                method: leg.method,
+                status: viaProvider ? 'PENDING' : 'COMPLETED',
+                provider: viaProvider ? provider : null
+            }
+        });
+
+        if (leg.giftCardCode !== undefined) {
+            const card = await redeemGiftCard(db, leg.giftCardCode, payment);
+            payment = { ...payment, giftCardId: card.id };
+        }
+
+        if (leg.orderItemIds.length) {
+            await db.orderItem.updateMany({
+                where: { id: { in: leg.orderItemIds }, orderId },
+                data: { paymentId: payment.id }
+            });
+        }
+
+        payments.push(payment);
+    }
+
+    return { payments, ...await refreshPaidState(db, orderId) };
+};
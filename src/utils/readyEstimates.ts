@@ -0,0 +1,150 @@
+/**
+ * Ready Time Estimates
+ *
+ * Estimates when orders will be ready from the branch's kitchen queue.
+ * Estimates are computed on every read, so they follow the queue as orders
+ * are started, finished or cancelled.
+ *
+ * Model:
+ * - An order takes as long as its slowest item (items are prepared in parallel)
+ * - The kitchen works on `kitchenCapacity` orders at the same time
+ * - PREPARING orders come first and finish their prep time after they started;
+ *   PENDING orders follow in the order they were placed
+ * - Scheduled orders are never estimated before their slot, and orders not yet
+ *   released to the kitchen are estimated at their slot
+ */
+
+import { OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+import { kitchenReleaseFilter } from './scheduling';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MINUTE_MS = 60 * 1000;
+
+// Orders the kitchen still has to finish
+export const KITCHEN_QUEUE_STATUSES: OrderStatus[] = ['PREPARING', 'PENDING'];
+
+/**
+ * Estimate for one order
+ */
+export interface ReadyEstimate {
+    queuePosition: number | null;  // 1-based position in the kitchen queue (null when not queued)
+    estimatedReadyAt: Date | null; // Null once the order left the kitchen
+}
+
+interface EstimatableOrder {
+    id: number;
+    branchId: number;
+    status: OrderStatus;
+    scheduledFor: Date | null;
+}
+
+/**
+ * Estimate Branch Queue
+ *
+ * @param db - Prisma client or transaction client
+ * @param branchId - Branch whose kitchen queue is estimated
+ * @param now - Reference time (defaults to now)
+ * @returns Estimates of the queued orders by order ID
+ */
+export const estimateBranchQueue = async (
+    db: Db,
+    branchId: number,
+    now: Date = new Date()
+): Promise<Map<number, ReadyEstimate>> => {
+    const branch = await db.branch.findUnique({
+        where: { id: branchId },
+        select: { kitchenCapacity: true, scheduleLeadMinutes: true }
+    });
+    if (!branch) return new Map();
+
+    const orders = await db.order.findMany({
+        where: {
+            branchId,
+            status: { in: KITCHEN_QUEUE_STATUSES },
+            ...kitchenReleaseFilter(branch.scheduleLeadMinutes, now)
+        },
+        select: {
+            id: true,
+            status: true,
+            createdAt: true,
+            updatedAt: true,
+            scheduledFor: true,
+            items: { select: { menuItem: { select: { prepTimeMinutes: true } } } },
+            statusEvents: {
+                where: { toStatus: 'PREPARING' },
+                orderBy: { createdAt: 'desc' },
+                take: 1,
+                select: { createdAt: true }
+            }
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    const queue = [
+        ...orders.filter(order => order.status === 'PREPARING'),
+        ...orders.filter(order => order.status === 'PENDING')
+    ];
+
+    // Time at which each kitchen slot becomes free
+    const slots: number[] = Array(Math.max(branch.kitchenCapacity, 1)).fill(now.getTime());
+    const estimates = new Map<number, ReadyEstimate>();
+
+    queue.forEach((order, index) => {
+        const prepMs = Math.max(0, ...order.items.map(item => item.menuItem.prepTimeMinutes)) * MINUTE_MS;
+        const slot = slots.indexOf(Math.min(...slots));
+
+        let readyAt: number;
+        if (order.status === 'PREPARING') {
+            const startedAt = order.statusEvents[0]?.createdAt ?? order.updatedAt;
+            readyAt = Math.max(now.getTime(), startedAt.getTime() + prepMs);
+        } else {
+            readyAt = slots[slot] + prepMs;
+        }
+        slots[slot] = readyAt;
+
+        if (order.scheduledFor) {
+            readyAt = Math.max(readyAt, order.scheduledFor.getTime());
+        }
+
+        estimates.set(order.id, { queuePosition: index + 1, estimatedReadyAt: new Date(readyAt) });
+    });
+
+    return estimates;
+};
+
+/**
+ * Attach Ready Estimates
+ *
+ * Adds `queuePosition` and `estimatedReadyAt` to each order. Queues are
+ * estimated once per branch.
+ *
+ * @param db - Prisma client or transaction client
+ * @param orders - Orders to estimate
+ * @returns The orders with their estimates
+ */
+export const attachReadyEstimates = async <T extends EstimatableOrder>(
+    db: Db,
+    orders: T[]
+): Promise<(T & ReadyEstimate)[]> => {
+    const now = new Date();
+    const branchIds = [...new Set(
+        orders.filter(order => KITCHEN_QUEUE_STATUSES.includes(order.status)).map(order => order.branchId)
+    )];
+
+    const queues = new Map<number, Map<number, ReadyEstimate>>();
+    for (const branchId of branchIds) {
+        queues.set(branchId, await estimateBranchQueue(db, branchId, now));
+    }
+
+    return orders.map(order => {
+        if (!KITCHEN_QUEUE_STATUSES.includes(order.status)) {
+            return { ...order, queuePosition: null, estimatedReadyAt: null };
+        }
+
+        // Scheduled orders not yet released to the kitchen are expected at their slot
+        const estimate = queues.get(order.branchId)?.get(order.id)
+            ?? { queuePosition: null, estimatedReadyAt: order.scheduledFor };
+        return { ...order, ...estimate };
+    });
+};
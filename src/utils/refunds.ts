@@ -0,0 +1,235 @@
+/**
+ * Refund Utilities
+ *
+ * Refunds are recorded against a single payment leg and never change the
+ * original payment amount. Each leg tracks how much of it has been refunded;
+ * a leg that is refunded in full is marked REFUNDED.
+ *
+ * Refunds of legs taken through a payment provider are recorded PENDING and
+ * hold their amount on the leg. The provider is called once the transaction
+ * has committed (see sendProviderRefund); a declined refund is marked FAILED
+ * and its amount can be refunded again.
+ *
+ * Refunds of gift card payments with method GIFT_CARD are put back on the card.
+ *
+ * Tips are returned only when an order's payments are refunded in full
+ * (refundOrderPayments); they are recorded on the refund next to its amount.
+ *
+ * Reports treat refunds as negative revenue on the day they were issued.
+ */
+
+import { Payment, PaymentMethod, Prisma, RefundReason, RefundStatus } from '@prisma/client';
+import { COLLECTED_PAYMENT_STATUSES, PAYMENT_TOLERANCE, roundCurrency } from './payments';
+import { findCashRefundSession } from './cashSessions';
+import { GiftCardError, recordGiftCardChange } from './giftCards';
+
+// Refunds that count against their payment leg (PENDING ones hold their amount)
+export const ISSUED_REFUND_STATUSES: RefundStatus[] = ['PENDING', 'COMPLETED'];
+
+/**
+ * Refund to record against a payment leg
+ */
+export interface RefundRequest {
+    amount: number;
+    reason: RefundReason;
+    method: PaymentMethod;
+    approvedById: number | null;
+    note?: string | null;
+    items?: { orderItemId: number; quantity: number; amount: number }[];
+    providerRefundId?: string | null; // Set when the provider already returned the money (skips the provider call)
+    tipAmount?: number;               // Tip returned on top of amount
+}
+
+/**
+ * Get Refundable Amount
+ *
+ * @param payment - Payment leg
+ * @returns Amount that can still be refunded from the leg
+ */
+export const getRefundableAmount = (payment: Pick<Payment, 'amount' | 'refundedAmount' | 'status'>): number =>
+    COLLECTED_PAYMENT_STATUSES.includes(payment.status)
+        ? Math.max(roundCurrency(payment.amount - payment.refundedAmount), 0)
+        : 0;
+
+/**
+ * Issue Refund
+ *
+ * Records the refund (with refunded item quantities, if any) and updates the
+ * payment leg. Callers validate the amount against getRefundableAmount first.
+ * Refunds going back through the payment provider are left PENDING for
+ * sendProviderRefund to call the provider after the transaction commits.
+ *
+ * @param db - Prisma transaction client
+ * @param payment - Payment leg being refunded
+ * @param request - Refund details
+ * @returns The created refund including its items
+ */
+export const issueRefund = async (db: Prisma.TransactionClient, payment: Payment, request: RefundRequest) => {
+    const refundedAmount = roundCurrency(payment.refundedAmount + request.amount);
+
+    // Money goes back through the provider when it goes back the way it came
+    const throughProvider = request.providerRefundId === undefined
+        && Boolean(payment.provider && payment.providerPaymentId)
+        && request.method === payment.method;
+
+    if (request.method === 'GIFT_CARD' && payment.giftCardId === null) {
+        throw new GiftCardError('Only gift card payments can be refunded to a gift card');
+    }
+
+    // Cash refunds are paid from an open drawer (see utils/cashSessions)
+    const cashSessionId = request.method === 'CASH'
+        ? await findCashRefundSession(db, request.approvedById, payment)
+        : null;
+
+    const refund = await db.refund.create({
+        data: {
+            amount: roundCurrency(request.amount),
+            tipAmount: roundCurrency(request.tipAmount ?? 0),
+            reason: request.reason,
+            note: request.note || null,
+            method: request.method,
+            providerRefundId: request.providerRefundId ?? null,
+            status: throughProvider ? 'PENDING' : 'COMPLETED',
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            approvedById: request.approvedById,
+            cashSessionId,
+            items: request.items?.length
+                ? { create: request.items }
+                : undefined
+        },
+        include: { items: true }
+    });
+
+    if (request.method === 'GIFT_CARD' && payment.giftCardId !== null) {
+        await recordGiftCardChange(db, payment.giftCardId, 'REFUND', refund.amount + refund.tipAmount, {
+            refundId: refund.id,
+            performedById: request.approvedById,
+            note: request.note
+        });
+    }
+
+    await db.payment.update({
+        where: { id: payment.id },
+        data: {
+            refundedAmount,
+            // Fully refunded legs drop out of payment-based revenue figures
+            status: refundedAmount >= payment.amount - PAYMENT_TOLERANCE ? 'REFUNDED' : payment.status
+        }
+    });
+
+    return refund;
+};
+
+/**
+ * Complete Refund
+ *
+ * @param db - Prisma transaction client
+ * @param refundId - PENDING refund
+ * @param providerRefundId - Provider's ID for the refund
+ * @returns False if the refund was no longer pending
+ */
+export const completeRefund = async (
+    db: Prisma.TransactionClient,
+    refundId: number,
+    providerRefundId: string | null
+): Promise<boolean> => {
+    const claimed = await db.refund.updateMany({
+        where: { id: refundId, status: 'PENDING' },
+        data: { status: 'COMPLETED', providerRefundId }
+    });
+    return claimed.count > 0;
+};
+
+/**
+ * Fail Refund
+ *
+ * Marks a PENDING refund FAILED and releases the amount it held on its
+ * payment leg, so it can be refunded again.
+ *
+ * @param db - Prisma transaction client
+ * @param refundId - PENDING refund
+ * @param failureReason - Why the provider did not return the money
+ * @returns False if the refund was no longer pending
+ */
+export const failRefund = async (
+    db: Prisma.TransactionClient,
+    refundId: number,
+    failureReason: string
+): Promise<boolean> => {
+    const claimed = await db.refund.updateMany({
+        where: { id: refundId, status: 'PENDING' },
+        data: { status: 'FAILED', failureReason }
+    });
+    if (claimed.count === 0) return false;
+
+    const refund = await db.refund.findUniqueOrThrow({ where: { id: refundId }, include: { payment: true } });
+    const refundedAmount = Math.max(roundCurrency(refund.payment.refundedAmount - refund.amount), 0);
+    await db.payment.update({
+        where: { id: refund.paymentId },
+        data: {
+            refundedAmount,
+            status: refund.payment.status === 'REFUNDED' && refundedAmount < refund.payment.amount - PAYMENT_TOLERANCE
+                ? 'COMPLETED'
+                : refund.payment.status
+        }
+    });
+    return true;
+};
+
+/**
+ * Refund Order Payments
+ *
+ * Refunds whatever is left on every completed payment leg of an order,
+ * including tips, e.g. when the order is cancelled. Legs still waiting for
+ * the payment provider are marked FAILED; the caller voids them at the
+ * provider after the transaction commits (see settleProviderRefunds).
+ *
+ * @param db - Prisma transaction client
+ * @param orderId - Order whose payments are refunded
+ * @param reason - Refund reason code
+ * @param approvedById - User issuing the refund
+ * @param note - Optional free-text note
+ * @returns The created refunds and the legs to void
+ */
+export const refundOrderPayments = async (
+    db: Prisma.TransactionClient,
+    orderId: number,
+    reason: RefundReason,
+    approvedById: number | null,
+    note?: string | null
+) => {
+    const pending = await db.payment.findMany({
+        where: { orderId, status: 'PENDING' }
+    });
+    const voidedPayments = [];
+    for (const payment of pending) {
+        voidedPayments.push(await db.payment.update({
+            where: { id: payment.id },
+            data: { status: 'FAILED', failureReason: note ? `Voided: ${note}` : 'Voided' }
+        }));
+    }
+
+    const payments = await db.payment.findMany({
+        where: { orderId, status: { in: COLLECTED_PAYMENT_STATUSES } },
+        include: { refunds: { where: { status: { in: ISSUED_REFUND_STATUSES } }, select: { tipAmount: true } } }
+    });
+
+    const refunds = [];
+    for (const { refunds: issued, ...payment } of payments) {
+        const amount = getRefundableAmount(payment);
+        const tipAmount = Math.max(roundCurrency(payment.tipAmount - issued.reduce((sum, refund) => sum + refund.tipAmount, 0)), 0);
+        if (amount <= 0 && tipAmount <= 0) continue;
+
+        refunds.push(await issueRefund(db, payment, {
+            amount,
+            tipAmount,
+            reason,
+            method: payment.method,
+            approvedById,
+            note
+        }));
+    }
+
+    return { refunds, voidedPayments };
+};
@@ -0,0 +1,127 @@
+/**
+ * Table Reservation Utilities
+ *
+ * This module contains the availability logic for table reservations. A
+ * reservation holds one table for the branch reservation duration, and
+ * starts on the branch reservation grid within opening hours.
+ *
+ * Conventions:
+ * - Times use the server's local time zone, like scheduled orders
+ * - The smallest free table that seats the party is assigned when booking
+ * - Parties larger than the biggest table are not bookable online
+ */
+
+import { Branch, ReservationStatus } from '@prisma/client';
+import { parseClockTime } from './scheduling';
+
+export type ReservationSettings = Pick<
+    Branch,
+    'openTime' | 'closeTime' | 'reservationSlotMinutes' | 'reservationDurationMinutes' | 'reservationDaysAhead'
+>;
+
+// Reservations in these states hold their table
+export const ACTIVE_RESERVATION_STATUSES: ReservationStatus[] = ['BOOKED', 'SEATED'];
+
+/**
+ * Existing reservation that may block a table
+ */
+export interface TableBooking {
+    tableId: number | null;
+    reservedFor: Date;
+    durationMinutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Generate Reservation Times
+ *
+ * Lists every reservation start on the given day where the full reservation
+ * duration ends by closing time.
+ *
+ * @param settings - Branch reservation settings
+ * @param day - Any time on the requested day
+ * @returns Reservation start times in ascending order
+ */
+export const generateReservationTimes = (settings: ReservationSettings, day: Date): Date[] => {
+    const open = parseClockTime(settings.openTime);
+    const close = parseClockTime(settings.closeTime);
+    if (open === null || close === null || settings.reservationSlotMinutes <= 0) return [];
+
+    const midnight = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    const times: Date[] = [];
+
+    for (let minute = open; minute + settings.reservationDurationMinutes <= close; minute += settings.reservationSlotMinutes) {
+        times.push(new Date(midnight.getTime() + minute * MINUTE_MS));
+    }
+
+    return times;
+};
+
+/**
+ * Validate Reservation Time
+ *
+ * @param settings - Branch reservation settings
+ * @param requested - Requested reservation start
+ * @param now - Current time
+ * @returns Error message, or null when the time is valid
+ */
+export const validateReservationTime = (settings: ReservationSettings, requested: Date, now: Date = new Date()): string | null => {
+    if (isNaN(requested.getTime())) {
+        return 'reservedFor must be a valid date and time';
+    }
+
+    if (requested <= now) {
+        return 'Reservations must be in the future';
+    }
+
+    const horizon = new Date(now.getFullYear(), now.getMonth(), now.getDate() + settings.reservationDaysAhead + 1);
+    if (requested >= horizon) {
+        return `Reservations can be made at most ${settings.reservationDaysAhead} days ahead`;
+    }
+
+    const isReservationTime = generateReservationTimes(settings, requested).some(time => time.getTime() === requested.getTime());
+    if (!isReservationTime) {
+        return `reservedFor must start on a ${settings.reservationSlotMinutes}-minute mark and end by closing time (${settings.openTime}-${settings.closeTime})`;
+    }
+
+    return null;
+};
+
+/**
+ * Pick Table
+ *
+ * Finds the smallest table that seats the party and has no overlapping
+ * booking between start and start + duration.
+ *
+ * @param tables - Branch tables
+ * @param bookings - Active reservations around the requested time
+ * @param partySize - Number of guests
+ * @param start - Requested reservation start
+ * @param durationMinutes - Reservation duration
+ * @returns The table to assign, or null when none is free
+ */
+export const pickTable = <T extends { id: number; seats: number }>(
+    tables: T[],
+    bookings: TableBooking[],
+    partySize: number,
+    start: Date,
+    durationMinutes: number
+): T | null => {
+    const end = start.getTime() + durationMinutes * MINUTE_MS;
+
+    const blocked = new Set(
+        bookings
+            .filter(booking =>
+                booking.reservedFor.getTime() < end &&
+                booking.reservedFor.getTime() + booking.durationMinutes * MINUTE_MS > start.getTime()
+            )
+            .map(booking => booking.tableId)
+    );
+
+    const candidates = tables
+        .filter(table => table.seats >= partySize && !blocked.has(table.id))
+        .sort((a, b) => a.seats - b.seats);
+
+    return candidates[0] || null;
+};
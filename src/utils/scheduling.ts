@@ -0,0 +1,166 @@
+/**
+ * Scheduled Order Utilities
+ *
+ * This module contains the time-slot logic for scheduled pickup and delivery
+ * orders. Each branch splits its opening hours into fixed-length slots with a
+ * maximum number of scheduled orders per slot.
+ *
+ * Conventions:
+ * - Times use the server's local time zone, like the rest of the reports
+ * - A scheduled order stores the start of its slot in Order.scheduledFor
+ * - Scheduled orders stay off the kitchen screens until
+ *   `scheduleLeadMinutes` before their slot
+ */
+
+import { Branch, Prisma } from '@prisma/client';
+
+export type SlotSettings = Pick<
+    Branch,
+    'openTime' | 'closeTime' | 'slotIntervalMinutes' | 'slotCapacity' | 'scheduleLeadMinutes' | 'maxScheduleDaysAhead'
+>;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Parse Clock Time
+ *
+ * @param value - Time in HH:MM (24-hour) format
+ * @returns Minutes since midnight, or null if the value is invalid
+ */
+export const parseClockTime = (value: string): number | null => {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+    if (!match) return null;
+    return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/**
+ * Parse Local Date
+ *
+ * @param value - Day in YYYY-MM-DD format
+ * @returns Local midnight of that day, or null if the value is invalid
+ */
+export const parseLocalDate = (value: string): Date | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+/**
+ * Get Next Local Day
+ *
+ * @param day - Local midnight of a day
+ * @returns Local midnight of the following day (23 or 25 hours later on
+ *          daylight saving changes)
+ */
+export const getNextLocalDay = (day: Date): Date =>
+    new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+
+/**
+ * Format Local Date
+ *
+ * @param day - Any time on the day
+ * @returns Day in YYYY-MM-DD format
+ */
+export const formatLocalDate = (day: Date): string =>
+    `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+
+/**
+ * Generate Day Slots
+ *
+ * Lists the start time of every slot that fits completely within the
+ * branch opening hours on the given day.
+ *
+ * @param settings - Branch slot settings
+ * @param day - Any time on the requested day
+ * @returns Slot start times in ascending order
+ */
+export const generateDaySlots = (settings: SlotSettings, day: Date): Date[] => {
+    const open = parseClockTime(settings.openTime);
+    const close = parseClockTime(settings.closeTime);
+    if (open === null || close === null || settings.slotIntervalMinutes <= 0) return [];
+
+    const midnight = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    const slots: Date[] = [];
+
+    for (let minute = open; minute + settings.slotIntervalMinutes <= close; minute += settings.slotIntervalMinutes) {
+        slots.push(new Date(midnight.getTime() + minute * MINUTE_MS));
+    }
+
+    return slots;
+};
+
+/**
+ * Get Earliest Schedulable Time
+ *
+ * Scheduled orders need at least the kitchen lead time before their slot.
+ *
+ * @param settings - Branch slot settings
+ * @param now - Current time
+ * @returns Earliest allowed slot start
+ */
+export const getEarliestSlotStart = (settings: SlotSettings, now: Date = new Date()): Date => {
+    return new Date(now.getTime() + settings.scheduleLeadMinutes * MINUTE_MS);
+};
+
+/**
+ * Validate Scheduled Time
+ *
+ * Checks that the requested time is a slot start within opening hours,
+ * far enough ahead for the kitchen and within the booking horizon.
+ * Capacity is checked separately against the database.
+ *
+ * @param settings - Branch slot settings
+ * @param requested - Requested slot start
+ * @param now - Current time
+ * @returns Error message, or null when the time is valid
+ */
+export const validateScheduledTime = (settings: SlotSettings, requested: Date, now: Date = new Date()): string | null => {
+    if (isNaN(requested.getTime())) {
+        return 'scheduledFor must be a valid date and time';
+    }
+
+    if (requested < getEarliestSlotStart(settings, now)) {
+        return `Scheduled orders must be placed at least ${settings.scheduleLeadMinutes} minutes ahead`;
+    }
+
+    const horizon = new Date(now.getFullYear(), now.getMonth(), now.getDate() + settings.maxScheduleDaysAhead + 1);
+    if (requested >= horizon) {
+        return `Orders can be scheduled at most ${settings.maxScheduleDaysAhead} days ahead`;
+    }
+
+    const isSlotStart = generateDaySlots(settings, requested).some(slot => slot.getTime() === requested.getTime());
+    if (!isSlotStart) {
+        return `scheduledFor must be the start of a ${settings.slotIntervalMinutes}-minute slot within opening hours (${settings.openTime}-${settings.closeTime})`;
+    }
+
+    return null;
+};
+
+/**
+ * Kitchen Release Filter
+ *
+ * Prisma filter for orders that belong on kitchen screens: orders without a
+ * schedule, plus scheduled orders whose slot starts within the lead time.
+ *
+ * @param leadMinutes - Branch scheduleLeadMinutes
+ * @param now - Current time
+ * @returns Order where-input to combine with other filters
+ */
+export const kitchenReleaseFilter = (leadMinutes: number, now: Date = new Date()): Prisma.OrderWhereInput => ({
+    OR: [
+        { scheduledFor: null },
+        { scheduledFor: { lte: new Date(now.getTime() + leadMinutes * MINUTE_MS) } }
+    ]
+});
+
+/**
+ * Get Kitchen Release Time
+ *
+ * Counterpart of kitchenReleaseFilter for a single order.
+ *
+ * @param scheduledFor - Start of the order's slot (null = as soon as possible)
+ * @param leadMinutes - Branch scheduleLeadMinutes
+ * @returns When the order reaches kitchen screens (null = straight away)
+ */
+export const getKitchenReleaseTime = (scheduledFor: Date | null, leadMinutes: number): Date | null =>
+    scheduledFor ? new Date(scheduledFor.getTime() - leadMinutes * MINUTE_MS) : null;
@@ -0,0 +1,33 @@
+import prisma from '../utils/prisma';
+
+// Approximate postcode centroids used by delivery routing (utils/deliveryZones)
+async function seedPostcodes() {
+  const postcodes = [
+    { postcode: '11120', latitude: 59.3326, longitude: 18.0649, city: 'Stockholm' },
+    { postcode: '11122', latitude: 59.3310, longitude: 18.0590, city: 'Stockholm' },
+    { postcode: '11143', latitude: 59.3362, longitude: 18.0711, city: 'Stockholm' },
+    { postcode: '11346', latitude: 59.3428, longitude: 18.0490, city: 'Stockholm' },
+    { postcode: '11451', latitude: 59.3387, longitude: 18.0826, city: 'Stockholm' },
+    { postcode: '11631', latitude: 59.3155, longitude: 18.0719, city: 'Stockholm' },
+    { postcode: '11853', latitude: 59.3175, longitude: 18.0446, city: 'Stockholm' },
+    { postcode: '16970', latitude: 59.3598, longitude: 18.0010, city: 'Solna' },
+    { postcode: '17141', latitude: 59.3612, longitude: 17.9990, city: 'Solna' },
+    { postcode: '41103', latitude: 57.7065, longitude: 11.9670, city: 'Göteborg' },
+    { postcode: '41136', latitude: 57.6992, longitude: 11.9747, city: 'Göteborg' },
+    { postcode: '41318', latitude: 57.6968, longitude: 11.9455, city: 'Göteborg' },
+    { postcode: '21122', latitude: 55.6063, longitude: 13.0004, city: 'Malmö' },
+    { postcode: '21143', latitude: 55.6010, longitude: 13.0075, city: 'Malmö' },
+    { postcode: '75310', latitude: 59.8586, longitude: 17.6389, city: 'Uppsala' },
+  ];
+
+  for (const entry of postcodes) {
+    await prisma.postcodeCentroid.upsert({
+      where: { postcode: entry.postcode },
+      update: entry,
+      create: entry,
+    });
+  }
+  console.log('Postcode centroids seeded!');
+}
+
+seedPostcodes().finally(() => prisma.$disconnect());
@@ -0,0 +1,223 @@
+/**
+ * Stock Utilities
+ *
+ * Ingredient stock is taken when an order (or tab round) is placed and given
+ * back when the order is cancelled or items are removed from it. Every change is recorded as a stock
+ * movement against the order, so a cancellation returns exactly what was taken.
+ * Orders cancelled after the kitchen started on them do not return their
+ * stock: what they held is written off as waste instead.
+ * Ingredients with a portion quantity of 0 are linked for information only and
+ * are not deducted.
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Ingredient that cannot cover an order
+ */
+export interface StockShortage {
+    inventoryItemId: number;
+    name: string;
+    unit: string;
+    required: number;
+    available: number;
+}
+
+/**
+ * Thrown inside a transaction when stock is insufficient, so the whole
+ * transaction (including the order) is rolled back
+ */
+export class InsufficientStockError extends Error {
+    constructor(public shortages: StockShortage[]) {
+        super('Not enough stock for this order');
+        this.name = 'InsufficientStockError';
+    }
+}
+
+/**
+ * Total ingredient quantities per inventory item for a list of menu items.
+ */
+const getIngredientTotals = async (
+    tx: Prisma.TransactionClient,
+    items: { menuItemId: number; quantity: number }[]
+): Promise<Map<number, number>> => {
+    const recipes = await tx.menuItemIngredient.findMany({
+        where: {
+            menuItemId: { in: items.map(item => item.menuItemId) },
+            quantity: { gt: 0 }
+        }
+    });
+
+    const totals = new Map<number, number>();
+    for (const item of items) {
+        for (const recipe of recipes.filter(entry => entry.menuItemId === item.menuItemId)) {
+            totals.set(
+                recipe.inventoryItemId,
+                (totals.get(recipe.inventoryItemId) ?? 0) + recipe.quantity * item.quantity
+            );
+        }
+    }
+    // Rows are updated in ID order, so concurrent orders lock them in the same order
+    return new Map([...totals].sort(([a], [b]) => a - b));
+};
+
+/**
+ * Return what an order still holds per inventory item (taken minus returned
+ * or written off).
+ */
+const getHeldStock = async (tx: Prisma.TransactionClient, orderId: number): Promise<Map<number, number>> => {
+    const movements = await tx.stockMovement.groupBy({
+        by: ['inventoryItemId'],
+        where: { orderId, reason: { not: 'WASTE' } },
+        _sum: { quantity: true },
+        orderBy: { inventoryItemId: 'asc' }
+    });
+
+    return new Map(movements
+        .map(entry => [entry.inventoryItemId, -(entry._sum.quantity ?? 0)] as const)
+        .filter(([, amount]) => amount > 0));
+};
+
+/**
+ * Put stock back and record the movements.
+ */
+const putBack = async (
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    returns: Map<number, number>,
+    reason: 'ORDER_CANCELLED' | 'ORDER_AMENDED'
+): Promise<void> => {
+    for (const [inventoryItemId, amount] of returns) {
+        await tx.inventoryItem.update({
+            where: { id: inventoryItemId },
+            data: { quantity: { increment: amount } }
+        });
+    }
+
+    if (returns.size) {
+        await tx.stockMovement.createMany({
+            data: [...returns].map(([inventoryItemId, amount]) => ({
+                inventoryItemId,
+                orderId,
+                quantity: amount,
+                reason
+            }))
+        });
+    }
+};
+
+/**
+ * Deduct Stock
+ *
+ * Each ingredient is decremented with a conditional update, so concurrent
+ * orders can never take the stock below zero.
+ *
+ * @param tx - Transaction client of the order being placed
+ * @param orderId - Order the stock is taken for
+ * @param items - Ordered menu items and quantities
+ * @throws InsufficientStockError listing every ingredient that is short
+ */
+export const deductStock = async (
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    items: { menuItemId: number; quantity: number }[]
+): Promise<void> => {
+    const required = await getIngredientTotals(tx, items);
+
+    const short: number[] = [];
+    for (const [inventoryItemId, amount] of required) {
+        const { count } = await tx.inventoryItem.updateMany({
+            where: { id: inventoryItemId, quantity: { gte: amount } },
+            data: { quantity: { decrement: amount } }
+        });
+        if (count === 0) short.push(inventoryItemId);
+    }
+
+    if (short.length) {
+        const inventoryItems = await tx.inventoryItem.findMany({
+            where: { id: { in: short } },
+            orderBy: { name: 'asc' }
+        });
+        throw new InsufficientStockError(inventoryItems.map(item => ({
+            inventoryItemId: item.id,
+            name: item.name,
+            unit: item.unit,
+            required: required.get(item.id) ?? 0,
+            available: item.quantity
+        })));
+    }
+
+    if (required.size) {
+        await tx.stockMovement.createMany({
+            data: [...required].map(([inventoryItemId, amount]) => ({
+                inventoryItemId,
+                orderId,
+                quantity: -amount,
+                reason: 'ORDER' as const
+            }))
+        });
+    }
+};
+
+/**
+ * Restore Stock
+ *
+ * Returns whatever the order still holds (taken minus already returned), so
+ * calling it again for the same order is harmless.
+ *
+ * @param tx - Transaction client of the cancellation
+ * @param orderId - Cancelled order
+ */
+export const restoreStock = async (tx: Prisma.TransactionClient, orderId: number): Promise<void> => {
+    await putBack(tx, orderId, await getHeldStock(tx, orderId), 'ORDER_CANCELLED');
+};
+
+/**
+ * Write Off Stock
+ *
+ * Records what a cancelled order still holds as waste, e.g. when it was
+ * cancelled after preparation. Each ingredient is returned from the order
+ * and written off in the same step, so the stock level does not change.
+ *
+ * @param tx - Transaction client of the cancellation
+ * @param orderId - Cancelled order
+ */
+export const writeOffStock = async (tx: Prisma.TransactionClient, orderId: number): Promise<void> => {
+    const held = await getHeldStock(tx, orderId);
+    if (!held.size) return;
+
+    await tx.stockMovement.createMany({
+        data: [...held].flatMap(([inventoryItemId, amount]) => [
+            { inventoryItemId, orderId, quantity: amount, reason: 'ORDER_CANCELLED' as const },
+            { inventoryItemId, orderId, quantity: -amount, reason: 'WASTE' as const }
+        ])
+    });
+};
+
+/**
+ * Return Stock
+ *
+ * Gives back the ingredients of items removed from an order. Never returns
+ * more than the order still holds, so recipe changes since the order was
+ * placed cannot inflate stock.
+ *
+ * @param tx - Transaction client of the amendment
+ * @param orderId - Amended order
+ * @param items - Removed menu items and quantities
+ */
+export const returnStock = async (
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    items: { menuItemId: number; quantity: number }[]
+): Promise<void> => {
+    const totals = await getIngredientTotals(tx, items);
+    const held = await getHeldStock(tx, orderId);
+
+    const returns = new Map<number, number>();
+    for (const [inventoryItemId, amount] of totals) {
+        const capped = Math.min(amount, held.get(inventoryItemId) ?? 0);
+        if (capped > 0) returns.set(inventoryItemId, capped);
+    }
+
+    await putBack(tx, orderId, returns, 'ORDER_AMENDED');
+};
@@ -0,0 +1,156 @@
+/**
+ * Tip Utilities
+ *
+ * Guests can add a tip to any payment leg, as a fixed amount or as a
+ * percentage of the leg. Tips are paid on top of the leg and never count
+ * towards the order total or its balance due. They are only returned when the
+ * whole order is refunded (e.g. on cancellation).
+ *
+ * Tips collected at a branch form a pool that is shared between the staff who
+ * worked in the period (clocked StaffShifts), according to the branch's
+ * TipPoolMethod.
+ */
+
+import { Role, StaffShift, TipPoolMethod } from '@prisma/client';
+import { roundCurrency } from './payments';
+
+// A tip may not exceed the amount it is added to
+export const MAX_TIP_PERCENTAGE = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Staff member taking part in a tip pool
+ */
+export interface TipPoolParticipant {
+    userId: number;
+    username: string;
+    role: Role;
+    hours: number;
+}
+
+/**
+ * Share of the tip pool paid to one staff member
+ */
+export interface TipShare extends TipPoolParticipant {
+    weight: number;  // Role weight (ROLE_WEIGHTED), otherwise 1
+    points: number;  // Basis the pool is shared by (1, hours or hours times weight)
+    amount: number;
+}
+
+/**
+ * Resolve Tip
+ *
+ * @param amount - Amount of the payment leg
+ * @param tip - Tip fields of the requested leg ({ tipAmount } or { tipPercentage })
+ * @returns The tip (0 when none was given), or a validation error message
+ */
+export const resolveTip = (
+    amount: number,
+    tip: { tipAmount?: unknown; tipPercentage?: unknown }
+): { tipAmount: number; error?: undefined } | { error: string } => {
+    if (tip.tipAmount !== undefined && tip.tipPercentage !== undefined) {
+        return { error: 'Give either tipAmount or tipPercentage, not both' };
+    }
+
+    if (tip.tipPercentage !== undefined) {
+        const percentage = Number(tip.tipPercentage);
+        if (!Number.isFinite(percentage) || percentage < 0 || percentage > MAX_TIP_PERCENTAGE) {
+            return { error: `tipPercentage must be between 0 and ${MAX_TIP_PERCENTAGE}` };
+        }
+        return { tipAmount: roundCurrency(amount * percentage / 100) };
+    }
+
+    if (tip.tipAmount !== undefined) {
+        const tipAmount = roundCurrency(Number(tip.tipAmount));
+        if (!Number.isFinite(tipAmount) || tipAmount < 0) {
+            return { error: 'tipAmount must be 0 or more' };
+        }
+        if (tipAmount > amount * MAX_TIP_PERCENTAGE / 100) {
+            return { error: `tipAmount may not exceed ${MAX_TIP_PERCENTAGE}% of the payment` };
+        }
+        return { tipAmount };
+    }
+
+    return { tipAmount: 0 };
+};
+
+/**
+ * Get Suggested Tips
+ *
+ * @param presets - The branch's suggested tip percentages
+ * @param amount - Amount the tip is based on
+ * @returns Each preset with the tip it works out to
+ */
+export const getSuggestedTips = (presets: number[], amount: number) =>
+    presets.map(percentage => ({ percentage, tipAmount: roundCurrency(amount * percentage / 100) }));
+
+/**
+ * Get Shift Hours
+ *
+ * @param shift - Staff shift (running shifts count until now)
+ * @param start - Start of the period
+ * @param end - End of the period
+ * @returns Hours of the shift within the period
+ */
+export const getShiftHours = (
+    shift: Pick<StaffShift, 'clockedInAt' | 'clockedOutAt'>,
+    start: Date,
+    end: Date
+): number => {
+    const from = Math.max(shift.clockedInAt.getTime(), start.getTime());
+    const to = Math.min((shift.clockedOutAt ?? new Date()).getTime(), end.getTime());
+    return Math.max(to - from, 0) / HOUR_MS;
+};
+
+/**
+ * Distribute Tips
+ *
+ * Shares the pool in whole cents by each participant's points; cents left
+ * over by rounding go to the largest remainders, so the shares always add up
+ * to the pool. Participants with no points (no hours, or a role without a
+ * weight) get nothing.
+ *
+ * @param total - Tip pool
+ * @param participants - Staff who worked in the period
+ * @param method - The branch's pool method
+ * @param roleWeights - Weight per role (ROLE_WEIGHTED)
+ * @returns Share of every participant, largest first
+ */
+export const distributeTips = (
+    total: number,
+    participants: TipPoolParticipant[],
+    method: TipPoolMethod,
+    roleWeights: Partial<Record<Role, number>> = {}
+): TipShare[] => {
+    const scored = participants.map(participant => {
+        const weight = method === 'ROLE_WEIGHTED' ? roleWeights[participant.role] ?? 0 : 1;
+        const points = method === 'EQUAL'
+            ? (participant.hours > 0 ? 1 : 0)
+            : participant.hours * weight;
+        return { ...participant, hours: roundCurrency(participant.hours), weight, points };
+    });
+
+    const totalPoints = scored.reduce((sum, participant) => sum + participant.points, 0);
+    const cents = Math.round(total * 100);
+    if (totalPoints <= 0 || cents <= 0) {
+        return scored.map(participant => ({ ...participant, amount: 0 }));
+    }
+
+    const exact = scored.map(participant => cents * participant.points / totalPoints);
+    const shares = exact.map(Math.floor);
+    let leftover = cents - shares.reduce((sum, share) => sum + share, 0);
+
+    const byRemainder = exact
+        .map((value, index) => ({ index, remainder: value - shares[index] }))
+        .sort((a, b) => b.remainder - a.remainder);
+    for (const { index } of byRemainder) {
+        if (leftover <= 0) break;
+        shares[index]++;
+        leftover--;
+    }
+
+    return scored
+        .map((participant, index) => ({ ...participant, points: roundCurrency(participant.points), amount: shares[index] / 100 }))
+        .sort((a, b) => b.amount - a.amount);
+};